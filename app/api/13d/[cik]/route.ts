@@ -0,0 +1,74 @@
+// app/api/13d/[cik]/route.ts
+import { NextResponse } from "next/server";
+import { buildTimeline, isSchedule13, loadSchedule13, scheduleKind, type Schedule13 } from "@/lib/schedule13";
+import { SEC_BASE, mapLimit, normalizeCIK, recentFilings, secJSON } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+// Each schedule is one SEC request; keep the fan-out bounded
+const MAX_FILINGS = 80;
+
+/**
+ * Beneficial ownership timeline of one issuer from its SC 13D / 13G filings
+ * (oldest first), plus each holder's latest reported position.
+ *
+ *   ?limit=40      most recent schedules to parse (max 80)
+ */
+export async function GET(req: Request, { params }: { params: { cik: string } }) {
+  try {
+    const cik10 = normalizeCIK(params.cik || "");
+    if (!cik10) {
+      return NextResponse.json({ ok: false, error: "Invalid CIK." }, { status: 400 });
+    }
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(MAX_FILINGS, parseInt(searchParams.get("limit") || "40", 10) || 40));
+
+    const recent = await recentFilings(cik10);
+    if (!recent) {
+      return NextResponse.json({ ok: false, error: "Company not found." }, { status: 404 });
+    }
+    const filings = recent.filter((f) => isSchedule13(f.form)).slice(0, limit);
+
+    const [parsed, sub] = await Promise.all([
+      mapLimit(filings, 4, (f) =>
+        loadSchedule13(cik10, { accessionNumber: f.accessionNumber, form: f.form, filed: f.filingDate }).catch(() => null)
+      ),
+      secJSON(`${SEC_BASE}/submissions/CIK${cik10}.json`), // already cached by recentFilings
+    ]);
+    // a company's own 13Ds on other issuers show up in its submissions too
+    const schedules = parsed.filter(
+      (s): s is Schedule13 => !!s && (!s.subject || s.subject.cik === cik10)
+    );
+    const timeline = buildTimeline(schedules);
+
+    const latest = new Map<string, (typeof timeline)[number]>();
+    timeline.forEach((e) => latest.set(e.holderCik || e.holder.toUpperCase(), e));
+    const holders = Array.from(latest.values())
+      .map((e) => ({
+        holder: e.holder,
+        holderCik: e.holderCik,
+        kind: scheduleKind(e.form).kind,
+        percent: e.percent,
+        shares: e.shares,
+        lastFiled: e.filed,
+        lastEvent: e.event,
+        active: e.event !== "below-5",
+      }))
+      .sort((a, b) => (b.percent ?? -1) - (a.percent ?? -1));
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      name: sub.ok ? sub.data?.name : undefined,
+      filings: filings.length,
+      unreadable: filings.length - parsed.filter(Boolean).length,
+      holders,
+      timeline,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/13d/latest/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { loadSchedule13 } from "@/lib/schedule13";
+import { mapLimit } from "@/lib/sec";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_PARSED = 50;
+const NEW_13D = ["SC 13D", "SCHEDULE 13D"];
+const AMENDED_13D = ["SC 13D/A", "SCHEDULE 13D/A"];
+
+/**
+ * Newest 13D filings across all issuers, from the ingested EDGAR index (see
+ * /api/filings/ingest), with their cover pages parsed.
+ *
+ *   ?amendments=1   include 13D/A
+ *   ?limit=25       filings to return (max 50)
+ *   ?page=1
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const forms = searchParams.get("amendments") === "1" ? [...NEW_13D, ...AMENDED_13D] : NEW_13D;
+    const limit = Math.max(1, Math.min(MAX_PARSED, parseInt(searchParams.get("limit") || "25", 10) || 25));
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+
+    const filings = await prisma.edgarFiling.findMany({
+      where: { form: { in: forms } },
+      // the index lists a 13D under both the subject company and the filer
+      distinct: ["accessionNumber"],
+      orderBy: [{ filed: "desc" }, { accessionNumber: "desc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    if (!filings.length) {
+      return NextResponse.json({
+        ok: true, count: 0, page, data: [],
+        meta: { note: "No 13D filings in the index; run /api/filings/ingest first." },
+      });
+    }
+
+    const data = await mapLimit(filings, 4, async (f: any) => {
+      const s = await loadSchedule13(f.cik, { accessionNumber: f.accessionNumber, form: f.form, filed: f.filed }).catch(() => null);
+      return {
+        accessionNumber: f.accessionNumber,
+        form: f.form,
+        filed: f.filed,
+        subject: s?.subject,
+        filer: s?.filer || (s ? undefined : { cik: f.cik, name: f.company }),
+        persons: s?.persons.map((p) => p.name) || [],
+        percent: s?.percent,
+        shares: s?.shares,
+        eventDate: s?.eventDate,
+        purpose: s?.purpose ? s.purpose.slice(0, 600) : undefined,
+        url: s?.url,
+      };
+    });
+
+    return NextResponse.json({
+      ok: true,
+      count: data.length,
+      page,
+      hasMore: filings.length === limit,
+      data,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
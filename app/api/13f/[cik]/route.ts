@@ -0,0 +1,91 @@
+// app/api/13f/[cik]/route.ts
+import { NextResponse } from "next/server";
+import { diffHoldings, loadHoldings, quarterlyReports, type ChangeStatus } from "@/lib/form13f";
+import { SEC_BASE, normalizeAccession, normalizeCIK, recentFilings, secJSON } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+/**
+ * Holdings of one 13F manager, with changes vs. the prior quarter.
+ *
+ *   ?accession=...   a specific 13F-HR (default: latest quarter)
+ *   ?exited=0        leave out positions closed since the prior quarter
+ */
+export async function GET(req: Request, { params }: { params: { cik: string } }) {
+  try {
+    const cik10 = normalizeCIK(params.cik || "");
+    if (!cik10) {
+      return NextResponse.json({ ok: false, error: "Invalid CIK." }, { status: 400 });
+    }
+    const { searchParams } = new URL(req.url);
+    const accRaw = (searchParams.get("accession") || "").trim();
+    const acc = accRaw ? normalizeAccession(accRaw) : null;
+    if (accRaw && !acc) {
+      return NextResponse.json({ ok: false, error: "Invalid accession number." }, { status: 400 });
+    }
+    const includeExited = searchParams.get("exited") !== "0";
+
+    const reports = await quarterlyReports(cik10);
+    let idx = 0;
+    if (acc) {
+      idx = reports.findIndex((f) => f.accessionNumber === acc);
+      if (idx < 0) {
+        // an older duplicate for the same quarter (or an /A) can still be asked for explicitly
+        const any = ((await recentFilings(cik10)) || []).find((f) => f.accessionNumber === acc);
+        if (!any || !/^13F-HR/i.test(any.form)) {
+          return NextResponse.json({ ok: false, error: "Accession is not a 13F-HR of this filer." }, { status: 404 });
+        }
+        reports.splice(0, 0, any);
+        idx = 0;
+      }
+    }
+    const curFiling = reports[idx];
+    if (!curFiling) {
+      return NextResponse.json({ ok: false, error: "No 13F-HR filings found for this CIK." }, { status: 404 });
+    }
+    const priorFiling = reports
+      .slice(idx + 1)
+      .find((f) => (f.reportDate || f.filingDate) < (curFiling.reportDate || curFiling.filingDate));
+
+    const [current, prior, sub] = await Promise.all([
+      loadHoldings(cik10, curFiling),
+      priorFiling ? loadHoldings(cik10, priorFiling) : Promise.resolve(null),
+      secJSON(`${SEC_BASE}/submissions/CIK${cik10}.json`), // already cached by quarterlyReports
+    ]);
+    if (!current) {
+      return NextResponse.json(
+        { ok: false, error: "Information table not found in this filing." },
+        { status: 404 }
+      );
+    }
+
+    let positions = diffHoldings(current.positions, prior ? prior.positions : null);
+    const summary: Record<ChangeStatus, number> = { new: 0, added: 0, reduced: 0, exited: 0, unchanged: 0 };
+    positions.forEach((p) => summary[p.status]++);
+    if (!includeExited) positions = positions.filter((p) => p.status !== "exited");
+
+    const side = (h: typeof current) => ({
+      accessionNumber: h.accessionNumber,
+      filed: h.filed,
+      period: h.period,
+      infoTableUrl: h.infoTableUrl,
+      positions: h.positions.length,
+      totalValue: h.positions.reduce((s, p) => s + p.value, 0),
+    });
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      manager: sub.ok ? sub.data?.name : undefined,
+      current: side(current),
+      prior: prior ? side(prior) : null,
+      summary,
+      data: positions,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+// app/api/13f/holders/route.ts
+import { NextResponse } from "next/server";
+import { whoOwns } from "@/lib/institutional";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 13F filers holding a ticker in the latest loaded quarter, with changes
+ * vs. the prior quarter and total institutional shares per quarter.
+ *
+ *   ?symbol=AAPL (or a CIK)   &page=1&perPage=50
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const symbol = (searchParams.get("symbol") || "").trim();
+    if (!symbol) {
+      return NextResponse.json({ ok: false, error: "Missing symbol." }, { status: 400 });
+    }
+    const perPage = Math.max(1, Math.min(200, parseInt(searchParams.get("perPage") || "50", 10) || 50));
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+
+    const own = await whoOwns(symbol);
+    if (!own) {
+      return NextResponse.json({ ok: false, error: `Unknown ticker or CIK: ${symbol}` }, { status: 404 });
+    }
+    if (!own.cusips.length) {
+      return NextResponse.json(
+        { ok: false, error: `No CUSIP mapped to ${own.ticker || own.cik} yet; 13F filings still need to be ingested.` },
+        { status: 404 }
+      );
+    }
+
+    const current = own.holders.filter((h) => h.status !== "exited");
+    return NextResponse.json({
+      ok: true,
+      cik: own.cik,
+      ticker: own.ticker,
+      name: own.name,
+      cusips: own.cusips,
+      period: own.period,
+      priorPeriod: own.priorPeriod,
+      totals: {
+        holders: current.length,
+        shares: current.reduce((s, h) => s + h.shares, 0),
+        value: current.reduce((s, h) => s + h.value, 0),
+        exited: own.holders.length - current.length,
+        pending: own.pending,
+      },
+      history: own.history,
+      total: own.holders.length,
+      page,
+      perPage,
+      data: own.holders.slice((page - 1) * perPage, page * perPage),
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
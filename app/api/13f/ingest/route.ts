@@ -0,0 +1,30 @@
+// app/api/13f/ingest/route.ts
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/cron";
+import { ingest13F } from "@/lib/institutional";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Load the information tables of 13F-HR filings already in the EDGAR index
+ * (run /api/filings/ingest?quarter=... first). Meant for a scheduler; requires
+ * CRON_SECRET and `Authorization: Bearer <secret>`.
+ *
+ *   ?limit=20   filings per run (each is 2-3 SEC requests)
+ */
+export async function GET(req: Request) {
+  try {
+    const denied = requireCron(req);
+    if (denied) return denied;
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(200, parseInt(searchParams.get("limit") || "20", 10) || 20));
+    const result = await ingest13F(limit);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
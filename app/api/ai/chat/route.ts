@@ -1,5 +1,6 @@
 // app/api/ai/chat/route.ts
 import { NextResponse } from "next/server";
+import { lookupIssuer, type LookupResult } from "@/lib/lookup";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -46,6 +47,19 @@ async function fetchJSON(url: string, init?: RequestInit) {
   return body;
 }
 
+/** Several issuers fit and none clearly wins: ask, as /api/chat does, instead of guessing */
+function whichIssuer(ident: string, L: LookupResult | null) {
+  if (!L || L.exact || L.candidates.length < 2) return null;
+  const list = L.candidates
+    .slice(0, 5)
+    .map((c) => `- **${c.ticker || "—"}** — ${c.name || "Unnamed"} (CIK ${c.cik})`)
+    .join("\n");
+  return ok({
+    text: `I found several matches for “${ident}”. Which one do you mean?\n\n${list}\n\nReply with a **ticker** or **CIK**.`,
+    candidates: L.candidates,
+  });
+}
+
 function toMonthLabel(s?: string) {
   if (!s) return "";
   const [y, m] = s.split("-");
@@ -85,6 +99,28 @@ function extractSECQuery(text: string) {
   };
 }
 
+/** 10-K section questions ("risk factors for NVDA") -> section key for /sections */
+const SECTION_WORDS: [RegExp, string][] = [
+  [/risk factors?/i, "1A"],
+  [/md&a|management'?s discussion/i, "7"],
+  [/market risk/i, "7A"],
+  [/legal proceedings?|litigation/i, "3"],
+  [/business (overview|description|section)/i, "1"],
+];
+const SECTION_CONTEXT_CHARS = 24_000;
+
+function extractSectionQuery(text: string) {
+  const hit = SECTION_WORDS.find(([re]) => re.test(text));
+  if (!hit) return null;
+  const forMatch = text.match(/\b(?:for|of|in)\s+([A-Za-z0-9\.\-&]{1,20})\s*[?.!]*$/i);
+  let ident = forMatch?.[1]?.trim();
+  if (!ident) {
+    const tokens = text.replace(/[^A-Za-z0-9\.\- ]/g, " ").split(/\s+/).filter(Boolean);
+    ident = [...tokens].reverse().find((t) => t === t.toUpperCase() && looksLikeTicker(t));
+  }
+  return ident ? { item: hit[1], ident } : null;
+}
+
 function wantCPI(t: string)        { t = t.toLowerCase(); return /\bcpi\b|inflation rate|consumer price/.test(t); }
 function wantCoreCPI(t: string)    { t = t.toLowerCase(); return /core cpi|cpi ex(-|\s)?food|cpi ex.*energy/i.test(t); }
 function wantPPI(t: string)        { t = t.toLowerCase(); return /\bppi\b|producer price/i.test(t); }
@@ -105,6 +141,23 @@ Rules:
 - Be concise and skimmable. Use bold for key numbers/labels.
 `;
 
+async function deepseek(apiKey: string, messages: Msg[]) {
+  const upstream = await fetch("https://api.deepseek.com/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "deepseek-chat",
+      temperature: 0.2,
+      stream: false,
+      messages,
+    }),
+  });
+  return upstream;
+}
+
 // ---------- handler ----------
 export async function POST(req: Request) {
   try {
@@ -115,6 +168,41 @@ export async function POST(req: Request) {
     const DEEPSEEK_API_KEY = process.env.DEEPSEEK_API_KEY;
     if (!DEEPSEEK_API_KEY) return bad("Missing DEEPSEEK_API_KEY env var", 500);
 
+    // ===== 1a) 10-K section intent (risk factors, MD&A, ...) =====
+    const sectionAsk = extractSectionQuery(userText);
+    if (sectionAsk) {
+      const L = await lookupIssuer(sectionAsk.ident).catch(() => null);
+      const ask = whichIssuer(sectionAsk.ident, L);
+      if (ask) return ask;
+      const best = L?.exact || L?.candidates[0];
+      const cik = best?.cik;
+      if (cik) {
+        const f = await fetchJSON(`${base}/api/filings/${encodeURIComponent(cik)}?forms=10-K&perPage=1&page=1`);
+        const row = f?.data?.[0];
+        if (!row) return bad(`No 10-K found for "${sectionAsk.ident}".`, 404);
+        const sj = await fetchJSON(
+          `${base}/api/filings/${encodeURIComponent(cik)}/${encodeURIComponent(row.accessionNumber)}/sections?items=${sectionAsk.item}`
+        );
+        const sec = sj?.sections?.[0];
+        if (!sec?.text) return bad(`Couldn't extract that section from the ${row.filed} 10-K.`, 404);
+
+        const context =
+          `${row.company || best?.name || cik} — 10-K filed ${row.filed}, ${sec.item}. ${sec.title}\n\n` +
+          sec.text.slice(0, SECTION_CONTEXT_CHARS);
+        const upstream = await deepseek(DEEPSEEK_API_KEY, [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "system", content: `Answer from this filing excerpt only:\n\n${context}` },
+          ...messages,
+        ]);
+        if (upstream.ok) {
+          const data = await upstream.json();
+          const text = data?.choices?.[0]?.message?.content ?? "";
+          if (text) return ok({ text: `${text}\n\nSource (SEC EDGAR): ${sj.url}` });
+        }
+        return bad(`Upstream error (${upstream.status})`, upstream.status);
+      }
+    }
+
     // ===== 1) EDGAR filings intent =====
     const secAsk = extractSECQuery(userText);
     if (secAsk?.form && secAsk.ident) {
@@ -125,7 +213,12 @@ export async function POST(req: Request) {
         perPage: "1",
         page: "1"
       });
-      const url = `${base}/api/filings/${encodeURIComponent(secAsk.ident)}?${params}`;
+      // /api/filings wants a CIK; tickers and names resolve through the shared index
+      const L = await lookupIssuer(secAsk.ident).catch(() => null);
+      const ask = whichIssuer(secAsk.ident, L);
+      if (ask) return ask;
+      const cik = (L?.exact || L?.candidates[0])?.cik || secAsk.ident;
+      const url = `${base}/api/filings/${encodeURIComponent(cik)}?${params}`;
       const j = await fetchJSON(url);
       const row = j?.data?.[0];
       if (!row) return bad(`No ${secAsk.form} found for "${secAsk.ident}".`, 404);
@@ -306,22 +399,10 @@ Source: FRED (GDPC1). https://fred.stlouisfed.org/series/GDPC1`;
     }
 
     // ===== 3) General Q&A via DeepSeek =====
-    const upstream = await fetch("https://api.deepseek.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${DEEPSEEK_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        temperature: 0.2,
-        stream: false,
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          ...messages,
-        ],
-      }),
-    });
+    const upstream = await deepseek(DEEPSEEK_API_KEY, [
+      { role: "system", content: SYSTEM_PROMPT },
+      ...messages,
+    ]);
 
     if (!upstream.ok) {
       let detail = "";
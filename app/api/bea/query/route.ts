@@ -1,5 +1,6 @@
 // app/api/bea/query/route.ts
 import { NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn, type ExportFormat } from "@/lib/export";
 
 export const dynamic = "force-dynamic";
 
@@ -42,7 +43,9 @@ function coerceNumber(x: any): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
-function rowToPoint(r: any): { date: string; value: number } | null {
+type Point = { date: string; value: number };
+
+function rowToPoint(r: any): Point | null {
   const tp = r.TimePeriod || r.Time || r.Year || r.TimePeriodName;
   if (!tp) return null;
 
@@ -70,62 +73,96 @@ function rowToPoint(r: any): { date: string; value: number } | null {
   return { date: iso, value: v };
 }
 
+const EXPORT_COLUMNS: ExportColumn<Point & { title: string; units: string }>[] = [
+  { key: "date", label: "Date" },
+  { key: "value", label: "Value" },
+  { key: "title", label: "Series" },
+  { key: "units", label: "Units" },
+];
+
+/** UI params -> BEA GetData -> { title, units, data } (or a JSON error response) */
+async function runQuery(dataset: DatasetKey, params: Record<string, string>, format: ExportFormat | null) {
+  if (!dataset) {
+    return NextResponse.json({ error: "dataset is required" }, { status: 400 });
+  }
+
+  const UserID = requireKey();
+
+  // Translate UI params → BEA params
+  const beaParams: Record<string, string> = {};
+  for (const [k, v] of Object.entries(params)) {
+    if (!v) continue;
+    beaParams[beaParam(dataset, k)] = v;
+  }
+
+  const query: Record<string, string> = {
+    UserID,
+    mode: "json",
+    method: "GetData",
+    datasetname: dataset,
+    ...beaParams,
+  };
+
+  const r = await fetch(`${BEA_BASE}/?${qs(query)}`, { cache: "no-store" });
+  if (!r.ok) {
+    return NextResponse.json(
+      { error: `BEA data fetch failed (${r.status})` },
+      { status: 502 }
+    );
+  }
+  const j = await r.json();
+
+  const results = j?.BEAAPI?.Results;
+  let rows: any[] = [];
+  if (Array.isArray(results?.Data)) rows = results.Data;
+  else {
+    const firstArr = results && Object.values(results).find((v: any) => Array.isArray(v));
+    if (Array.isArray(firstArr)) rows = firstArr;
+  }
+
+  const points = rows.map(rowToPoint).filter(Boolean) as Point[];
+
+  const meta = rows[0] || {};
+  const title =
+    meta.SeriesName ||
+    meta.LineDescription ||
+    meta.TableName ||
+    `${dataset} Series`;
+  const units =
+    meta.UnitOfMeasure || meta.Unit || meta.UnitName || "";
+
+  if (format) {
+    const sorted = [...points].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+    const name = ["bea", dataset, ...Object.values(params).filter(Boolean)].join("-");
+    return exportResponse(format, name, EXPORT_COLUMNS, sorted.map((p) => ({ ...p, title, units })));
+  }
+  return NextResponse.json({ title, units, data: points });
+}
+
 export async function POST(req: Request) {
   try {
     const body = await req.json();
     const dataset = String(body?.dataset || "") as DatasetKey;
     const params = (body?.params || {}) as Record<string, string>;
+    return await runQuery(dataset, params, exportFormat(new URL(req.url).searchParams));
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Unexpected error" }, { status: 500 });
+  }
+}
 
-    if (!dataset) {
-      return NextResponse.json({ error: "dataset is required" }, { status: 400 });
-    }
-
-    const UserID = requireKey();
-
-    // Translate UI params → BEA params
-    const beaParams: Record<string, string> = {};
-    for (const [k, v] of Object.entries(params)) {
-      if (!v) continue;
-      beaParams[beaParam(dataset, k)] = v;
-    }
-
-    const query: Record<string, string> = {
-      UserID,
-      mode: "json",
-      method: "GetData",
-      datasetname: dataset,
-      ...beaParams,
-    };
-
-    const r = await fetch(`${BEA_BASE}/?${qs(query)}`, { cache: "no-store" });
-    if (!r.ok) {
-      return NextResponse.json(
-        { error: `BEA data fetch failed (${r.status})` },
-        { status: 502 }
-      );
-    }
-    const j = await r.json();
-
-    const results = j?.BEAAPI?.Results;
-    let rows: any[] = [];
-    if (Array.isArray(results?.Data)) rows = results.Data;
-    else {
-      const firstArr = results && Object.values(results).find((v: any) => Array.isArray(v));
-      if (Array.isArray(firstArr)) rows = firstArr;
-    }
-
-    const points = rows.map(rowToPoint).filter(Boolean) as { date: string; value: number }[];
-
-    const meta = rows[0] || {};
-    const title =
-      meta.SeriesName ||
-      meta.LineDescription ||
-      meta.TableName ||
-      `${dataset} Series`;
-    const units =
-      meta.UnitOfMeasure || meta.Unit || meta.UnitName || "";
-
-    return NextResponse.json({ title, units, data: points });
+/**
+ * Same query as a link, for downloads:
+ *   ?dataset=NIPA&TableName=T10101&Frequency=Q&Year=ALL&format=csv|xlsx|ndjson
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const dataset = (searchParams.get("dataset") || "") as DatasetKey;
+    const params: Record<string, string> = {};
+    searchParams.forEach((v, k) => {
+      if (k !== "dataset" && k !== "format") params[k] = v;
+    });
+    return await runQuery(dataset, params, exportFormat(searchParams));
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "Unexpected error" }, { status: 500 });
   }
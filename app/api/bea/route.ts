@@ -1,5 +1,6 @@
 // app/api/bea/route.ts
 import { NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
 const BEA_BASE = "https://apps.bea.gov/api/data";
 
 const DATASET_ALIASES: Record<string, string> = {
@@ -16,6 +17,17 @@ const DATASET_ALIASES: Record<string, string> = {
   iip: "IIP",
   mne: "MNE",
 };
+
+type Row = { time: string; value: number | null; line: string; lineDesc: string; unit: string | null };
+
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: "time", label: "Period" },
+  { key: "line", label: "Line" },
+  { key: "lineDesc", label: "Description" },
+  { key: "value", label: "Value" },
+  { key: "unit", label: "Unit" },
+];
+
 function normDataset(s: string) {
   const k = (s || "").replace(/[^a-z]/gi, "").toLowerCase();
   return DATASET_ALIASES[k] || s || "NIPA";
@@ -70,7 +82,7 @@ export async function GET(req: Request) {
     }
 
     const data = j?.BEAAPI?.Results?.Data || [];
-    const rows = data.map((d: any) => ({
+    const rows: Row[] = data.map((d: any) => ({
       time: d?.TimePeriod || d?.Time || "",
       value: toNumber(d?.DataValue ?? d?.DataValue_Footnote ?? d?.DataValueNote),
       line: String(d?.LineNumber ?? d?.SeriesCode ?? d?.Line ?? ""),
@@ -78,6 +90,9 @@ export async function GET(req: Request) {
       unit: d?.CL_UNIT || d?.Unit || null,
     }));
 
+    const format = exportFormat(url.searchParams);
+    if (format) return exportResponse(format, `bea-${dataset}-${value}`, EXPORT_COLUMNS, rows);
+
     return NextResponse.json({ meta: { dataset, param, value, freq, year }, rows });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "Unexpected error" }, { status: 500 });
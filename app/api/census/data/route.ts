@@ -1,9 +1,11 @@
 // app/api/census/data/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { asNumber, exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
 
 /**
  * GET /api/census/data?name=GDP&start=YYYY-MM-DD&end=YYYY-MM-DD&limit=1000
  * Calls FMP directly and returns normalized rows: { date, value, name, unit }
+ * With &format=csv|xlsx|ndjson, every observation in the range as a download.
  * Robust to FMP returning plain-text errors (e.g., "Invalid name") with 200 status.
  */
 
@@ -29,6 +31,15 @@ function canonicalizeName(input: string) {
   return NAME_SYNONYMS[key] ?? input.trim();
 }
 
+type Row = { date: string | null; value: number | string | null; name: string; unit: string | null };
+
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: "date", label: "Date" },
+  { key: "name", label: "Indicator" },
+  { key: "value", label: "Value", value: (r) => asNumber(r.value) ?? r.value },
+  { key: "unit", label: "Unit" },
+];
+
 // inclusive date-range check
 function inRange(d: string | null, start?: string | null, end?: string | null) {
   if (!d) return false;
@@ -54,6 +65,7 @@ export async function GET(req: NextRequest) {
     const start = searchParams.get("start"); // YYYY-MM-DD
     const end = searchParams.get("end");     // YYYY-MM-DD
     const limit = Math.max(1, Math.min(5000, Number(searchParams.get("limit") || 1000)));
+    const format = exportFormat(searchParams);
 
     if (!name) {
       return NextResponse.json({ data: [], error: "Missing indicator name" }, { status: 400 });
@@ -112,7 +124,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Normalize
-    let data = rows.map((r) => ({
+    let data: Row[] = rows.map((r) => ({
       date: r.date ?? null,
       value: r.value ?? null,
       name: r.name ?? name,
@@ -134,6 +146,7 @@ export async function GET(req: NextRequest) {
       return tb - ta;
     });
 
+    if (format) return exportResponse(format, `census-${name}`, EXPORT_COLUMNS, data);
     if (limit) data = data.slice(0, limit);
 
     return NextResponse.json({ data });
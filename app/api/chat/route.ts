@@ -1,7 +1,7 @@
 // app/api/chat/route.ts
 import { NextRequest, NextResponse } from "next/server";
-
-const SEC_USER_AGENT = process.env.SEC_USER_AGENT || "herevna.io (contact@herevna.io)";
+import { lookupIssuer } from "@/lib/lookup";
+import { getUA } from "@/lib/sec";
 
 function baseUrl(req: NextRequest) {
   const host = req.headers.get("x-forwarded-host") || req.headers.get("host") || "";
@@ -64,13 +64,9 @@ export async function POST(req: NextRequest) {
       const origin = baseUrl(req);
 
       // 1) Resolve ticker/company -> CIK (with fuzzy + candidates)
-      const lookupRes = await fetch(`${origin}/api/lookup/${encodeURIComponent(query)}`, {
-        headers: { "User-Agent": SEC_USER_AGENT },
-        cache: "no-store",
-      });
-      const L = await lookupRes.json();
+      const L = await lookupIssuer(query);
 
-      if (!lookupRes.ok || !L?.ok) {
+      if (!L.candidates.length) {
         return NextResponse.json({
           ...thinking,
           final: `I couldn’t find a company for “${query}”. Try a ticker (NVDA), a full name (NVIDIA), or paste a CIK.`,
@@ -78,10 +74,10 @@ export async function POST(req: NextRequest) {
       }
 
       // If multiple candidates, ask user to choose
-      if (!L.exact && Array.isArray(L.candidates) && L.candidates.length) {
+      if (!L.exact && L.candidates.length > 1) {
         const list = L.candidates
           .slice(0, 5)
-          .map((c: any) => `- **${c.ticker || "—"}** — ${c.name || "Unnamed"} (CIK ${c.cik})`)
+          .map((c) => `- **${c.ticker || "—"}** — ${c.name || "Unnamed"} (CIK ${c.cik})`)
           .join("\n");
         return NextResponse.json({
           ...thinking,
@@ -91,7 +87,7 @@ export async function POST(req: NextRequest) {
         });
       }
 
-      const exact = L.exact || (Array.isArray(L.candidates) ? L.candidates[0] : null);
+      const exact = L.exact || L.candidates[0];
       if (!exact?.cik) {
         return NextResponse.json({
           ...thinking,
@@ -100,8 +96,8 @@ export async function POST(req: NextRequest) {
       }
 
       // 2) Get recent filings
-      const filingsRes = await fetch(`${origin}/api/filings/${encodeURIComponent(exact.cik)}?limit=12`, {
-        headers: { "User-Agent": SEC_USER_AGENT },
+      const filingsRes = await fetch(`${origin}/api/filings/${encodeURIComponent(exact.cik)}?perPage=12`, {
+        headers: { "User-Agent": getUA() },
         cache: "no-store",
       });
       if (!filingsRes.ok) {
@@ -121,9 +117,14 @@ export async function POST(req: NextRequest) {
       }
 
       // 3) Pick most recent by date
-      arr.sort((a: any, b: any) => String(b.filed_at).localeCompare(String(a.filed_at)));
+      arr.sort((a: any, b: any) => String(b.filed).localeCompare(String(a.filed)));
       const latest = arr[0];
-      const final = renderAnswer(exact.name || exact.ticker, latest);
+      const final = renderAnswer(exact.name || exact.ticker, {
+        form: latest.form,
+        filed_at: latest.filed,
+        primary_doc_url: latest.open,
+        badges: latest.badges,
+      });
       return NextResponse.json({ ...thinking, final });
     }
 
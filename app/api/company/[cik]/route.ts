@@ -0,0 +1,34 @@
+// app/api/company/[cik]/route.ts
+import { NextResponse } from "next/server";
+import { loadCompanyProfile } from "@/lib/company";
+import { normalizeCIK } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+/**
+ * Company profile from the submissions JSON: SIC, state of incorporation,
+ * fiscal year end, business / mailing addresses, tickers with exchanges,
+ * filer category and former names with their date ranges.
+ */
+export async function GET(_req: Request, { params }: { params: { cik: string } }) {
+  try {
+    const cik10 = normalizeCIK(params.cik || "");
+    if (!cik10) {
+      return NextResponse.json(
+        { ok: false, error: "Missing identifier. Provide CIK (digits or 'CIK...')." },
+        { status: 400 }
+      );
+    }
+
+    const r = await loadCompanyProfile(cik10);
+    if (r.ok === false) {
+      return NextResponse.json(
+        { ok: false, error: `SEC submissions fetch failed (${r.status})`, details: r.error },
+        { status: r.status }
+      );
+    }
+    return NextResponse.json({ ok: true, data: r.profile });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Unexpected server error" }, { status: 500 });
+  }
+}
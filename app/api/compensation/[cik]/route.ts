@@ -0,0 +1,68 @@
+// app/api/compensation/[cik]/route.ts
+import { NextResponse } from "next/server";
+import { byExecutive, loadProxyCompensation, mergeCompensation, proxyFilings } from "@/lib/compensation";
+import { SEC_BASE, mapLimit, normalizeAccession, normalizeCIK, secJSON } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+const MAX_PROXIES = 5;
+
+/**
+ * Executive pay from DEF 14A proxy statements: Summary Compensation Table
+ * rows and the pay-versus-performance table, merged across proxies.
+ *
+ *   ?proxies=3       how many of the latest proxies to read (max 5; each covers up to 3 years)
+ *   ?accession=...   one specific DEF 14A instead
+ */
+export async function GET(req: Request, { params }: { params: { cik: string } }) {
+  try {
+    const cik10 = normalizeCIK(params.cik || "");
+    if (!cik10) {
+      return NextResponse.json({ ok: false, error: "Invalid CIK." }, { status: 400 });
+    }
+    const { searchParams } = new URL(req.url);
+    const accRaw = (searchParams.get("accession") || "").trim();
+    const acc = accRaw ? normalizeAccession(accRaw) : null;
+    if (accRaw && !acc) {
+      return NextResponse.json({ ok: false, error: "Invalid accession number." }, { status: 400 });
+    }
+    const count = Math.max(1, Math.min(MAX_PROXIES, parseInt(searchParams.get("proxies") || "3", 10) || 3));
+
+    const all = await proxyFilings(cik10);
+    const filings = acc ? all.filter((f) => f.accessionNumber === acc) : all.slice(0, count);
+    if (!filings.length) {
+      return NextResponse.json(
+        { ok: false, error: acc ? "Accession is not a DEF 14A of this company." : "No DEF 14A filings found for this CIK." },
+        { status: 404 }
+      );
+    }
+
+    const [loaded, sub] = await Promise.all([
+      mapLimit(filings, 2, (f) => loadProxyCompensation(cik10, f).catch(() => null)),
+      secJSON(`${SEC_BASE}/submissions/CIK${cik10}.json`), // already cached by proxyFilings
+    ]);
+    const proxies = loaded.filter((p): p is NonNullable<typeof p> => !!p);
+    const merged = mergeCompensation(proxies);
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      company: sub.ok ? sub.data?.name : undefined,
+      proxies: proxies.map((p) => ({
+        accessionNumber: p.accessionNumber,
+        filed: p.filed,
+        url: p.url,
+        summaryRows: p.summary.length,
+        payVsPerformanceRows: p.payVsPerformance.length,
+      })),
+      executives: byExecutive(merged.summary),
+      payVsPerformance: merged.payVsPerformance,
+      data: merged.summary,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
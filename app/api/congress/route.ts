@@ -1,5 +1,6 @@
 // app/api/congress/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { asNumber, exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
 
 type Chamber = "senate" | "house" | "all";
 type Mode = "symbol" | "name";
@@ -71,6 +72,23 @@ function normalizeRow(r: any) {
   };
 }
 
+type Row = ReturnType<typeof normalizeRow>;
+
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: "transactionDate", label: "Date" },
+  { key: "memberName", label: "Member" },
+  { key: "party", label: "Party" },
+  { key: "state", label: "State" },
+  { key: "ticker", label: "Ticker" },
+  { key: "assetName", label: "Asset" },
+  { key: "assetType", label: "Asset type" },
+  { key: "transactionType", label: "Type" },
+  { key: "owner", label: "Owner" },
+  { key: "amount", label: "Amount" },
+  { key: "price", label: "Price", value: (r) => asNumber(r.price) ?? r.price },
+  { key: "sourceUrl", label: "Source" },
+];
+
 function inDateRange(d: string | null, start?: string | null, end?: string | null) {
   if (!d) return false;
   const t = Date.parse(d);
@@ -109,6 +127,7 @@ export async function GET(req: NextRequest) {
     const end = searchParams.get("end");
     const tx = (searchParams.get("tx") || "all").toLowerCase() as TxFilter;
     const limit = Math.max(1, Math.min(1000, Number(searchParams.get("limit") || 200)));
+    const format = exportFormat(searchParams); // downloads skip the limit
 
     let rows: any[] = [];
 
@@ -181,6 +200,9 @@ export async function GET(req: NextRequest) {
       return tb - ta;
     });
 
+    if (format) {
+      return exportResponse(format, `congress-${isLatest ? "latest" : qRaw}`, EXPORT_COLUMNS, data);
+    }
     if (limit) data = data.slice(0, limit);
 
     return NextResponse.json({ data });
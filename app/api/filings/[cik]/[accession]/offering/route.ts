@@ -0,0 +1,79 @@
+// app/api/filings/[cik]/[accession]/offering/route.ts
+import { NextResponse } from "next/server";
+import { htmlToText } from "@/lib/html";
+import { isOfferingForm, parseOffering, type Offering } from "@/lib/offering";
+import { buildOpenUrl, findFiling, isDocumentName, normalizeAccession, normalizeCIK, secFetch } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+// Filings never change once accepted, so parsed results can be kept per instance
+// (keyed on accession + form + document, since ?form= / ?doc= change the parse).
+const CACHE = new Map<string, { form: string; url: string; offering: Offering }>();
+const MAX_CACHE = 500;
+const MAX_HTML = 1_500_000; // the cover page + fee table sit at the top of the doc
+
+export async function GET(
+  req: Request,
+  { params }: { params: { cik: string; accession: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const cik10 = normalizeCIK(params.cik || "");
+    const acc = normalizeAccession(params.accession || "");
+    if (!cik10 || !acc) {
+      return NextResponse.json(
+        { ok: false, error: "Provide a CIK and an accession number (0000000000-00-000000)." },
+        { status: 400 }
+      );
+    }
+
+    let form = (searchParams.get("form") || "").trim().toUpperCase();
+    let doc = (searchParams.get("doc") || "").trim();
+    if (!doc || !form) {
+      const hit = await findFiling(cik10, acc);
+      if (!hit?.primaryDocument) {
+        return NextResponse.json(
+          { ok: false, error: "Primary document not found; pass ?doc= and ?form= explicitly." },
+          { status: 404 }
+        );
+      }
+      doc = doc || hit.primaryDocument;
+      form = form || hit.form.toUpperCase();
+    }
+    if (!isDocumentName(doc)) {
+      return NextResponse.json({ ok: false, error: "Invalid document name" }, { status: 400 });
+    }
+
+    if (!isOfferingForm(form)) {
+      return NextResponse.json(
+        { ok: false, error: `Form ${form || "(unknown)"} is not an S-1, S-3 or 424B prospectus.` },
+        { status: 400 }
+      );
+    }
+
+    const key = `${acc}|${form}|${doc}`;
+    const cached = CACHE.get(key);
+    if (cached) return NextResponse.json({ ok: true, accessionNumber: acc, ...cached, cached: true });
+
+    const url = buildOpenUrl(cik10, acc, doc);
+    const r = await secFetch(url, { headers: { Accept: "text/html,text/plain,*/*" } });
+    if (!r.ok) {
+      return NextResponse.json(
+        { ok: false, error: `SEC document fetch failed (${r.status})` },
+        { status: r.status }
+      );
+    }
+    const html = (await r.text()).slice(0, MAX_HTML);
+    const offering = parseOffering(htmlToText(html), form);
+
+    if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+    CACHE.set(key, { form, url, offering });
+
+    return NextResponse.json({ ok: true, accessionNumber: acc, form, url, offering });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+// app/api/filings/[cik]/[accession]/route.ts
+import { NextResponse } from "next/server";
+import { loadFilingDocuments } from "@/lib/filingDocs";
+import { filingFolder, isDocumentName, normalizeAccession, normalizeCIK, secFetch } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+function contentType(name: string) {
+  const n = name.toLowerCase();
+  if (/\.html?$/.test(n)) return "text/html; charset=utf-8";
+  if (/\.xml$|\.xsd$/.test(n)) return "application/xml";
+  if (/\.txt$/.test(n)) return "text/plain; charset=utf-8";
+  if (/\.pdf$/.test(n)) return "application/pdf";
+  if (/\.jpe?g$/.test(n)) return "image/jpeg";
+  if (/\.gif$/.test(n)) return "image/gif";
+  if (/\.png$/.test(n)) return "image/png";
+  if (/\.json$/.test(n)) return "application/json";
+  return "application/octet-stream";
+}
+
+// Filer-supplied documents are served from our origin, so they get no scripts,
+// no same-origin access and no MIME sniffing; links may still open in a new tab
+function docHeaders(type: string) {
+  return {
+    "Content-Type": type,
+    "Content-Security-Policy": "sandbox allow-popups allow-popups-to-escape-sandbox",
+    "X-Content-Type-Options": "nosniff",
+  };
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: { cik: string; accession: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const cik10 = normalizeCIK(params.cik || "");
+    const acc = normalizeAccession(params.accession || "");
+    if (!cik10 || !acc) {
+      return NextResponse.json(
+        { ok: false, error: "Provide a CIK and an accession number (0000000000-00-000000)." },
+        { status: 400 }
+      );
+    }
+    const folder = filingFolder(cik10, acc);
+
+    // ?doc=name -> proxy one document so exhibits can be viewed in-app
+    const doc = (searchParams.get("doc") || "").trim();
+    if (doc) {
+      if (!isDocumentName(doc)) {
+        return NextResponse.json({ ok: false, error: "Invalid document name" }, { status: 400 });
+      }
+      const r = await secFetch(`${folder}/${doc}`, { headers: { Accept: "*/*" } });
+      if (!r.ok) {
+        return NextResponse.json({ ok: false, error: `SEC document fetch failed (${r.status})` }, { status: r.status });
+      }
+      const type = contentType(doc);
+      if (type.startsWith("text/html")) {
+        // relative images/links inside exhibits must resolve against sec.gov
+        const html = (await r.text()).replace(/<head([^>]*)>/i, `<head$1><base href="${folder}/" target="_blank">`);
+        return new NextResponse(html, { headers: docHeaders(type) });
+      }
+      return new NextResponse(r.body, { headers: docHeaders(type) });
+    }
+
+    const r = await loadFilingDocuments(cik10, acc);
+    if (r.ok === false) {
+      return NextResponse.json(
+        { ok: false, error: `SEC filing index fetch failed (${r.status})`, details: r.error },
+        { status: r.status }
+      );
+    }
+    const { meta, docs } = r;
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      accessionNumber: acc,
+      ...meta,
+      indexUrl: `${folder}/${acc}-index.html`,
+      count: docs.length,
+      data: docs,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
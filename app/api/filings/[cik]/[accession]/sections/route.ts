@@ -0,0 +1,55 @@
+// app/api/filings/[cik]/[accession]/sections/route.ts
+import { NextResponse } from "next/server";
+import { SECTION_TITLES, loadSections, type SectionKey } from "@/lib/sections";
+import { normalizeAccession, normalizeCIK } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  req: Request,
+  { params }: { params: { cik: string; accession: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const cik10 = normalizeCIK(params.cik || "");
+    const acc = normalizeAccession(params.accession || "");
+    if (!cik10 || !acc) {
+      return NextResponse.json(
+        { ok: false, error: "Provide a CIK and an accession number (0000000000-00-000000)." },
+        { status: 400 }
+      );
+    }
+
+    // ?items=1A,7 limits the response; default is every supported section
+    const wanted = (searchParams.get("items") || "")
+      .split(",")
+      .map((s) => s.trim().toUpperCase().replace(/^ITEM\s*/, ""))
+      .filter((s): s is SectionKey => s in SECTION_TITLES);
+
+    const res = await loadSections(cik10, acc, {
+      form: (searchParams.get("form") || "").trim(),
+      doc: (searchParams.get("doc") || "").trim(),
+    });
+    if ("error" in res) {
+      return NextResponse.json({ ok: false, error: res.error }, { status: res.status });
+    }
+
+    const sections = wanted.length ? res.sections.filter((s) => wanted.includes(s.key)) : res.sections;
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      accessionNumber: acc,
+      form: res.form,
+      filed: res.filed,
+      url: res.url,
+      count: sections.length,
+      sections,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+// app/api/filings/[cik]/compare/route.ts
+import { NextResponse } from "next/server";
+import { looksLikeRiskHeading, redline } from "@/lib/redline";
+import { SECTION_TITLES, loadSections, type SectionKey } from "@/lib/sections";
+import { normalizeAccession, normalizeCIK, recentFilings, type RecentFiling } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+/** Pick a 10-K by accession, by report year, or by position relative to another */
+function pick(list: RecentFiling[], acc: string | null, year: string, before?: RecentFiling) {
+  if (acc) return list.find((f) => f.accessionNumber === acc);
+  if (year) return list.find((f) => (f.reportDate || f.filingDate).startsWith(year));
+  if (before) return list[list.indexOf(before) + 1];
+  return list[0];
+}
+
+export async function GET(
+  req: Request,
+  { params }: { params: { cik: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const cik10 = normalizeCIK(params.cik || "");
+    if (!cik10) {
+      return NextResponse.json(
+        { ok: false, error: "Missing identifier. Provide CIK (digits or 'CIK...')." },
+        { status: 400 }
+      );
+    }
+    const sectionRaw = (searchParams.get("section") || "1A").trim().toUpperCase();
+    if (!(sectionRaw in SECTION_TITLES)) {
+      return NextResponse.json(
+        { ok: false, error: `Unsupported section. Use one of ${Object.keys(SECTION_TITLES).join(", ")}.` },
+        { status: 400 }
+      );
+    }
+    const section = sectionRaw as SectionKey;
+    const includeUnchanged = searchParams.get("unchanged") !== "0";
+
+    // `to` / `from` are accessions; `toYear` / `fromYear` match the period of report
+    const all = await recentFilings(cik10);
+    if (!all) {
+      return NextResponse.json({ ok: false, error: "SEC submissions fetch failed" }, { status: 502 });
+    }
+    const tenKs = all.filter((f) => f.form === "10-K" || f.form === "10-K405");
+    const to = pick(tenKs, normalizeAccession(searchParams.get("to") || ""), (searchParams.get("toYear") || "").trim());
+    const from = to
+      ? pick(tenKs, normalizeAccession(searchParams.get("from") || ""), (searchParams.get("fromYear") || "").trim(), to)
+      : undefined;
+    if (!to || !from) {
+      return NextResponse.json(
+        { ok: false, error: "Need two 10-K filings to compare (none found for the requested periods)." },
+        { status: 404 }
+      );
+    }
+
+    const [a, b] = await Promise.all([
+      loadSections(cik10, from.accessionNumber, { form: from.form, doc: from.primaryDocument, filed: from.filingDate }),
+      loadSections(cik10, to.accessionNumber, { form: to.form, doc: to.primaryDocument, filed: to.filingDate }),
+    ]);
+    if ("error" in a) return NextResponse.json({ ok: false, error: a.error }, { status: a.status });
+    if ("error" in b) return NextResponse.json({ ok: false, error: b.error }, { status: b.status });
+
+    const sa = a.sections.find((s) => s.key === section);
+    const sb = b.sections.find((s) => s.key === section);
+    if (!sa || !sb) {
+      return NextResponse.json(
+        { ok: false, error: `Couldn't locate ${SECTION_TITLES[section]} in ${!sa ? "the earlier" : "the later"} 10-K.` },
+        { status: 404 }
+      );
+    }
+
+    const { blocks, summary } = redline(sa.text, sb.text);
+    const side = (f: RecentFiling, url: string) => ({
+      accessionNumber: f.accessionNumber,
+      filed: f.filingDate,
+      reportDate: f.reportDate,
+      url,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      section: { key: section, title: SECTION_TITLES[section] },
+      from: side(from, a.url),
+      to: side(to, b.url),
+      summary,
+      newRiskFactorHeadings: blocks
+        .filter((x) => x.op === "added" && looksLikeRiskHeading(x.text))
+        .map((x) => (x as { text: string }).text),
+      blocks: includeUnchanged ? blocks : blocks.filter((x) => x.op !== "unchanged"),
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
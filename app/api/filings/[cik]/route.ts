@@ -1,60 +1,13 @@
 // app/api/filings/[cik]/route.ts
 import { NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
+import { itemBadge, parseItems } from "@/lib/form8k";
+import { SEC_BASE, buildOpenUrl, mapLimit, normalizeCIK, secJSON } from "@/lib/sec";
 
-const SEC_BASE = "https://data.sec.gov";             // <-- IMPORTANT: use data.sec.gov
-const SEC_ARCHIVES = "https://www.sec.gov/Archives"; // for document links
-
-function getUA() {
-  const ua = process.env.SEC_USER_AGENT || process.env.SEC_USERAGENT || "";
-  // SEC requires a descriptive UA w/ contact. Provide a safe fallback.
-  return ua || "herevna.io (contact@herevna.io)";
-}
-
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
-}
-
-async function secFetch(url: string, init?: RequestInit, retries = 2): Promise<Response> {
-  for (let i = 0; i <= retries; i++) {
-    const r = await fetch(url, {
-      ...init,
-      headers: {
-        "User-Agent": getUA(),
-        "Accept": "application/json,text/plain,*/*",
-        ...(init?.headers || {}),
-      },
-      // Vercel edge sometimes benefits from no caching for SEC JSON
-      cache: "no-store",
-    });
-    if (r.status === 429 || r.status === 403) {
-      // backoff a bit then retry
-      const wait = 600 * (i + 1);
-      await sleep(wait);
-      continue;
-    }
-    return r;
-  }
-  // final attempt
-  return fetch(url, {
-    ...init,
-    headers: {
-      "User-Agent": getUA(),
-      "Accept": "application/json,text/plain,*/*",
-      ...(init?.headers || {}),
-    },
-    cache: "no-store",
-  });
-}
-
-function normalizeCIK(input: string): string | null {
-  if (!input) return null;
-  let s = input.trim();
-  if (/^CIK/i.test(s)) s = s.replace(/^CIK/i, "");
-  s = s.replace(/\D/g, ""); // keep digits only
-  if (!s) return null;
-  if (s.length > 10) s = s.slice(-10);
-  return s.padStart(10, "0");
-}
+// historic submissions pages are fetched a few at a time (shared SEC rate limit)
+const HISTORIC_CONCURRENCY = 4;
+// older pages only change when SEC re-paginates, so revalidate them less often
+const HISTORIC_FRESH_MS = 6 * 60 * 60 * 1000;
 
 type Filing = {
   accessionNumber: string;
@@ -63,22 +16,65 @@ type Filing = {
   form: string;
   primaryDocument?: string;
   primaryDocDescription?: string;
+  items?: string; // 8-K item codes, e.g. "2.02,9.01"
 };
 
-function buildOpenUrl(cik10: string, acc: string, primary?: string) {
-  const cikNoZeros = String(parseInt(cik10, 10)); // drop leading zeros for Archives path
-  const accNoDashes = acc.replace(/-/g, "");
-  // Prefer primary doc when present; otherwise open the index
-  if (primary) {
-    return `${SEC_ARCHIVES}/edgar/data/${cikNoZeros}/${accNoDashes}/${primary}`;
-  }
-  return `${SEC_ARCHIVES}/edgar/data/${cikNoZeros}/${accNoDashes}/${acc}-index.html`;
-}
+type PageUse = {
+  name: string;
+  filingFrom?: string;
+  filingTo?: string;
+  filingCount?: number;
+  used: boolean;
+  cache?: "fresh" | "revalidated" | "miss" | "error";
+};
+
+type Row = {
+  cik: string;
+  company?: string;
+  form: string;
+  filed: string;
+  accessionNumber: string;
+  open: string;
+  primaryDocument?: string;
+  items: string[];
+  badges: string[];
+};
+
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: "filed", label: "Filed" },
+  { key: "form", label: "Form" },
+  { key: "company", label: "Company" },
+  { key: "cik", label: "CIK" },
+  { key: "accessionNumber", label: "Accession number" },
+  { key: "items", label: "8-K items" },
+  { key: "badges", label: "Item descriptions" },
+  { key: "primaryDocument", label: "Primary document" },
+  { key: "open", label: "URL" },
+];
 
 function inDateRange(d: string, start: string, end: string) {
   return (!start || d >= start) && (!end || d <= end);
 }
 
+/** A historic page is needed when its [filingFrom, filingTo] overlaps the requested range */
+function pageOverlaps(f: { filingFrom?: string; filingTo?: string }, start: string, end: string) {
+  return (!start || !f.filingTo || f.filingTo >= start) && (!end || !f.filingFrom || f.filingFrom <= end);
+}
+
+/** Submissions "recent" blocks and historic pages share the same columnar layout */
+function columnsToFilings(c: any): Filing[] {
+  if (!Array.isArray(c?.accessionNumber)) return [];
+  return c.accessionNumber.map((acc: string, i: number) => ({
+    accessionNumber: acc,
+    filingDate: c.filingDate?.[i],
+    reportDate: c.reportDate?.[i],
+    form: c.form?.[i],
+    primaryDocument: c.primaryDocument?.[i],
+    primaryDocDescription: c.primaryDocDescription?.[i],
+    items: c.items?.[i],
+  }));
+}
+
 export async function GET(
   req: Request,
   { params }: { params: { cik: string } }
@@ -91,6 +87,8 @@ export async function GET(
     const perPage = Math.max(1, Math.min(200, parseInt(searchParams.get("perPage") || "50", 10)));
     const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10));
     const freeText = (searchParams.get("q") || "").trim().toLowerCase();
+    const itemsRaw = (searchParams.get("items") || "").trim();      // "1.01,2.01" (8-K items)
+    const format = exportFormat(searchParams);                      // csv|xlsx|ndjson: every match, no paging
 
     const cikOrId = params.cik || "";
     const cik10 = normalizeCIK(cikOrId);
@@ -101,104 +99,97 @@ export async function GET(
       );
     }
 
-    // fetch submissions for the CIK from data.sec.gov
+    // fetch submissions for the CIK from data.sec.gov (cached + conditionally revalidated)
     const subUrl = `${SEC_BASE}/submissions/CIK${cik10}.json`;
-    const r = await secFetch(subUrl);
-    if (!r.ok) {
-      const text = await r.text().catch(() => "");
+    const r = await secJSON(subUrl);
+    if (r.ok === false) {
       return NextResponse.json(
-        { ok: false, error: `SEC submissions fetch failed (${r.status})`, details: text.slice(0, 300) },
+        { ok: false, error: `SEC submissions fetch failed (${r.status})`, details: r.error },
         { status: r.status }
       );
     }
-    const j = await r.json();
+    const j = r.data;
 
     const companyName: string | undefined = j?.name || j?.entityType || undefined;
-    const filings: Filing[] = Array.isArray(j?.filings?.recent?.accessionNumber)
-      ? j.filings.recent.accessionNumber.map((acc: string, i: number) => ({
-          accessionNumber: acc,
-          filingDate: j.filings.recent.filingDate[i],
-          reportDate: j.filings.recent.reportDate?.[i],
-          form: j.filings.recent.form[i],
-          primaryDocument: j.filings.recent.primaryDocument?.[i],
-          primaryDocDescription: j.filings.recent.primaryDocDescription?.[i],
-        }))
-      : [];
-
-    // Optional: include older filings too (j.filings.files is a list of paginated JSON files)
-    let historic: Filing[] = [];
-    if (Array.isArray(j?.filings?.files)) {
-      const tasks = j.filings.files.map(async (f: any) => {
-        if (!f?.name) return [];
-        const fileUrl = `${SEC_ARCHIVES}/${f.name}`.replace("www.sec.gov/Archives", "data.sec.gov/Archives");
-        const rr = await secFetch(fileUrl);
-        if (!rr.ok) return [];
-        const jj = await rr.json().catch(() => null) as any;
-        if (!jj?.filings) return [];
-        const arr = Array.isArray(jj.filings) ? jj.filings : [];
-        return arr.map((x: any) => ({
-          accessionNumber: x.accessionNumber,
-          filingDate: x.filingDate,
-          reportDate: x.reportDate,
-          form: x.form,
-          primaryDocument: x.primaryDocument,
-          primaryDocDescription: x.primaryDocDescription,
-        })) as Filing[];
-      });
-      const lists = await Promise.all(tasks);
-      for (const list of lists) {
-        if (Array.isArray(list)) historic.push(...list);
-      }
-    }
+    const filings = columnsToFilings(j?.filings?.recent);
 
-    let all: Filing[] = [...filings, ...historic];
-
-    // Filter by date range
-    if (start || end) {
-      all = all.filter((f) => f.filingDate && inDateRange(f.filingDate, start, end));
-    }
-
-    // Filter by forms if provided
+    // Filters apply to the recent block and to each historic page as it arrives
     const forms = formsRaw
       ? formsRaw.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean)
       : [];
-    if (forms.length > 0) {
-      all = all.filter((f) => forms.includes((f.form || "").toUpperCase()));
-    }
-
-    // Free-text filter across description / form (lightweight)
-    if (freeText) {
-      all = all.filter((f) => {
-        const hay = [
-          f.form || "",
-          f.primaryDocDescription || "",
-          f.accessionNumber || "",
-        ]
-          .join(" ")
-          .toLowerCase();
-        return hay.includes(freeText);
+    const items = parseItems(itemsRaw);
+    const matches = (f: Filing) =>
+      (!(start || end) || (!!f.filingDate && inDateRange(f.filingDate, start, end))) &&
+      (!forms.length || forms.includes((f.form || "").toUpperCase())) &&
+      // 8-K items (any-of) narrow 8-K / 8-K/A rows only; other forms picked
+      // alongside them pass, and with no forms picked items mean 8-Ks
+      (!items.length ||
+        (/^8-K(\/A)?$/i.test(f.form || "") ? parseItems(f.items).some((c) => items.includes(c)) : forms.length > 0)) &&
+      // free-text across description / form (lightweight)
+      (!freeText ||
+        [f.form || "", f.primaryDocDescription || "", f.accessionNumber || ""].join(" ").toLowerCase().includes(freeText));
+
+    const all: Filing[] = filings.filter(matches);
+
+    // Older filings live in j.filings.files, newest page first. Only pages whose
+    // date span the query touches are candidates, and they are read in order
+    // until the requested page (plus one row, so the client knows there is a
+    // next page) is filled; a download reads them all. Pages list no forms, so
+    // e.g. forms=10-K stops as soon as enough 10-Ks have turned up.
+    const files: any[] = Array.isArray(j?.filings?.files) ? j.filings.files.filter((f: any) => f?.name) : [];
+    const historicPages: PageUse[] = files.map((f) => ({
+      name: f.name,
+      filingFrom: f.filingFrom,
+      filingTo: f.filingTo,
+      filingCount: f.filingCount,
+      used: false,
+    }));
+    const candidates = historicPages.filter((p) => pageOverlaps(p, start, end));
+    const wanted = format ? Infinity : page * perPage + 1;
+    for (let i = 0; i < candidates.length && all.length < wanted; i += HISTORIC_CONCURRENCY) {
+      const chunk = candidates.slice(i, i + HISTORIC_CONCURRENCY);
+      const lists = await mapLimit(chunk, HISTORIC_CONCURRENCY, async (p) => {
+        p.used = true;
+        const rr = await secJSON(`${SEC_BASE}/submissions/${p.name}`, HISTORIC_FRESH_MS);
+        if (rr.ok === false) {
+          p.cache = "error";
+          return [];
+        }
+        p.cache = rr.cache;
+        return columnsToFilings(rr.data);
       });
+      for (const list of lists) all.push(...list.filter(matches));
     }
+    // false when unread pages may hold more matches; `total` is then a lower bound
+    const complete = candidates.every((p) => p.used);
 
     // Sort most-recent first
     all.sort((a, b) => (a.filingDate < b.filingDate ? 1 : a.filingDate > b.filingDate ? -1 : 0));
 
     const total = all.length;
     const startIdx = (page - 1) * perPage;
-    const slice = all.slice(startIdx, startIdx + perPage);
-
-    const rows = slice.map((f) => ({
-      cik: cik10,
-      company: companyName,
-      form: f.form,
-      filed: f.filingDate,
-      accessionNumber: f.accessionNumber,
-      open: buildOpenUrl(cik10, f.accessionNumber, f.primaryDocument),
-    }));
+    const slice = format ? all : all.slice(startIdx, startIdx + perPage);
+
+    const rows: Row[] = slice.map((f) => {
+      const codes = parseItems(f.items);
+      return {
+        cik: cik10,
+        company: companyName,
+        form: f.form,
+        filed: f.filingDate,
+        accessionNumber: f.accessionNumber,
+        open: buildOpenUrl(cik10, f.accessionNumber, f.primaryDocument),
+        primaryDocument: f.primaryDocument,
+        items: codes,
+        badges: codes.map(itemBadge),
+      };
+    });
+    if (format) return exportResponse(format, `filings-${cik10}`, EXPORT_COLUMNS, rows);
 
     return NextResponse.json({
       ok: true,
       total,
+      complete,
       count: rows.length,
       data: rows,
       query: {
@@ -207,10 +198,15 @@ export async function GET(
         start,
         end,
         forms,
+        items,
         perPage,
         page,
         freeText,
       },
+      pages: {
+        recent: { filingCount: filings.length, cache: r.cache },
+        historic: historicPages,
+      },
     });
   } catch (e: any) {
     return NextResponse.json(
@@ -0,0 +1,170 @@
+// app/api/filings/export/route.ts
+import { NextResponse } from "next/server";
+import { toCsv } from "@/lib/csv";
+import { loadFilingDocuments, type FilingDoc } from "@/lib/filingDocs";
+import { itemBadge, parseItems } from "@/lib/form8k";
+import {
+  SEC_BASE,
+  buildOpenUrl,
+  filingFolder,
+  normalizeAccession,
+  normalizeCIK,
+  recentFilings,
+  secFetch,
+  secJSON,
+} from "@/lib/sec";
+import { zipEnd, zipFile, zipStart } from "@/lib/zip";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_FILINGS = 100;
+// stop adding documents past this many bytes (the archive is streamed, but still has to fit a download)
+const MAX_BYTES = 250 * 1024 * 1024;
+
+// same fields as Row on the EDGAR page
+const MANIFEST_COLUMNS = ["cik", "company", "form", "filed", "accessionNumber", "open", "primaryDocument", "items", "badges"];
+
+type Wanted = { cik: string; accessionNumber: string };
+
+/** "320193:0000320193-24-000123" or { cik, accessionNumber } */
+function parseWanted(list: unknown[]): Wanted[] | string {
+  const out = new Map<string, Wanted>();
+  for (const x of list) {
+    const [c, a] = typeof x === "string" ? x.split(":") : [(x as any)?.cik, (x as any)?.accessionNumber];
+    const cik = normalizeCIK(String(c || ""));
+    const acc = normalizeAccession(String(a || ""));
+    if (!cik || !acc) return `Invalid filing reference: ${JSON.stringify(x)}. Use cik:accessionNumber.`;
+    out.set(acc, { cik, accessionNumber: acc });
+  }
+  return Array.from(out.values());
+}
+
+const safe = (s: string) => s.replace(/[^\w.\-]+/g, "_");
+
+/** Exhibits (EX-*) plus the images their HTML refers to */
+const isExhibit = (d: FilingDoc) => /^EX-/i.test(d.type) || d.type === "GRAPHIC";
+
+async function* archive(wanted: Wanted[], exhibits: boolean): AsyncGenerator<Buffer> {
+  const zip = zipStart();
+  const manifest: unknown[][] = [];
+  const problems: string[] = [];
+  let bytes = 0;
+
+  for (const w of wanted) {
+    const recent = ((await recentFilings(w.cik)) || []).find((f) => f.accessionNumber === w.accessionNumber);
+    const sub = await secJSON(`${SEC_BASE}/submissions/CIK${w.cik}.json`); // cached by recentFilings
+    // older filings are not in the submissions "recent" block; the filing index has their metadata
+    const listing = exhibits || !recent?.primaryDocument ? await loadFilingDocuments(w.cik, w.accessionNumber) : null;
+    if (listing && listing.ok === false) {
+      if (!recent) {
+        problems.push(`${w.accessionNumber}: filing index fetch failed (${listing.status})`);
+        continue;
+      }
+      // the manifest row still comes from the submissions JSON; what the index would have added is lost
+      const lost = recent.primaryDocument ? "exhibits skipped" : "primary document unknown";
+      problems.push(`${w.accessionNumber}: filing index fetch failed (${listing.status}), ${lost}`);
+    }
+    const docs = listing?.ok ? listing.docs : [];
+    const meta = listing?.ok ? listing.meta : {};
+    const primary = recent?.primaryDocument || docs.find((d) => d.seq === 1)?.name;
+    const codes = parseItems(recent?.items);
+    const form = recent?.form || meta.form || "";
+    const filed = recent?.filingDate || meta.filed || "";
+    manifest.push([
+      w.cik,
+      (sub.ok ? sub.data?.name : undefined) || meta.company || "",
+      form,
+      filed,
+      w.accessionNumber,
+      buildOpenUrl(w.cik, w.accessionNumber, primary),
+      primary || "",
+      codes,
+      codes.map(itemBadge),
+    ]);
+
+    const names = [primary, ...(exhibits ? docs.filter((d) => d.name !== primary && isExhibit(d)).map((d) => d.name) : [])];
+    const dir = safe(`${filed}_${form}_${w.accessionNumber}`);
+    for (const name of names) {
+      if (!name) continue;
+      if (bytes >= MAX_BYTES) {
+        problems.push(`${w.accessionNumber}/${name}: skipped, archive size limit reached`);
+        continue;
+      }
+      const r = await secFetch(`${filingFolder(w.cik, w.accessionNumber)}/${name}`, { headers: { Accept: "*/*" } });
+      if (!r.ok) {
+        problems.push(`${w.accessionNumber}/${name}: SEC fetch failed (${r.status})`);
+        continue;
+      }
+      const data = new Uint8Array(await r.arrayBuffer());
+      bytes += data.length;
+      yield zipFile(zip, `${dir}/${name}`, data);
+    }
+  }
+
+  yield zipFile(zip, "manifest.csv", Buffer.from(toCsv(MANIFEST_COLUMNS, manifest), "utf8"));
+  if (problems.length) yield zipFile(zip, "errors.txt", Buffer.from(problems.join("\n") + "\n", "utf8"));
+  yield zipEnd(zip);
+}
+
+function respond(list: unknown[], exhibits: boolean) {
+  if (!list.length) {
+    return NextResponse.json({ ok: false, error: "Provide at least one filing (cik:accessionNumber)." }, { status: 400 });
+  }
+  if (list.length > MAX_FILINGS) {
+    return NextResponse.json({ ok: false, error: `At most ${MAX_FILINGS} filings per export.` }, { status: 400 });
+  }
+  const wanted = parseWanted(list);
+  if (typeof wanted === "string") return NextResponse.json({ ok: false, error: wanted }, { status: 400 });
+
+  const it = archive(wanted, exhibits);
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await it.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (e) {
+        controller.error(e);
+      }
+    },
+    async cancel() {
+      await it.return(undefined);
+    },
+  });
+  const stamp = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="edgar-filings-${stamp}.zip"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * ZIP of the selected filings' primary documents (and, with exhibits=1,
+ * their exhibits) plus manifest.csv. Every download goes through secFetch,
+ * one document at a time, so exports share the SEC rate limit.
+ *
+ *   GET  ?filings=320193:0000320193-24-000123,...&exhibits=1
+ *   POST { filings: [{ cik, accessionNumber }], exhibits?: boolean }
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const list = (searchParams.get("filings") || "").split(",").map((s) => s.trim()).filter(Boolean);
+    return respond(list, searchParams.get("exhibits") === "1");
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Unexpected server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    return respond(Array.isArray(body?.filings) ? body.filings : [], !!body?.exhibits);
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Unexpected server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+// app/api/filings/ingest/route.ts
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/cron";
+import { dailyIndexPath, ingestIndex, quarterlyIndexPath, type IndexType } from "@/lib/edgarIndex";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** EDGAR dates are Eastern time; "today" at 11pm UTC-5 is still today on EDGAR */
+function todayET() {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: "America/New_York" }).format(new Date());
+}
+
+/**
+ * Ingest one EDGAR index file. Meant to be hit by a scheduler (e.g. a cron
+ * every 15 minutes during filing hours); requires CRON_SECRET and
+ * `Authorization: Bearer <secret>`.
+ *
+ *   ?date=YYYY-MM-DD   daily index (default: today, Eastern)
+ *   ?quarter=2024Q3    full quarterly index instead
+ *   ?type=master|form  which index flavor to read (default master)
+ *   ?enrich=100        max new companies to look up for SIC / state (0 = skip)
+ */
+export async function GET(req: Request) {
+  try {
+    const denied = requireCron(req);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(req.url);
+    const type: IndexType = searchParams.get("type") === "form" ? "form" : "master";
+    const enrich = Math.max(0, Math.min(1000, parseInt(searchParams.get("enrich") || "100", 10) || 0));
+    const quarter = (searchParams.get("quarter") || "").trim().toUpperCase();
+    const date = (searchParams.get("date") || "").trim() || todayET();
+
+    let path: string;
+    if (quarter) {
+      const m = quarter.match(/^(\d{4})Q([1-4])$/);
+      if (!m) {
+        return NextResponse.json({ ok: false, error: "quarter must look like 2024Q3" }, { status: 400 });
+      }
+      path = quarterlyIndexPath(parseInt(m[1], 10), parseInt(m[2], 10), type);
+    } else {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return NextResponse.json({ ok: false, error: "date must be YYYY-MM-DD" }, { status: 400 });
+      }
+      path = dailyIndexPath(date, type);
+    }
+
+    const result = await ingestIndex(path, { enrich });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+// app/api/filings/latest/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildOpenUrl } from "@/lib/sec";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function list(raw: string | null, upper = true) {
+  return (raw || "")
+    .split(",")
+    .map((s) => (upper ? s.trim().toUpperCase() : s.trim()))
+    .filter(Boolean);
+}
+
+/**
+ * Cross-company feed from the ingested EDGAR index (see /api/filings/ingest).
+ * Like master.idx, a filing with several parties is listed once per CIK, so
+ * SIC / state filters match whichever party they describe.
+ *
+ *   ?forms=8-K,4          form types (exact)
+ *   ?date=YYYY-MM-DD      one day (default: latest ingested day), or ?start=&end=
+ *   ?sic=7372,73          SIC codes; 1-3 digits match as a prefix
+ *   ?state=CA,NY          business address state / country code
+ *   ?q=acme               company name contains
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const forms = list(searchParams.get("forms") || searchParams.get("form"));
+    const sics = list(searchParams.get("sic")).filter((s) => /^\d{1,4}$/.test(s));
+    const states = list(searchParams.get("state"));
+    const q = (searchParams.get("q") || "").trim();
+    const perPage = Math.max(1, Math.min(200, parseInt(searchParams.get("perPage") || "50", 10) || 50));
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+
+    let start = (searchParams.get("start") || "").trim();
+    let end = (searchParams.get("end") || "").trim();
+    const date = (searchParams.get("date") || "").trim();
+    if (date) start = end = date;
+    if (!start && !end) {
+      const newest = await prisma.edgarFiling.findFirst({ orderBy: { filed: "desc" }, select: { filed: true } });
+      if (!newest) {
+        return NextResponse.json({
+          ok: true, total: 0, count: 0, data: [],
+          query: { forms, start, end, sic: sics, state: states, q, page, perPage },
+          meta: { note: "Index is empty; run /api/filings/ingest first." },
+        });
+      }
+      start = end = newest.filed;
+    }
+
+    const where: any = { AND: [] as any[] };
+    if (start) where.AND.push({ filed: { gte: start } });
+    if (end) where.AND.push({ filed: { lte: end } });
+    if (forms.length) where.AND.push({ form: { in: forms } });
+    if (states.length) where.AND.push({ state: { in: states } });
+    if (sics.length) {
+      where.AND.push({
+        OR: sics.map((s) => (s.length === 4 ? { sic: s } : { sic: { startsWith: s } })),
+      });
+    }
+    if (q) where.AND.push({ company: { contains: q, mode: "insensitive" } });
+
+    const [total, filings] = await Promise.all([
+      prisma.edgarFiling.count({ where }),
+      prisma.edgarFiling.findMany({
+        where,
+        orderBy: [{ filed: "desc" }, { accessionNumber: "desc" }, { cik: "asc" }],
+        skip: (page - 1) * perPage,
+        take: perPage,
+      }),
+    ]);
+
+    const rows = filings.map((f: any) => ({
+      cik: f.cik,
+      company: f.company,
+      form: f.form,
+      filed: f.filed,
+      accessionNumber: f.accessionNumber,
+      open: buildOpenUrl(f.cik, f.accessionNumber),
+      sic: f.sic || undefined,
+      state: f.state || undefined,
+    }));
+
+    return NextResponse.json({
+      ok: true,
+      total,
+      count: rows.length,
+      data: rows,
+      query: { forms, start, end, sic: sics, state: states, q, page, perPage },
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
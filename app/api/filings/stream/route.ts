@@ -0,0 +1,127 @@
+// app/api/filings/stream/route.ts
+import { eventsSince, subscribe, type FilingEvent } from "@/lib/currentFeed";
+import { normalizeCIK } from "@/lib/sec";
+import { loadTickers } from "@/lib/tickers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 25_000;
+const DEFAULT_BACKLOG = 20;
+
+/** "AAPL,320193,CIK0000789019" -> set of 10-digit CIKs */
+async function resolveCiks(raw: string): Promise<Set<string>> {
+  const out = new Set<string>();
+  const parts = raw.split(",").map((s) => s.trim()).filter(Boolean);
+  const symbols: string[] = [];
+  for (const p of parts) {
+    if (/^(CIK)?\d+$/i.test(p)) {
+      const c = normalizeCIK(p);
+      if (c) out.add(c);
+    } else symbols.push(p.toUpperCase().replace(/[.\-\s]/g, ""));
+  }
+  if (symbols.length) {
+    const rows = await loadTickers();
+    for (const r of rows) if (symbols.includes(r.ticker.replace(/[.\-]/g, ""))) out.add(r.cik);
+  }
+  return out;
+}
+
+/**
+ * Server-Sent Events stream of new EDGAR filings (current events feed).
+ *
+ *   ?forms=8-K,4        form types; "4" also matches "4/A"
+ *   ?ciks=AAPL,320193   tickers or CIKs; matches issuer, filer or reporting owner
+ *   ?since=<accession>  resume after this accession (EventSource sends Last-Event-ID itself)
+ *   ?backlog=20         buffered events replayed on a fresh connection, or when `since`
+ *                       is no longer buffered (0 = none)
+ *
+ * Every event is `event: filing`, `id: <accession>`, `data: FilingEvent JSON`.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const forms = (searchParams.get("forms") || "")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+  const ciksRaw = (searchParams.get("ciks") || "").trim();
+  const since = req.headers.get("last-event-id") || searchParams.get("since") || "";
+  const backlogParam = parseInt(searchParams.get("backlog") ?? "", 10);
+  const backlog = Math.max(0, Math.min(500, Number.isNaN(backlogParam) ? DEFAULT_BACKLOG : backlogParam));
+
+  let ciks: Set<string>;
+  try {
+    ciks = await resolveCiks(ciksRaw);
+  } catch (e: any) {
+    return new Response(JSON.stringify({ ok: false, error: e?.message || "Ticker lookup failed" }), {
+      status: 502,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  if (ciksRaw && !ciks.size) {
+    return new Response(JSON.stringify({ ok: false, error: "No matching tickers or CIKs." }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const matches = (e: FilingEvent) =>
+    (!forms.length || forms.some((f) => e.form.toUpperCase() === f || e.form.toUpperCase() === `${f}/A`)) &&
+    (!ciks.size || e.entities.some((x) => ciks.has(x.cik)));
+
+  const enc = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(enc.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendEvent = (e: FilingEvent) => {
+        if (matches(e)) send(`event: filing\nid: ${e.accessionNumber}\ndata: ${JSON.stringify(e)}\n\n`);
+      };
+
+      send(`retry: 5000\n\n`);
+      // resume: everything after the last-seen accession; fresh (or an accession
+      // no longer buffered): the last few matches
+      const resumed = since ? eventsSince(since) : null;
+      const past = resumed
+        ? resumed.filter(matches)
+        : backlog
+          ? (eventsSince() || []).filter(matches).slice(-backlog)
+          : [];
+      past.forEach(sendEvent);
+
+      const unsubscribe = subscribe(sendEvent);
+      const beat = setInterval(() => send(`: keep-alive\n\n`), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(beat);
+        unsubscribe();
+      };
+      req.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,75 @@
+// app/api/financials/[cik]/route.ts
+import { NextResponse } from "next/server";
+import { normalizeCompanyFacts, type LineItem, type StatementKey } from "@/lib/financials";
+import { SEC_BASE, normalizeCIK, secFetch } from "@/lib/sec";
+
+export const runtime = "nodejs";
+
+// companyfacts is several MB for large filers; keep the normalized result briefly
+type CacheEntry = { t: number; data: any };
+const CACHE = new Map<string, CacheEntry>();
+const TTL_MS = 60 * 60 * 1000; // 1h
+const MAX_CACHE = 50; // companies; oldest dropped first
+
+export async function GET(
+  req: Request,
+  { params }: { params: { cik: string } }
+) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const periodRaw = (searchParams.get("period") || "all").toLowerCase(); // annual | quarterly | all
+    const period = ["annual", "quarterly"].includes(periodRaw) ? periodRaw : "all";
+    const limit = Math.max(1, Math.min(80, parseInt(searchParams.get("limit") || "20", 10) || 20));
+
+    const cik10 = normalizeCIK(params.cik || "");
+    if (!cik10) {
+      return NextResponse.json(
+        { ok: false, error: "Missing identifier. Provide CIK (digits or 'CIK...')." },
+        { status: 400 }
+      );
+    }
+
+    let entry = CACHE.get(cik10);
+    if (!entry || Date.now() - entry.t > TTL_MS) {
+      const r = await secFetch(`${SEC_BASE}/api/xbrl/companyfacts/CIK${cik10}.json`);
+      if (!r.ok) {
+        const text = await r.text().catch(() => "");
+        return NextResponse.json(
+          { ok: false, error: `SEC companyfacts fetch failed (${r.status})`, details: text.slice(0, 300) },
+          { status: r.status }
+        );
+      }
+      const j = await r.json();
+      entry = {
+        t: Date.now(),
+        data: { entityName: j?.entityName, statements: normalizeCompanyFacts(j) },
+      };
+      CACHE.delete(cik10);
+      if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+      CACHE.set(cik10, entry);
+    }
+
+    // Trim each series to the requested period(s) / length
+    const statements = {} as Record<StatementKey, LineItem[]>;
+    for (const [key, lines] of Object.entries(entry.data.statements) as [StatementKey, LineItem[]][]) {
+      statements[key] = lines.map((l) => ({
+        ...l,
+        annual: period === "quarterly" ? [] : l.annual.slice(0, limit),
+        quarterly: period === "annual" ? [] : l.quarterly.slice(0, limit),
+      }));
+    }
+
+    return NextResponse.json({
+      ok: true,
+      cik: cik10,
+      entityName: entry.data.entityName,
+      statements,
+      query: { period, limit },
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// app/api/formd/ingest/route.ts
+import { NextResponse } from "next/server";
+import { requireCron } from "@/lib/cron";
+import { ingestFormD } from "@/lib/formD";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Parse Form D / D/A filings already in the EDGAR index (run
+ * /api/filings/ingest first). Meant for a scheduler; requires CRON_SECRET
+ * and `Authorization: Bearer <secret>`.
+ *
+ *   ?limit=50   filings per run (one SEC request each)
+ */
+export async function GET(req: Request) {
+  try {
+    const denied = requireCron(req);
+    if (denied) return denied;
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(500, parseInt(searchParams.get("limit") || "50", 10) || 50));
+    const result = await ingestFormD(limit);
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+// app/api/formd/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildOpenUrl } from "@/lib/sec";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function list(raw: string | null) {
+  return (raw || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function amount(raw: string | null) {
+  const n = Number((raw || "").replace(/[,$\s]/g, ""));
+  return raw && Number.isFinite(n) ? n : undefined;
+}
+
+const SORTS: Record<string, any> = {
+  filed: [{ filed: "desc" }, { accessionNumber: "desc" }],
+  amount: [{ totalOfferingAmount: { sort: "desc", nulls: "last" } }, { filed: "desc" }],
+  sold: [{ totalAmountSold: { sort: "desc", nulls: "last" } }, { filed: "desc" }],
+};
+
+/**
+ * Form D offerings loaded by /api/formd/ingest.
+ *
+ *   ?q=acme                 issuer name contains
+ *   ?state=CA,NY            issuer state / country code
+ *   ?industry=Biotechnology industry group (Form D Item 4), comma separated
+ *   ?exemption=506b|506c
+ *   ?minAmount=&maxAmount=  total offering amount (USD); indefinite offerings only match without bounds
+ *   ?minSold=               total amount sold
+ *   ?start=&end=            filing date range
+ *   ?amendments=0           leave out D/A
+ *   ?sort=filed|amount|sold &page=1&perPage=50
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const q = (searchParams.get("q") || "").trim();
+    const states = list(searchParams.get("state")).map((s) => s.toUpperCase());
+    const industries = list(searchParams.get("industry"));
+    const exemption = (searchParams.get("exemption") || "").toLowerCase();
+    const minAmount = amount(searchParams.get("minAmount"));
+    const maxAmount = amount(searchParams.get("maxAmount"));
+    const minSold = amount(searchParams.get("minSold"));
+    const start = (searchParams.get("start") || "").trim();
+    const end = (searchParams.get("end") || "").trim();
+    const sort = SORTS[searchParams.get("sort") || ""] ? searchParams.get("sort")! : "filed";
+    const perPage = Math.max(1, Math.min(200, parseInt(searchParams.get("perPage") || "50", 10) || 50));
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+
+    const where: any = { AND: [{ parsed: true }] as any[] };
+    if (q) where.AND.push({ issuerName: { contains: q, mode: "insensitive" } });
+    if (states.length) where.AND.push({ state: { in: states } });
+    if (industries.length) where.AND.push({ industryGroup: { in: industries } });
+    if (exemption === "506b") where.AND.push({ rule506b: true });
+    if (exemption === "506c") where.AND.push({ rule506c: true });
+    if (minAmount !== undefined) where.AND.push({ totalOfferingAmount: { gte: minAmount } });
+    if (maxAmount !== undefined) where.AND.push({ totalOfferingAmount: { lte: maxAmount } });
+    if (minSold !== undefined) where.AND.push({ totalAmountSold: { gte: minSold } });
+    if (start) where.AND.push({ filed: { gte: start } });
+    if (end) where.AND.push({ filed: { lte: end } });
+    if (searchParams.get("amendments") === "0") where.AND.push({ form: "D" });
+
+    const [total, offerings, loaded] = await Promise.all([
+      prisma.formDOffering.count({ where }),
+      prisma.formDOffering.findMany({
+        where,
+        orderBy: SORTS[sort],
+        skip: (page - 1) * perPage,
+        take: perPage,
+      }),
+      prisma.formDOffering.count(),
+    ]);
+
+    const data = offerings.map((o: any) => ({
+      accessionNumber: o.accessionNumber,
+      cik: o.cik,
+      issuerName: o.issuerName,
+      form: o.form,
+      filed: o.filed,
+      state: o.state || undefined,
+      industryGroup: o.industryGroup || undefined,
+      fundType: o.fundType || undefined,
+      entityType: o.entityType || undefined,
+      yearOfInc: o.yearOfInc || undefined,
+      revenueRange: o.revenueRange || undefined,
+      exemptions: o.exemptions ? o.exemptions.split(",") : [],
+      totalOfferingAmount: o.totalOfferingAmount ?? undefined,
+      totalAmountSold: o.totalAmountSold ?? undefined,
+      minimumInvestment: o.minimumInvestment ?? undefined,
+      investorCount: o.investorCount ?? undefined,
+      nonAccreditedCount: o.nonAccreditedCount ?? undefined,
+      firstSaleDate: o.firstSaleDate || undefined,
+      securityTypes: o.securityTypes ? o.securityTypes.split(",") : [],
+      relatedPersons: Array.isArray(o.relatedPersons) ? o.relatedPersons : [],
+      open: buildOpenUrl(o.cik, o.accessionNumber),
+    }));
+
+    return NextResponse.json({
+      ok: true,
+      total,
+      count: data.length,
+      data,
+      query: { q, state: states, industry: industries, exemption, minAmount, maxAmount, minSold, start, end, sort, page, perPage },
+      meta: loaded ? undefined : { note: "No Form D filings loaded yet; run /api/filings/ingest, then /api/formd/ingest." },
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
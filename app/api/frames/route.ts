@@ -0,0 +1,121 @@
+// app/api/frames/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { SEC_BASE, secFetch } from "@/lib/sec";
+import { tickersByCik } from "@/lib/tickers";
+
+export const runtime = "nodejs";
+
+type FrameRow = {
+  rank: number;       // by value, largest first
+  cik: string;
+  ticker: string;
+  name: string;
+  val: number;
+  end: string;
+  accn: string;
+  loc?: string;       // e.g. "US-CA"
+};
+
+// Frames only change when new filings land; keep per instance for a few hours
+type CacheEntry = { t: number; data: { meta: any; rows: Omit<FrameRow, "ticker">[] } };
+const CACHE = new Map<string, CacheEntry>();
+const TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_CACHE = 50; // frames; keys come from the query string, so oldest dropped first
+
+const SORTABLE = new Set(["val", "name", "ticker", "end"]);
+
+async function loadFrame(taxonomy: string, tag: string, unit: string, period: string) {
+  const url = `${SEC_BASE}/api/xbrl/frames/${taxonomy}/${tag}/${unit}/${period}.json`;
+  const hit = CACHE.get(url);
+  if (hit && Date.now() - hit.t < TTL_MS) return { ok: true as const, ...hit.data };
+
+  const r = await secFetch(url);
+  if (!r.ok) return { ok: false as const, status: r.status };
+  const j = await r.json();
+
+  const rows = (Array.isArray(j?.data) ? j.data : [])
+    .filter((d: any) => typeof d?.val === "number")
+    .sort((a: any, b: any) => b.val - a.val)
+    .map((d: any, i: number) => ({
+      rank: i + 1,
+      cik: String(d.cik).padStart(10, "0"),
+      name: String(d.entityName || "").trim(),
+      val: d.val,
+      end: d.end,
+      accn: d.accn,
+      loc: d.loc || undefined,
+    }));
+  const meta = { taxonomy, tag, unit, period, label: j?.label, description: j?.description };
+  CACHE.delete(url);
+  if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+  CACHE.set(url, { t: Date.now(), data: { meta, rows } });
+  return { ok: true as const, meta, rows };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const conceptRaw = (searchParams.get("concept") || "").trim();  // "Revenues" or "us-gaap:Revenues"
+    const [maybeTax, maybeTag] = conceptRaw.includes(":") ? conceptRaw.split(":") : ["", conceptRaw];
+    const taxonomy = (maybeTax || searchParams.get("taxonomy") || "us-gaap").trim();
+    const tag = maybeTag.trim();
+    const unit = (searchParams.get("unit") || "USD").trim();
+    const period = (searchParams.get("period") || "").trim().toUpperCase(); // CY2024Q4, CY2024, CY2024Q4I
+    const q = (searchParams.get("q") || "").trim().toLowerCase();
+    const tickersOnly = searchParams.get("tickersOnly") === "1";
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1);
+    const perPage = Math.min(Math.max(parseInt(searchParams.get("perPage") || "50", 10) || 50, 10), 200);
+    const sortRaw = (searchParams.get("sort") || "val").trim();
+    const sort = SORTABLE.has(sortRaw) ? sortRaw : "val";
+    const order: "asc" | "desc" = searchParams.get("order") === "asc" ? "asc" : "desc";
+
+    if (!/^[A-Za-z][\w-]*$/.test(tag) || !/^[a-z][\w-]*$/i.test(taxonomy)) {
+      return NextResponse.json({ ok: false, error: "Provide concept (e.g., Revenues or us-gaap:Assets)" }, { status: 400 });
+    }
+    if (!/^CY\d{4}(Q[1-4])?I?$/.test(period)) {
+      return NextResponse.json(
+        { ok: false, error: "Provide period as CY2024, CY2024Q4, or CY2024Q4I (instant)" },
+        { status: 400 }
+      );
+    }
+    if (!/^[\w\-/]+$/.test(unit)) {
+      return NextResponse.json({ ok: false, error: "Invalid unit" }, { status: 400 });
+    }
+
+    const frame = await loadFrame(taxonomy, tag, unit.replace("/", "-per-"), period);
+    if (!frame.ok) {
+      return NextResponse.json(
+        { ok: false, error: `SEC frames fetch failed (${frame.status})` },
+        { status: frame.status === 404 ? 404 : 502 }
+      );
+    }
+
+    const byCik = await tickersByCik().catch(() => new Map());
+    let all: FrameRow[] = frame.rows.map((r) => ({ ...r, ticker: byCik.get(r.cik)?.[0]?.ticker || "" }));
+
+    if (tickersOnly) all = all.filter((x) => x.ticker);
+    if (q) {
+      all = all.filter(
+        (x) => x.ticker.toLowerCase().includes(q) || x.name.toLowerCase().includes(q) || x.cik.includes(q)
+      );
+    }
+
+    const dir = order === "asc" ? 1 : -1;
+    all.sort((a, b) => {
+      const av = (a as any)[sort];
+      const bv = (b as any)[sort];
+      if (typeof av === "number" && typeof bv === "number") return (av - bv) * dir;
+      return String(av).localeCompare(String(bv)) * dir;
+    });
+
+    const total = all.length;
+    const start = (page - 1) * perPage;
+    const data = all.slice(start, start + perPage);
+
+    return NextResponse.json({ ok: true, total, page, perPage, data, meta: { ...frame.meta, unit, sort, order } }, {
+      headers: { "Cache-Control": "s-maxage=21600, stale-while-revalidate=86400" },
+    });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, error: e?.message || "Unexpected error" }, { status: 500 });
+  }
+}
@@ -1,8 +1,22 @@
 // app/api/fred/series/route.ts
 import { NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
 
 const MUST = "Missing FRED_API_KEY (set it in Vercel → Project → Settings → Env Vars)";
 
+type Observation = { id: string; title: string; units: string; frequency: string; seasonal: string; date: string; value: number };
+
+// one row per observation, so several series stack into one sheet
+const EXPORT_COLUMNS: ExportColumn<Observation>[] = [
+  { key: "id", label: "Series ID" },
+  { key: "title", label: "Title" },
+  { key: "date", label: "Date" },
+  { key: "value", label: "Value" },
+  { key: "units", label: "Units" },
+  { key: "frequency", label: "Frequency" },
+  { key: "seasonal", label: "Seasonal adjustment" },
+];
+
 function fredURL(path: string, params: Record<string, string>) {
   const key = process.env.FRED_API_KEY;
   if (!key) throw new Error(MUST);
@@ -58,6 +72,7 @@ export async function GET(req: Request) {
     const start = searchParams.get("start") || undefined; // e.g., 2000-01-01
     const end = searchParams.get("end") || undefined;     // e.g., 2025-12-31
     const freq = searchParams.get("freq") || undefined;   // 'm','q','a','d','w'
+    const format = exportFormat(searchParams);            // csv|xlsx|ndjson download
 
     const out = await Promise.all(ids.map(async (id) => {
       const meta = await getMeta(id);
@@ -65,6 +80,15 @@ export async function GET(req: Request) {
       return { ...meta, ...obs };
     }));
 
+    if (format) {
+      const rows: Observation[] = out.flatMap((s) =>
+        s.observations.map((o: { date: string; value: number }) => ({
+          id: s.id, title: s.title, units: s.units, frequency: s.frequency, seasonal: s.seasonal, ...o,
+        }))
+      );
+      return exportResponse(format, `fred-${ids.join("_")}`, EXPORT_COLUMNS, rows);
+    }
+
     return NextResponse.json({ data: out }, { headers: { "Cache-Control": "no-store" } });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || "FRED error" }, { status: 500 });
@@ -0,0 +1,172 @@
+// app/api/fulltext/route.ts
+import { NextResponse } from "next/server";
+import { htmlToText } from "@/lib/html";
+import { filingFolder, mapLimit, normalizeCIK, secFetch } from "@/lib/sec";
+import { loadTickers } from "@/lib/tickers";
+
+export const runtime = "nodejs";
+
+const EFTS_URL = "https://efts.sec.gov/LATEST/search-index";
+const EFTS_PAGE = 100;        // EFTS always returns 100 hits per `from` offset
+const SNIPPETS_PER_HIT = 3;
+const SNIPPET_RADIUS = 140;   // chars of context on each side of a match
+const MAX_DOC_CHARS = 2_000_000;
+
+/** A snippet is a run of plain text with the matched terms flagged */
+type Segment = { text: string; hit: boolean };
+
+type Hit = {
+  cik: string;
+  company: string;
+  form: string;
+  filed: string;
+  periodEnding?: string;
+  accessionNumber: string;
+  document: string;
+  description?: string;
+  url: string;        // deep link to the matching document on sec.gov
+  explore: string;    // in-app filing index
+  snippets: Segment[][];
+};
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Quoted phrases stay whole; boolean operators / exclusions are not highlighted */
+function queryTerms(q: string): string[] {
+  const out: string[] = [];
+  const re = /"([^"]+)"|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(q))) {
+    const t = (m[1] || m[2] || "").trim();
+    if (!t || /^(AND|OR|NOT)$/.test(t) || t.startsWith("-")) continue;
+    const term = t.replace(/\*$/, "");
+    if (term) out.push(term);
+  }
+  return out;
+}
+
+function makeSnippets(text: string, terms: string[]): Segment[][] {
+  if (!terms.length) return [];
+  const re = new RegExp(terms.map(escapeRe).join("|"), "gi");
+  const out: Segment[][] = [];
+  let lastEnd = -1;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) && out.length < SNIPPETS_PER_HIT) {
+    if (m.index < lastEnd) continue;
+    const from = Math.max(0, m.index - SNIPPET_RADIUS);
+    const to = Math.min(text.length, m.index + m[0].length + SNIPPET_RADIUS);
+    const window = text.slice(from, to).replace(/\s+/g, " ");
+    const segs: Segment[] = [];
+    let i = 0;
+    for (const mm of Array.from(window.matchAll(new RegExp(re.source, "gi")))) {
+      if (mm.index! > i) segs.push({ text: window.slice(i, mm.index), hit: false });
+      segs.push({ text: mm[0], hit: true });
+      i = mm.index! + mm[0].length;
+    }
+    if (i < window.length) segs.push({ text: window.slice(i), hit: false });
+    if (from > 0) segs.unshift({ text: "…", hit: false });
+    if (to < text.length) segs.push({ text: "…", hit: false });
+    out.push(segs);
+    lastEnd = to;
+  }
+  return out;
+}
+
+/** Resolve "AAPL" / "320193" to CIKs; anything else is passed as entityName */
+async function resolveEntity(entity: string): Promise<{ ciks?: string; entityName?: string }> {
+  if (/^(CIK)?\d{1,10}$/i.test(entity)) return { ciks: normalizeCIK(entity) || undefined };
+  const t = entity.toUpperCase().replace(/-/g, ".");
+  const rows = await loadTickers().catch(() => []);
+  const hit = rows.find((r) => r.ticker.replace(/-/g, ".") === t);
+  return hit ? { ciks: hit.cik } : { entityName: entity };
+}
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const q = (searchParams.get("q") || "").trim();
+    const formsRaw = (searchParams.get("forms") || "").trim();
+    const start = (searchParams.get("start") || "").trim();
+    const end = (searchParams.get("end") || "").trim();
+    const entity = (searchParams.get("entity") || "").trim();
+    const perPage = Math.max(1, Math.min(20, parseInt(searchParams.get("perPage") || "10", 10) || 10));
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const withSnippets = searchParams.get("snippets") !== "0";
+
+    if (!q) {
+      return NextResponse.json({ ok: false, error: "Missing q (search terms)." }, { status: 400 });
+    }
+
+    const offset = (page - 1) * perPage;
+    const efts = new URL(EFTS_URL);
+    efts.searchParams.set("q", q);
+    efts.searchParams.set("from", String(Math.floor(offset / EFTS_PAGE) * EFTS_PAGE));
+    if (formsRaw) efts.searchParams.set("forms", formsRaw);
+    if (start || end) {
+      efts.searchParams.set("dateRange", "custom");
+      if (start) efts.searchParams.set("startdt", start);
+      if (end) efts.searchParams.set("enddt", end);
+    }
+    const ent = entity ? await resolveEntity(entity) : {};
+    if (ent.ciks) efts.searchParams.set("ciks", ent.ciks);
+    if (ent.entityName) efts.searchParams.set("entityName", ent.entityName);
+
+    const r = await secFetch(efts.toString());
+    if (!r.ok) {
+      const text = await r.text().catch(() => "");
+      return NextResponse.json(
+        { ok: false, error: `EDGAR full-text search failed (${r.status})`, details: text.slice(0, 300) },
+        { status: r.status }
+      );
+    }
+    const j = await r.json();
+    const total: number = j?.hits?.total?.value ?? 0;
+    const raw: any[] = Array.isArray(j?.hits?.hits) ? j.hits.hits : [];
+    const pageHits = raw.slice(offset % EFTS_PAGE, (offset % EFTS_PAGE) + perPage);
+
+    const terms = queryTerms(q);
+    const data: Hit[] = await mapLimit(pageHits, 4, async (h) => {
+      const src = h?._source || {};
+      const [adsh, document] = String(h?._id || "").split(":");
+      const cik10 = String(src.ciks?.[0] || "").padStart(10, "0");
+      const folder = filingFolder(cik10, adsh);
+      const hit: Hit = {
+        cik: cik10,
+        company: String(src.display_names?.[0] || "").replace(/\s*\(CIK \d+\)\s*$/, ""),
+        form: src.form || src.file_type || "",
+        filed: src.file_date || "",
+        periodEnding: src.period_ending || undefined,
+        accessionNumber: adsh,
+        document,
+        description: src.file_description || undefined,
+        url: `${folder}/${document}`,
+        explore: `/edgar/${cik10}/${adsh}`,
+        snippets: [],
+      };
+      if (withSnippets && document) {
+        try {
+          const dr = await secFetch(hit.url, { headers: { Accept: "text/html,text/plain,*/*" } });
+          if (dr.ok) hit.snippets = makeSnippets(htmlToText((await dr.text()).slice(0, MAX_DOC_CHARS)), terms);
+        } catch {
+          /* snippet is best-effort */
+        }
+      }
+      return hit;
+    });
+
+    return NextResponse.json({
+      ok: true,
+      total,
+      count: data.length,
+      data,
+      query: { q, forms: formsRaw ? formsRaw.split(",") : [], start, end, entity, perPage, page },
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 // app/api/health/route.ts
 import { NextResponse } from "next/server";
+import { feedStatus } from "@/lib/currentFeed";
+import { secMetrics } from "@/lib/sec";
+import { searchMetrics } from "@/lib/tickerSearch";
 
 export async function GET() {
   const required = [
@@ -8,5 +11,7 @@ export async function GET() {
     "STRIPE_SECRET_KEY","STRIPE_PRICE_ID","STRIPE_WEBHOOK_SECRET"
   ];
   const status = Object.fromEntries(required.map(k => [k, process.env[k] ? "set" : "missing"]));
-  return NextResponse.json({ ok: true, env: status });
+  // SEC client counters for this instance (throttled / retried / rate-limited calls)
+  // and issuer autocomplete latency against its 5 ms p99 budget
+  return NextResponse.json({ ok: true, env: status, sec: secMetrics(), feed: feedStatus(), search: searchMetrics() });
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 // app/api/insider/activity/route.ts
 import { NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
 
 const API = "https://financialmodelingprep.com/api/v4/insider-trading";
 const KEY = process.env.FMP_API_KEY || process.env.NEXT_PUBLIC_FMP_KEY || "";
@@ -19,6 +20,30 @@ function cacheSet(k: string, v: any) {
   CACHE.set(k, { t: Date.now(), data: v });
 }
 
+type Row = {
+  date: string;
+  insider: string;
+  ticker: string;
+  company: string;
+  action: string;
+  shares?: number;
+  price?: number;
+  value?: number;
+  link?: string;
+};
+
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: "date", label: "Date" },
+  { key: "insider", label: "Insider" },
+  { key: "ticker", label: "Ticker" },
+  { key: "company", label: "Company" },
+  { key: "action", label: "Action" },
+  { key: "shares", label: "Shares" },
+  { key: "price", label: "Price" },
+  { key: "value", label: "Value" },
+  { key: "link", label: "Filing URL" },
+];
+
 // --- helpers to robustly pull values from mixed schemas ---
 const num = (v: any): number | undefined => {
   if (v == null) return undefined;
@@ -89,6 +114,14 @@ export async function GET(req: Request) {
     const insider = (searchParams.get("insider") || "").trim().toLowerCase();
     const from = searchParams.get("from") || "";
     const to = searchParams.get("to") || "";
+    const action = (searchParams.get("action") || "").trim().toUpperCase(); // P, S, A or D
+    const format = exportFormat(searchParams);
+
+    const respond = (rows: Row[]) => {
+      const shown = action ? rows.filter((r) => r.action.startsWith(action)) : rows;
+      if (format) return exportResponse(format, `insider-${ticker || "all"}`, EXPORT_COLUMNS, shown);
+      return NextResponse.json({ ok: true, rows: shown });
+    };
 
     if (!KEY) {
       return NextResponse.json(
@@ -104,13 +137,13 @@ export async function GET(req: Request) {
 
     const cacheKey = `insider:${qp.toString()}:${from}:${to}`;
     const cached = cacheGet(cacheKey);
-    if (cached) return NextResponse.json({ ok: true, rows: cached });
+    if (cached) return respond(cached);
 
     const res = await fetch(`${API}?${qp.toString()}`, { next: { revalidate: 30 } });
     if (!res.ok) throw new Error(`FMP error ${res.status}: ${await res.text()}`);
     const raw = await res.json();
 
-    const rows = (Array.isArray(raw) ? raw : []).map((r: any) => {
+    const rows: Row[] = (Array.isArray(raw) ? raw : []).map((r: any) => {
       const shares =
         num(r.shares) ??
         num(r.share) ??
@@ -152,7 +185,7 @@ export async function GET(req: Request) {
     });
 
     cacheSet(cacheKey, filtered);
-    return NextResponse.json({ ok: true, rows: filtered });
+    return respond(filtered);
   } catch (e: any) {
     return NextResponse.json(
       { ok: false, error: e?.message || "Unexpected error" },
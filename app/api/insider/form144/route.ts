@@ -0,0 +1,70 @@
+// app/api/insider/form144/route.ts
+import { NextResponse } from "next/server";
+import { exportFormat, exportResponse } from "@/lib/export";
+import { FORM144_EXPORT_COLUMNS, loadForm144 } from "@/lib/form144";
+import { prisma } from "@/lib/prisma";
+import { mapLimit } from "@/lib/sec";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_PARSED = 50;
+// a download parses every notice in one request, so it gets a larger (but still bounded) budget
+const MAX_EXPORTED = 200;
+
+/**
+ * Newest Form 144 notices of proposed sale across all issuers, from the
+ * ingested EDGAR index (see /api/filings/ingest). For one issuer with the
+ * matching Form 4 sales, use /api/insider?symbol=...&form144=1 instead.
+ *
+ *   ?limit=25&page=1
+ *   ?start=YYYY-MM-DD&end=YYYY-MM-DD   filing date range
+ *   ?format=csv|xlsx|ndjson            download the newest 200 in the range instead
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(MAX_PARSED, parseInt(searchParams.get("limit") || "25", 10) || 25));
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1);
+    const start = (searchParams.get("start") || "").trim();
+    const end = (searchParams.get("end") || "").trim();
+    const format = exportFormat(searchParams);
+
+    const where: any = { form: { in: ["144", "144/A"] } };
+    if (start || end) where.filed = { ...(start ? { gte: start } : {}), ...(end ? { lte: end } : {}) };
+    const filings = await prisma.edgarFiling.findMany({
+      where,
+      // one row per notice, not per listed party
+      distinct: ["accessionNumber"],
+      orderBy: [{ filed: "desc" }, { accessionNumber: "desc" }],
+      skip: format ? 0 : (page - 1) * limit,
+      take: format ? MAX_EXPORTED : limit,
+    });
+    if (!filings.length && page === 1 && !format) {
+      return NextResponse.json({
+        ok: true, count: 0, page, data: [],
+        meta: { note: "No Form 144 filings in the index for this range; run /api/filings/ingest first." },
+      });
+    }
+
+    const notices = await mapLimit(filings, 4, (f: any) =>
+      loadForm144(f.cik, { accessionNumber: f.accessionNumber, filedAt: f.filed }).catch(() => null)
+    );
+    const data = notices.filter((n): n is NonNullable<typeof n> => !!n);
+    if (format) return exportResponse(format, "form144", FORM144_EXPORT_COLUMNS, data);
+
+    return NextResponse.json({
+      ok: true,
+      count: data.length,
+      page,
+      hasMore: filings.length === limit,
+      unreadable: filings.length - data.length,
+      data,
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { ok: false, error: e?.message || "Unexpected server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,21 @@
 // app/api/insider/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
+import { FORM144_EXPORT_COLUMNS, issuerNoticeFilings, linkSales, loadForm144 } from "@/lib/form144";
+import {
+  applyAmendments,
+  codeText,
+  mapCodeToAD,
+  parseOwnershipXml,
+  rawOwnershipDoc,
+  type InsiderRow,
+  type OwnershipDoc,
+} from "@/lib/ownership";
+import { buildOpenUrl, mapLimit, normalizeCIK, recentFilings, secFetch, type RecentFiling } from "@/lib/sec";
+import { loadTickers } from "@/lib/tickers";
 
 const FMP_API_KEY = process.env.FMP_API_KEY || "";
 
-/** Normalized row we return to the client */
-type InsiderRow = {
-  source: "fmp" | "sec";
-  insider: string;
-  insiderTitle?: string;
-  issuer: string;
-  symbol?: string;
-  cik?: string;
-  filedAt?: string;
-  transDate?: string;
-
-  /** Derived from transactionCode when possible */
-  txnType?: "A" | "D";
-
-  /** Raw SEC transaction code & a short description */
-  transactionCode?: string;
-  transactionText?: string;
-
-  /** Table I (Non-derivative) or Table II (Derivative) */
-  table?: "I" | "II";
-  /** Security title (e.g., Common Stock, RSU, Option (Right to Buy)) */
-  security?: string;
-
-  /** Amount / economics */
-  shares?: number;
-  price?: number;
-  value?: number;
-  ownedAfter?: number;
-
-  /** Links */
-  formUrl?: string;
-  indexUrl?: string;
-};
-
 // ---------- helpers ----------
 function json(data: any, init?: ResponseInit) {
   return NextResponse.json(data, init);
@@ -67,51 +46,149 @@ function buildSecUrls(cik?: string, accNoRaw?: string) {
   };
 }
 
-/** Map SEC transaction codes to A/D where it makes sense */
-function mapCodeToAD(code?: string): "A" | "D" | undefined {
-  if (!code) return undefined;
-  const c = code.toUpperCase();
-  // Common mappings (SEC Form 4 Transaction Codes)
-  // P=Open Market Purchase -> A, S=Sale -> D, A=Grant -> A, D=Disposition -> D,
-  // F=Tax Withholding -> D, M=Option Exercise (derivative -> non-derivative) -> A for the acquired common,
-  // G=Gift (n/a), X=Conversion (contextual), C=Conversion (contextual)
-  if (c === "P" || c === "A" || c === "M") return "A";
-  if (c === "S" || c === "D" || c === "F") return "D";
-  return undefined; // leave blank for things like G, X, C, etc.
+const EXPORT_COLUMNS: ExportColumn<InsiderRow>[] = [
+  { key: "filedAt", label: "Filed" },
+  { key: "transDate", label: "Transaction date" },
+  { key: "insider", label: "Insider" },
+  { key: "insiderTitle", label: "Title" },
+  { key: "issuer", label: "Issuer" },
+  { key: "symbol", label: "Symbol" },
+  { key: "cik", label: "Issuer CIK" },
+  { key: "formType", label: "Form" },
+  { key: "transactionCode", label: "Code" },
+  { key: "transactionText", label: "Transaction" },
+  { key: "txnType", label: "Acquired / disposed" },
+  { key: "table", label: "Table" },
+  { key: "security", label: "Security" },
+  { key: "shares", label: "Shares" },
+  { key: "price", label: "Price" },
+  { key: "value", label: "Value" },
+  { key: "ownedAfter", label: "Owned after" },
+  { key: "ownership", label: "Direct / indirect" },
+  { key: "ownershipNature", label: "Nature of ownership" },
+  { key: "underlyingSecurity", label: "Underlying security" },
+  { key: "underlyingShares", label: "Underlying shares" },
+  { key: "exercisePrice", label: "Exercise price" },
+  { key: "expirationDate", label: "Expiration date" },
+  { key: "form144", label: "Form 144 notice" },
+  { key: "footnotes", label: "Footnotes" },
+  { key: "accessionNumber", label: "Accession number" },
+  { key: "formUrl", label: "Form URL" },
+  { key: "source", label: "Source" },
+];
+
+// Every ownership doc is its own SEC request; keep the fan-out bounded
+const SEC_MAX_FILINGS = 40; // uncached docs per request
+const SEC_EXPORT_MAX_FILINGS = 200; // per download; the rest are reported as left out
+const SEC_BATCH = 10;
+const OWNERSHIP_FORMS = ["3", "4", "5", "3/A", "4/A", "5/A"];
+
+// Filings are immutable, so parsed docs are kept per accession
+const DOC_CACHE = new Map<string, OwnershipDoc & { filedAt?: string }>();
+const MAX_DOC_CACHE = 1000;
+
+async function resolveIssuerCik(symbol: string): Promise<string | null> {
+  if (/^(CIK)?\d+$/i.test(symbol)) return normalizeCIK(symbol);
+  const key = symbol.toUpperCase().replace(/[.\-\s]/g, "");
+  const rows = await loadTickers();
+  return rows.find((r) => r.ticker.replace(/[.\-]/g, "") === key)?.cik || null;
 }
 
-/** Short, friendly description for codes */
-function codeText(code?: string): string | undefined {
-  if (!code) return undefined;
-  const c = code.toUpperCase();
-  const map: Record<string, string> = {
-    P: "Open market purchase",
-    S: "Sale",
-    A: "Award/Grant",
-    D: "Disposition (other)",
-    F: "Tax withholding",
-    M: "Option exercise",
-    G: "Gift",
-    X: "Conversion (derivative)",
-    C: "Conversion",
+type ParsedDoc = OwnershipDoc & { filedAt?: string };
+
+async function loadOwnershipDoc(cik10: string, f: RecentFiling): Promise<ParsedDoc | null> {
+  const hit = DOC_CACHE.get(f.accessionNumber);
+  if (hit) return hit;
+  const xmlName = rawOwnershipDoc(f.primaryDocument!);
+  const r = await secFetch(buildOpenUrl(cik10, f.accessionNumber, xmlName), {
+    headers: { Accept: "application/xml,text/xml,*/*" },
+  });
+  if (!r.ok) return null;
+  const doc = {
+    ...parseOwnershipXml(await r.text(), {
+      accessionNumber: f.accessionNumber,
+      filedAt: f.filingDate,
+      formUrl: buildOpenUrl(cik10, f.accessionNumber, f.primaryDocument),
+      indexUrl: buildOpenUrl(cik10, f.accessionNumber),
+    }),
+    filedAt: f.filingDate,
   };
-  return map[c] || undefined;
+  if (DOC_CACHE.size >= MAX_DOC_CACHE) DOC_CACHE.delete(DOC_CACHE.keys().next().value as string);
+  DOC_CACHE.set(f.accessionNumber, doc);
+  return doc;
 }
 
-/** VERY light SEC fallback: just give a search pointer if FMP is empty */
-async function fetchFromSEC(symbol?: string) {
+/**
+ * Native SEC path: the issuer's Form 3/4/5 filings, parsed from their
+ * ownership XML newest first until `page` of `perPage` rows is filled. Later
+ * pages re-read the earlier filings from DOC_CACHE, so only the new ones
+ * count against `maxFilings`.
+ */
+async function fetchFromSEC(params: {
+  symbol?: string;
+  start?: string;
+  end?: string;
+  txnType?: "ALL" | "A" | "D";
+  page?: number;
+  perPage?: number;
+  maxFilings?: number;
+}) {
+  const { symbol, start, end, txnType = "ALL", page = 1, perPage = 50, maxFilings = SEC_MAX_FILINGS } = params;
   if (!symbol) return { rows: [], meta: { source: "sec", note: "no symbol" } };
-  const q = encodeURIComponent(`${symbol} form 4`);
-  const searchUrl = `https://www.sec.gov/edgar/search/#/category=custom&forms=4&q=${q}`;
-  const row: InsiderRow = {
-    source: "sec",
-    insider: "—",
-    issuer: "—",
-    symbol,
-    formUrl: searchUrl,
-    indexUrl: searchUrl,
+
+  const cik10 = await resolveIssuerCik(symbol);
+  if (!cik10) return { rows: [], meta: { source: "sec", note: `unknown symbol ${symbol}` } };
+
+  const recent = (await recentFilings(cik10)) || [];
+  const filings = recent
+    .filter((f) => OWNERSHIP_FORMS.includes(f.form.toUpperCase()) && f.primaryDocument)
+    .filter((f) => (!start || f.filingDate >= start) && (!end || f.filingDate <= end));
+
+  const parsed: ParsedDoc[] = [];
+  let current: ParsedDoc[] = [];
+  let rows: InsiderRow[] = [];
+  let read = 0;
+  let fetched = 0;
+  while (read < filings.length && rows.length < page * perPage && fetched < maxFilings) {
+    const batch = filings.slice(read, read + SEC_BATCH);
+    read += batch.length;
+    fetched += batch.filter((f) => !DOC_CACHE.has(f.accessionNumber)).length;
+    const docs = await mapLimit(batch, 4, (f) => loadOwnershipDoc(cik10, f));
+    parsed.push(...docs.filter((d): d is ParsedDoc => !!d));
+    current = applyAmendments(parsed);
+    rows = current.flatMap((d) => d.rows);
+    if (txnType !== "ALL") rows = rows.filter((r) => r.txnType === txnType);
+  }
+  rows.sort((a, b) => ((a.transDate || a.filedAt || "") < (b.transDate || b.filedAt || "") ? 1 : -1));
+  const pageRows = rows.slice((page - 1) * perPage, page * perPage);
+
+  return {
+    rows: pageRows,
+    meta: {
+      source: "sec",
+      count: pageRows.length,
+      page,
+      perPage,
+      hasMore: rows.length > page * perPage || read < filings.length,
+      filings: read,
+      available: filings.length,
+      superseded: parsed.length - current.length,
+    },
   };
-  return { rows: [row], meta: { source: "sec", note: "search pointer" } };
+}
+
+// Same bound for Form 144 notices
+const SEC_MAX_NOTICES = 40;
+
+/** The issuer's Form 144 notices in the window, with matching Form 4 sales attached to both sides */
+async function form144Notices(symbol: string, rows: InsiderRow[], start?: string, end?: string) {
+  const cik10 = await resolveIssuerCik(symbol);
+  if (!cik10) return { notices: [], available: 0 };
+  const all = await issuerNoticeFilings(cik10, start, end);
+  const notices = await mapLimit(all.slice(0, SEC_MAX_NOTICES), 4, (f) =>
+    loadForm144(cik10, { accessionNumber: f.accessionNumber, filedAt: f.filingDate, primaryDocument: f.primaryDocument }).catch(() => null)
+  );
+  return { notices: linkSales(notices.filter((n): n is NonNullable<typeof n> => !!n), rows), available: all.length };
 }
 
 /** FMP primary fetch + normalization */
@@ -232,10 +309,27 @@ async function fetchFromFMP(params: {
 
   return {
     rows,
-    meta: { source: "fmp", count: rows.length, page, perPage },
+    meta: { source: "fmp", count: rows.length, page, perPage, fetched: arr.length },
   };
 }
 
+// Downloads page through FMP up to this many rows
+const FMP_PAGE_SIZE = 100;
+const FMP_EXPORT_MAX_PAGES = 50;
+
+/** Every FMP row for the query (pages are 0-based), until a short page or the cap */
+async function fetchAllFromFMP(params: { symbol?: string; start?: string; end?: string; txnType?: "ALL" | "A" | "D" }) {
+  const rows: InsiderRow[] = [];
+  for (let page = 0; page < FMP_EXPORT_MAX_PAGES; page++) {
+    const r = await fetchFromFMP({ ...params, page, perPage: FMP_PAGE_SIZE });
+    rows.push(...r.rows);
+    if ((r.meta.fetched || 0) < FMP_PAGE_SIZE) {
+      return { rows, meta: { source: "fmp", count: rows.length, pages: page + 1, hasMore: false } };
+    }
+  }
+  return { rows, meta: { source: "fmp", count: rows.length, pages: FMP_EXPORT_MAX_PAGES, hasMore: true } };
+}
+
 // ---------- Handler ----------
 export async function GET(req: NextRequest) {
   try {
@@ -250,13 +344,53 @@ export async function GET(req: NextRequest) {
     const page = Number(searchParams.get("page") || "1") || 1;
     const perPage = Math.min(200, Number(searchParams.get("perPage") || "50") || 50);
 
-    // 1) FMP primary
-    const fmp = await fetchFromFMP({ symbol, start, end, txnType, page, perPage });
-    if (fmp.rows.length > 0) return json({ ok: true, rows: fmp.rows, meta: fmp.meta });
-
-    // 2) SEC fallback (pointer)
-    const sec = await fetchFromSEC(symbol);
-    return json({ ok: true, rows: sec.rows, meta: sec.meta });
+    const source = (searchParams.get("source") || "").toLowerCase(); // "sec" skips FMP
+    const with144 = searchParams.get("form144") === "1"; // also return Form 144 notices
+    const format = exportFormat(searchParams); // download the rows (or, with form144=1, the notices)
+
+    // 1) FMP primary; a download pages through every result, not one page
+    let result: { rows: InsiderRow[]; meta: any } | null = null;
+    if (source !== "sec") {
+      const fmp = format
+        ? await fetchAllFromFMP({ symbol, start, end, txnType })
+        : await fetchFromFMP({ symbol, start, end, txnType, page, perPage });
+      if (fmp.rows.length > 0) result = fmp;
+    }
+
+    // 2) SEC fallback: parse the ownership XML ourselves
+    // a download takes every row the SEC path reaches within SEC_EXPORT_MAX_FILINGS
+    if (!result) {
+      result = await fetchFromSEC(
+        format
+          ? { symbol, start, end, txnType, page: 1, perPage: Number.MAX_SAFE_INTEGER, maxFilings: SEC_EXPORT_MAX_FILINGS }
+          : { symbol, start, end, txnType, page, perPage }
+      );
+    }
+
+    if (!with144 || !symbol) {
+      if (format) {
+        const m = result.meta;
+        const truncated = !m.hasMore
+          ? undefined
+          : m.source === "fmp"
+          ? `First ${m.count} rows only (FMP export cap of ${FMP_EXPORT_MAX_PAGES * FMP_PAGE_SIZE})`
+          : `Newest ${m.filings} of ${m.available} ownership filings only (SEC export cap of ${SEC_EXPORT_MAX_FILINGS})`;
+        return exportResponse(format, `insider-${symbol || "all"}`, EXPORT_COLUMNS, result.rows, truncated);
+      }
+      return json({ ok: true, rows: result.rows, meta: result.meta });
+    }
+    const { notices, available } = await form144Notices(symbol, result.rows, start, end);
+    if (format) {
+      const truncated =
+        available > SEC_MAX_NOTICES ? `Newest ${SEC_MAX_NOTICES} of ${available} Form 144 notices only (SEC cap per request)` : undefined;
+      return exportResponse(format, `form144-${symbol}`, FORM144_EXPORT_COLUMNS, notices, truncated);
+    }
+    return json({
+      ok: true,
+      rows: result.rows,
+      notices,
+      meta: { ...result.meta, notices: notices.length, linkedSales: result.rows.filter((r) => r.form144).length },
+    });
   } catch (e: any) {
     return err(e?.message || "Unexpected error", 500);
   }
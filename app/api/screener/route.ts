@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { exportFormat, exportResponse, type ExportColumn } from "@/lib/export";
 
 type Row = {
   symbol: string;
@@ -12,6 +13,21 @@ type Row = {
   dividendYield?: number;
 };
 
+const EXPORT_COLUMNS: ExportColumn<Row>[] = [
+  { key: "symbol", label: "Symbol" },
+  { key: "name", label: "Name" },
+  { key: "exchange", label: "Exchange" },
+  { key: "sector", label: "Sector" },
+  { key: "industry", label: "Industry" },
+  { key: "price", label: "Price" },
+  { key: "marketCap", label: "Market cap" },
+  { key: "pe", label: "P/E" },
+  { key: "dividendYield", label: "Dividend yield (%)" },
+];
+
+// rows requested from FMP for a download (every match, not one page)
+const EXPORT_API_LIMIT = 10000;
+
 function j(data: any, init?: ResponseInit) {
   return NextResponse.json(data, init);
 }
@@ -49,6 +65,7 @@ export async function GET(req: Request) {
     const limit = toInt(searchParams.get("limit"), 50);
     const page = toInt(searchParams.get("page"), 1);
     const sortRaw = (searchParams.get("sort") || "marketCap,desc").trim();
+    const format = exportFormat(searchParams);
 
     // sort parsing
     const [sortKey, sortDirRaw] = sortRaw.split(",").map((s) => s.trim());
@@ -62,7 +79,7 @@ export async function GET(req: Request) {
 
     // We’ll request more than we need and paginate locally for stability
     // (FMP screener doesn’t support page/offset)
-    const API_LIMIT = Math.max(limit * 4, 200);
+    const API_LIMIT = format ? EXPORT_API_LIMIT : Math.max(limit * 4, 200);
     fmp.searchParams.set("limit", String(API_LIMIT));
     fmp.searchParams.set("country", "US"); // constrain to US for cleaner results
     fmp.searchParams.set("apikey", FMP_API_KEY);
@@ -118,6 +135,12 @@ export async function GET(req: Request) {
       return sortDir === "asc" ? (av < bv ? -1 : 1) : (av > bv ? -1 : 1);
     });
 
+    if (format) {
+      const truncated =
+        (raw || []).length >= EXPORT_API_LIMIT ? `First ${EXPORT_API_LIMIT} screener results only (FMP request cap)` : undefined;
+      return exportResponse(format, "screener", EXPORT_COLUMNS, rows, truncated);
+    }
+
     // Paginate locally
     const start = (page - 1) * limit;
     const end = start + limit;
@@ -1,6 +1,8 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+import ExportButton from "../components/ExportButton";
 
 /** ------------------------------------------
  *  Minimal chart (brand-consistent, responsive)
@@ -235,6 +237,14 @@ export default function BEAPage() {
     }
   }
 
+  /** runQuery's request as a GET link with ?format= */
+  function exportHref(format: ExportFormat) {
+    const qs = new URLSearchParams({ dataset });
+    for (const [k, v] of Object.entries(params)) if (v) qs.set(k, v);
+    qs.set("format", format);
+    return `/api/bea/query?${qs.toString()}`;
+  }
+
   function ParamSelect({ name }: { name: string }) {
     const k = keyFor(dataset, name);
     const list = options[k] || [];
@@ -317,8 +327,11 @@ export default function BEAPage() {
                   <div className="text-lg font-semibold">{series.title}</div>
                   <div className="text-xs text-gray-600">Units: {series.units || "—"}</div>
                 </div>
-                <div className="text-xs text-gray-500">
-                  Observations: {series.data.length.toLocaleString()}
+                <div className="flex items-center gap-3">
+                  <div className="text-xs text-gray-500">
+                    Observations: {series.data.length.toLocaleString()}
+                  </div>
+                  <ExportButton href={exportHref} disabled={!series.data.length} />
                 </div>
               </div>
               <div className="mt-4">
@@ -2,6 +2,8 @@
 "use client";
 
 import * as React from "react";
+import type { ExportFormat } from "@/lib/export";
+import ExportButton from "../components/ExportButton";
 
 type Row = {
   date: string | null;
@@ -105,6 +107,13 @@ export default function CensusPage() {
     return () => controller.abort();
   }, [buildUrl, debouncedName, refreshKey]);
 
+  // every observation in the range, not just the first 1000 shown
+  const exportHref = (format: ExportFormat) => {
+    const url = new URL(buildUrl());
+    url.searchParams.set("format", format);
+    return url.toString();
+  };
+
   const onSearch = () => setRefreshKey((k) => k + 1);
   const onReset = () => {
     setName("Population");
@@ -179,6 +188,7 @@ export default function CensusPage() {
             <button onClick={onReset} disabled={loading} style={ghostBtn}>
               Reset
             </button>
+            <ExportButton href={exportHref} disabled={loading || !data?.length} />
           </div>
         </div>
 
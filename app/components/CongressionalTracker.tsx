@@ -1,6 +1,8 @@
 "use client";
 
 import * as React from "react";
+import type { ExportFormat } from "@/lib/export";
+import ExportButton from "./ExportButton";
 
 type Chamber = "senate" | "house" | "all";
 type Mode = "symbol" | "name";
@@ -132,6 +134,13 @@ export default function CongressionalTracker() {
     return () => controller.abort();
   }, [buildUrl, view, debouncedQuery, refreshKey]);
 
+  // Same query without the row limit, as a file
+  const exportHref = (format: ExportFormat) => {
+    const url = new URL(buildUrl());
+    url.searchParams.set("format", format);
+    return url.toString();
+  };
+
   // --- Buttons ---
   const onSearchClick = () => {
     // Trim the query and force a refetch now (ignores debounce wait)
@@ -324,6 +333,7 @@ export default function CongressionalTracker() {
           <button onClick={onResetClick} disabled={loading} style={ghostBtn}>
             Reset
           </button>
+          <ExportButton href={exportHref} disabled={loading || !data?.length} />
         </div>
       </div>
 
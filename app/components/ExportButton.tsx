@@ -0,0 +1,94 @@
+// app/components/ExportButton.tsx
+"use client";
+
+import * as React from "react";
+import type { ExportFormat } from "@/lib/export";
+
+const FORMATS: { key: ExportFormat; label: string }[] = [
+  { key: "csv", label: "CSV" },
+  { key: "xlsx", label: "Excel (.xlsx)" },
+  { key: "ndjson", label: "NDJSON" },
+];
+
+// EXPORT_NOTE_HEADER in lib/export.ts (not imported: that module is server-side)
+const NOTE_HEADER = "X-Export-Note";
+
+/**
+ * "Export" menu for a data table. `href` is the table's API URL with
+ * ?format= set; the route answers with the full filtered result set, not
+ * just the page on screen. A route that stopped at a cap says so in a header,
+ * shown under the button.
+ */
+export default function ExportButton({
+  href,
+  disabled = false,
+  className = "",
+}: {
+  href: (format: ExportFormat) => string;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const [busy, setBusy] = React.useState<ExportFormat | null>(null);
+  const [err, setErr] = React.useState<string | null>(null);
+  const [note, setNote] = React.useState<string | null>(null);
+
+  async function download(format: ExportFormat) {
+    setOpen(false);
+    setBusy(format);
+    setErr(null);
+    setNote(null);
+    try {
+      const r = await fetch(href(format), { cache: "no-store" });
+      if (!r.ok) {
+        const j = await r.json().catch(() => null);
+        throw new Error(j?.error || `Export failed (${r.status})`);
+      }
+      const name = r.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] || `export.${format}`;
+      const url = URL.createObjectURL(await r.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(url);
+      setNote(r.headers.get(NOTE_HEADER));
+    } catch (e: any) {
+      setErr(e?.message || "Export failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className={`relative inline-block ${className}`} onMouseLeave={() => setOpen(false)}>
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        disabled={disabled || !!busy}
+        className="rounded-md border bg-white px-3 py-2 text-sm hover:bg-gray-50 disabled:opacity-60"
+        title="Download every row matching the current filters"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        {busy ? "Exporting…" : "Export ▾"}
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 top-full z-20 min-w-[150px] rounded-md border bg-white py-1 shadow">
+          {FORMATS.map((f) => (
+            <button
+              key={f.key}
+              type="button"
+              role="menuitem"
+              onClick={() => download(f.key)}
+              className="block w-full px-3 py-1.5 text-left text-sm hover:bg-gray-50"
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      )}
+      {err && <div className="absolute right-0 mt-1 whitespace-nowrap text-xs text-red-600">{err}</div>}
+      {note && !err && <div className="absolute right-0 mt-1 whitespace-nowrap text-xs text-amber-700">{note}</div>}
+    </div>
+  );
+}
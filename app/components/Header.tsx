@@ -7,6 +7,7 @@ import { useSession } from "next-auth/react";
 
 const nav = [
   { href: "/edgar", label: "EDGAR" },
+  { href: "/formd", label: "Form D" },
   { href: "/bls", label: "BLS" },
   { href: "/fred", label: "FRED" },
   { href: "/news", label: "News" },
@@ -2,9 +2,13 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+import type { Form144Notice } from "@/lib/form144";
+import ExportButton from "./ExportButton";
+import { useFilingStream, type FilingEvent } from "./useFilingStream";
 
 // ------- Types -------
-export type TxnFilter = "ALL" | "P" | "S" | "A" | "D";
+export type TxnFilter = "ALL" | "P" | "S" | "A" | "D" | "144";
 
 type Row = {
   date: string;
@@ -16,6 +20,9 @@ type Row = {
   price?: number;
   value?: number;
   link?: string;
+  /** Form 144 rows: planned sale date, broker, and the Form 4 that executed it */
+  detail?: string;
+  soldLink?: string;
 };
 
 // ------- Helpers -------
@@ -24,45 +31,40 @@ const fmtNum = (n?: number) =>
 const fmtUsd = (n?: number) =>
   typeof n === "number" && isFinite(n) ? `$${n.toLocaleString()}` : "—";
 
-function downloadCSV(filename: string, rows: Row[]) {
-  const headers = [
-    "date",
-    "insider",
-    "ticker",
-    "company",
-    "action",
-    "shares",
-    "price",
-    "value",
-    "link",
-  ];
-  const esc = (v: any) =>
-    `"${String(v ?? "").replace(/"/g, '""')}"`;
-  const body = rows
-    .map((r) =>
-      [
-        r.date,
-        r.insider,
-        r.ticker,
-        r.company,
-        r.action,
-        r.shares ?? "",
-        r.price ?? "",
-        r.value ?? "",
-        r.link ?? "",
-      ]
-        .map(esc)
-        .join(",")
-    )
-    .join("\n");
-  const csv = headers.join(",") + "\n" + body;
-  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
+/** A freshly accepted Form 4 from the live stream (trade details arrive with the filing) */
+function rowFromEvent(e: FilingEvent): Row {
+  const owner = e.entities.find((x) => /reporting/i.test(x.role));
+  return {
+    date: e.filed || e.accepted.slice(0, 10),
+    insider: owner?.name || "",
+    ticker: e.ticker || "",
+    company: e.company,
+    action: `${e.form} FILED`,
+    link: e.link,
+  };
+}
+
+/** A Form 144 notice as a tape row; value is the notice's aggregate market value */
+function rowFromNotice(n: Form144Notice, ticker: string): Row {
+  const sold = n.sales.reduce((s, x) => s + (x.shares || 0), 0);
+  return {
+    date: n.filedAt,
+    insider: n.seller + (n.relationship ? ` (${n.relationship})` : ""),
+    ticker,
+    company: n.issuer.name,
+    action: `144-PROPOSED${/\/A$/.test(n.formType) ? " /A" : ""}`,
+    shares: n.shares,
+    value: n.marketValue,
+    link: n.formUrl,
+    detail: [
+      n.approxSaleDate && `sale ~${n.approxSaleDate}`,
+      n.broker,
+      n.sales.length ? `${sold.toLocaleString()} sh sold on ${n.sales.length} Form 4 line${n.sales.length === 1 ? "" : "s"}` : "",
+    ]
+      .filter(Boolean)
+      .join(" • "),
+    soldLink: n.sales.find((x) => x.formUrl)?.formUrl,
+  };
 }
 
 // ------- Component -------
@@ -80,16 +82,52 @@ export default function InsiderTape() {
 
   // data state
   const [rows, setRows] = useState<Row[]>([]);
+  const [notices, setNotices] = useState<Row[]>([]);
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
+  const [live, setLive] = useState(false);
+
+  // the stream filters by the ticker's CIK, resolved once typing settles, so
+  // keystrokes don't reconnect it and partial tickers never reach the server
+  const [liveCik, setLiveCik] = useState<string | null>(null);
+  useEffect(() => {
+    const sym = ticker.trim().toUpperCase();
+    setLiveCik(null);
+    if (!live || !sym) return;
+    let stale = false;
+    const t = window.setTimeout(async () => {
+      try {
+        const r = await fetch(`/api/lookup/${encodeURIComponent(sym)}`, { cache: "no-store" });
+        const j = r.ok ? await r.json() : null;
+        const hit = j?.exact;
+        if (!stale && hit && ["exact-ticker", "share-class", "cik"].includes(hit.reason)) setLiveCik(hit.cik);
+      } catch {
+        // stays off until the ticker resolves
+      }
+    }, 400);
+    return () => {
+      stale = true;
+      window.clearTimeout(t);
+    };
+  }, [live, ticker]);
+
+  // live Form 4s are prepended instead of re-fetching the whole tape
+  const liveStatus = useFilingStream(
+    { enabled: live && (!ticker.trim() || !!liveCik), forms: ["4"], ciks: liveCik ? [liveCik] : [], backlog: 0 },
+    (e) => {
+      const row = rowFromEvent(e);
+      setRows((cur) => (cur.some((r) => r.link === row.link) ? cur : [row, ...cur]));
+    }
+  );
 
-  // pagination
+  // pagination (Form 144 notices are their own result set)
   const [page, setPage] = useState(1);
   const pageSize = 25;
-  const totalPages = Math.max(1, Math.ceil(rows.length / pageSize));
+  const base = filter === "144" ? notices : rows;
+  const totalPages = Math.max(1, Math.ceil(base.length / pageSize));
   const paged = useMemo(
-    () => rows.slice((page - 1) * pageSize, page * pageSize),
-    [rows, page]
+    () => base.slice((page - 1) * pageSize, page * pageSize),
+    [base, page]
   );
 
   // fetcher
@@ -117,11 +155,70 @@ export default function InsiderTape() {
     }
   }
 
+  // Form 144 notices: one issuer (linked to its Form 4 sales) or all issuers from the index
+  async function fetchNotices() {
+    setLoading(true);
+    setErr(null);
+    setPage(1);
+    try {
+      const sym = ticker.trim().toUpperCase();
+      const q = new URLSearchParams();
+      if (from) q.set("start", from);
+      if (to) q.set("end", to);
+      let url = `/api/insider/form144?${q.toString()}&limit=50`;
+      if (sym) {
+        q.set("symbol", sym);
+        q.set("source", "sec");
+        q.set("form144", "1");
+        url = `/api/insider?${q.toString()}`;
+      }
+      const res = await fetch(url, { cache: "no-store" });
+      const j = await res.json();
+      if (!res.ok || j.ok === false) throw new Error(j.error || "Fetch failed");
+      const list: Form144Notice[] = (sym ? j.notices : j.data) || [];
+      setNotices(list.map((n) => rowFromNotice(n, sym)));
+    } catch (e: any) {
+      setErr(e?.message || "Unexpected error");
+      setNotices([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** Same queries as fetchRows / fetchNotices, as a download of every matching row */
+  function exportHref(format: ExportFormat) {
+    const sym = ticker.trim().toUpperCase();
+    const q = new URLSearchParams();
+    if (filter === "144") {
+      if (from) q.set("start", from);
+      if (to) q.set("end", to);
+      q.set("format", format);
+      if (!sym) return `/api/insider/form144?${q.toString()}`;
+      q.set("symbol", sym);
+      q.set("source", "sec");
+      q.set("form144", "1");
+      return `/api/insider?${q.toString()}`;
+    }
+    if (sym) q.set("ticker", sym);
+    if (insider.trim()) q.set("insider", insider.trim());
+    if (from) q.set("from", from);
+    if (to) q.set("to", to);
+    if (filter !== "ALL") q.set("action", filter);
+    q.set("format", format);
+    return `/api/insider/activity?${q.toString()}`;
+  }
+
+  useEffect(() => {
+    if (filter === "144") fetchNotices();
+    else setPage(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filter]);
+
   // debounced auto-search when fields change (except dates)
   const debounceRef = useRef<number | null>(null);
   useEffect(() => {
     if (debounceRef.current) window.clearTimeout(debounceRef.current);
-    debounceRef.current = window.setTimeout(() => fetchRows(), 400);
+    debounceRef.current = window.setTimeout(() => (filter === "144" ? fetchNotices() : fetchRows()), 400);
     return () => {
       if (debounceRef.current) window.clearTimeout(debounceRef.current);
     };
@@ -181,7 +278,7 @@ export default function InsiderTape() {
 
           <div className="flex items-end gap-2">
             <button
-              onClick={fetchRows}
+              onClick={() => (filter === "144" ? fetchNotices() : fetchRows())}
               className="rounded-md bg-black px-4 py-2 text-sm text-white"
             >
               {loading ? "Loading…" : "Search"}
@@ -196,30 +293,27 @@ export default function InsiderTape() {
                 setTo(new Date().toISOString().slice(0, 10));
                 setFilter("ALL");
                 setRows([]);
+                setNotices([]);
               }}
               className="rounded-md border px-4 py-2 text-sm"
             >
               Reset
             </button>
+            <ExportButton href={exportHref} disabled={!base.length} />
             <button
-              onClick={() =>
-                downloadCSV(
-                  `insider_${ticker || "all"}_${from}_${to}.csv`,
-                  rows
-                )
-              }
-              disabled={!rows.length}
-              className="rounded-md border px-3 py-2 text-sm disabled:opacity-60"
-              title="Export the current result set"
+              onClick={() => setLive((v) => !v)}
+              className={`rounded-md border px-3 py-2 text-sm ${live ? "bg-black text-white" : ""}`}
+              title="Prepend new Form 4 filings as EDGAR accepts them"
+              aria-pressed={live}
             >
-              Export CSV
+              {live ? (liveStatus === "live" ? "● Live" : "Connecting…") : "Live"}
             </button>
           </div>
         </div>
 
         {/* quick filters */}
         <div className="mt-3 flex flex-wrap gap-2">
-          {(["ALL", "P", "S", "A", "D"] as TxnFilter[]).map((t) => (
+          {(["ALL", "P", "S", "A", "D", "144"] as TxnFilter[]).map((t) => (
             <button
               key={t}
               onClick={() => setFilter(t)}
@@ -237,10 +331,12 @@ export default function InsiderTape() {
                   ? "Awards"
                   : t === "D"
                   ? "Returns"
+                  : t === "144"
+                  ? "Form 144 notices of proposed sale"
                   : "All"
               }
             >
-              {t === "ALL" ? "All" : t}
+              {t === "ALL" ? "All" : t === "144" ? "Form 144" : t}
             </button>
           ))}
         </div>
@@ -275,7 +371,15 @@ export default function InsiderTape() {
                   </td>
                   <td className="px-3 py-2">{r.ticker || "—"}</td>
                   <td className="px-3 py-2">{r.company || "—"}</td>
-                  <td className="px-3 py-2">{r.action || "—"}</td>
+                  <td className="px-3 py-2">
+                    {r.action || "—"}
+                    {r.detail && <div className="text-xs text-gray-500">{r.detail}</div>}
+                    {r.soldLink && (
+                      <a className="text-xs text-blue-600 underline" href={r.soldLink} target="_blank" rel="noreferrer">
+                        Form 4
+                      </a>
+                    )}
+                  </td>
                   <td className="px-3 py-2 text-right">
                     {fmtNum(r.shares as any)}
                   </td>
@@ -312,10 +416,10 @@ export default function InsiderTape() {
         </div>
 
         {/* Pagination */}
-        {rows.length > pageSize && (
+        {base.length > pageSize && (
           <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
             <div className="text-gray-600">
-              Page {page} / {totalPages} • {rows.length.toLocaleString()} rows
+              Page {page} / {totalPages} • {base.length.toLocaleString()} rows
             </div>
             <div className="flex gap-2">
               <button
@@ -0,0 +1,199 @@
+// app/components/InstitutionalHolders.tsx
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { Holder } from "@/lib/institutional";
+
+// ------- Types -------
+type ApiResult = {
+  ok: boolean;
+  cik: string;
+  ticker?: string;
+  name?: string;
+  period?: string;
+  priorPeriod?: string;
+  totals: { holders: number; shares: number; value: number; exited: number; pending: number };
+  history: { period: string; shares: number; value: number; positions: number }[];
+  total: number;
+  page: number;
+  perPage: number;
+  data: Holder[];
+};
+
+// ------- Helpers -------
+const fmtNum = (n?: number) =>
+  typeof n === "number" && isFinite(n) ? n.toLocaleString() : "—";
+
+function fmtUsdCompact(n?: number) {
+  if (typeof n !== "number" || !isFinite(n)) return "—";
+  if (Math.abs(n) >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
+  if (Math.abs(n) >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  return `$${n.toLocaleString()}`;
+}
+
+const STATUS_STYLE: Record<Holder["status"], string> = {
+  new: "bg-green-100 text-green-800",
+  added: "bg-green-50 text-green-700",
+  reduced: "bg-amber-50 text-amber-800",
+  exited: "bg-red-50 text-red-700",
+  unchanged: "bg-gray-50 text-gray-600",
+};
+
+const PER_PAGE = 50;
+
+// ------- Component -------
+/** "Who owns this ticker": 13F filers in the latest loaded quarter */
+export default function InstitutionalHolders() {
+  const [ticker, setTicker] = useState("");
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function fetchHolders(page = 1) {
+    const sym = ticker.trim().toUpperCase();
+    if (!sym) return;
+    setLoading(true);
+    setErr(null);
+    try {
+      const q = new URLSearchParams({ symbol: sym, page: String(page), perPage: String(PER_PAGE) });
+      const res = await fetch(`/api/13f/holders?${q.toString()}`, { cache: "no-store" });
+      const j = await res.json();
+      if (!res.ok || j.ok === false) throw new Error(j.error || "Fetch failed");
+      setData(j);
+    } catch (e: any) {
+      setErr(e?.message || "Unexpected error");
+      setData(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const maxShares = Math.max(1, ...(data?.history || []).map((h) => h.shares));
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.perPage)) : 1;
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <section className="rounded-2xl border bg-white p-4 md:p-5">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Ticker</div>
+            <input
+              value={ticker}
+              onChange={(e) => setTicker(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && fetchHolders(1)}
+              placeholder="e.g., AAPL"
+              className="w-40 rounded-md border px-3 py-2"
+            />
+          </div>
+          <button onClick={() => fetchHolders(1)} className="rounded-md bg-black px-4 py-2 text-sm text-white">
+            {loading ? "Loading…" : "Show holders"}
+          </button>
+          {data && (
+            <div className="text-sm text-gray-600">
+              {data.name || data.ticker} • {data.period} vs. {data.priorPeriod || "—"} •{" "}
+              {fmtNum(data.totals.holders)} holders • {fmtNum(data.totals.shares)} shares •{" "}
+              {fmtUsdCompact(data.totals.value)}
+              {data.totals.pending > 0 && ` • ${data.totals.pending} filers not yet reported this quarter`}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {err && (
+        <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {err}
+        </div>
+      )}
+
+      {/* Institutional shares over time */}
+      {data && data.history.length > 0 && (
+        <section className="rounded-2xl border bg-white p-4">
+          <div className="mb-2 text-sm font-medium">Institutional shares by quarter</div>
+          <div className="flex h-32 items-end gap-2">
+            {data.history.map((h) => (
+              <div key={h.period} className="flex flex-1 flex-col items-center gap-1" title={`${h.period}: ${fmtNum(h.shares)} shares in ${h.positions} positions`}>
+                <div className="w-full rounded-t bg-gray-800" style={{ height: `${(h.shares / maxShares) * 100}%` }} />
+                <div className="text-[10px] text-gray-500">{h.period.slice(0, 7)}</div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Table */}
+      {data && (
+        <section className="rounded-2xl border bg-white">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+                <tr>
+                  <th className="px-3 py-2">Filer</th>
+                  <th className="px-3 py-2 text-right">Shares</th>
+                  <th className="px-3 py-2 text-right">Value</th>
+                  <th className="px-3 py-2 text-right">Change</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.data.map((h, i) => (
+                  <tr key={h.filerCik} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                    <td className="px-3 py-2 font-medium text-gray-900">
+                      <Link href={`/edgar/${h.filerCik}/13f`} className="hover:underline">
+                        {h.filerName}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {fmtNum(h.status === "exited" ? h.priorShares : h.shares)}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(h.value)}</td>
+                    <td className={`px-3 py-2 text-right tabular-nums ${h.shareChange < 0 ? "text-red-700" : h.shareChange > 0 ? "text-green-700" : ""}`}>
+                      {h.shareChange > 0 ? "+" : ""}
+                      {fmtNum(h.shareChange)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLE[h.status]}`}>{h.status}</span>
+                    </td>
+                  </tr>
+                ))}
+                {!data.data.length && (
+                  <tr>
+                    <td className="px-3 py-6 text-center text-sm text-gray-500" colSpan={5}>
+                      No 13F holders loaded for this ticker.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {data.total > data.perPage && (
+            <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
+              <div className="text-gray-600">
+                Page {data.page} / {totalPages} • {data.total.toLocaleString()} filers
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => fetchHolders(data.page - 1)}
+                  disabled={loading || data.page === 1}
+                  className="rounded-md border px-3 py-1 disabled:opacity-50"
+                >
+                  Prev
+                </button>
+                <button
+                  onClick={() => fetchHolders(data.page + 1)}
+                  disabled={loading || data.page === totalPages}
+                  className="rounded-md border px-3 py-1 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
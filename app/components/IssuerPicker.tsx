@@ -3,7 +3,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 
-type Issuer = { cik: string; ticker: string; name: string };
+type Issuer = { cik: string; ticker: string; name: string; exchange?: string };
 
 export default function IssuerPicker({
   open,
@@ -23,7 +23,7 @@ export default function IssuerPicker({
   const [loading, setLoading] = useState(false);
 
   const perPage = 50;
-  const debouncedQ = useDebounce(q, 250);
+  const debouncedQ = useDebounce(q, 150);
 
   useEffect(() => { setPage(1); }, [debouncedQ]);
 
@@ -71,7 +71,7 @@ export default function IssuerPicker({
         <div className="flex items-center justify-between border-b p-4">
           <div>
             <h3 className="text-base font-semibold">Find CIK / Ticker</h3>
-            <p className="text-xs text-gray-500">Search the full SEC issuer list by name, ticker, or CIK.</p>
+            <p className="text-xs text-gray-500">Search the full SEC issuer list by name, ticker, or CIK. Close misspellings still match.</p>
           </div>
           <button
             onClick={onClose}
@@ -105,7 +105,8 @@ export default function IssuerPicker({
                   <div className="min-w-0">
                     <div className="truncate font-medium">{r.name}</div>
                     <div className="text-xs text-gray-500">
-                      Ticker: <span className="font-mono">{r.ticker || "—"}</span> · CIK:{" "}
+                      Ticker: <span className="font-mono">{r.ticker || "—"}</span>
+                      {r.exchange && <> · {r.exchange}</>} · CIK:{" "}
                       <span className="font-mono">{r.cik}</span>
                     </div>
                   </div>
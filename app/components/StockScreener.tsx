@@ -0,0 +1,288 @@
+// app/components/StockScreener.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+import ExportButton from "./ExportButton";
+
+type Row = {
+  symbol: string;
+  name: string;
+  exchange?: string;
+  sector?: string;
+  industry?: string;
+  price?: number;
+  marketCap?: number;
+  pe?: number;
+  dividendYield?: number;
+};
+
+type Filters = {
+  search: string;
+  exchange: string;
+  sector: string;
+  marketCapMin: string;
+  peMax: string;
+  sort: string;
+};
+
+const EXCHANGES = ["", "NASDAQ", "NYSE", "AMEX"];
+const SECTORS = [
+  "",
+  "Technology",
+  "Healthcare",
+  "Financial Services",
+  "Consumer Cyclical",
+  "Consumer Defensive",
+  "Industrials",
+  "Energy",
+  "Utilities",
+  "Real Estate",
+  "Basic Materials",
+  "Communication Services",
+];
+const SORTS: { key: string; label: string }[] = [
+  { key: "marketCap,desc", label: "Market cap ↓" },
+  { key: "price,desc", label: "Price ↓" },
+  { key: "pe,asc", label: "P/E ↑" },
+  { key: "dividendYield,desc", label: "Dividend yield ↓" },
+];
+const PAGE_SIZE = 50;
+
+const fmtNum = (n?: number, digits = 2) =>
+  typeof n === "number" && isFinite(n) ? n.toLocaleString(undefined, { maximumFractionDigits: digits }) : "—";
+const fmtCap = (n?: number) => {
+  if (typeof n !== "number" || !isFinite(n)) return "—";
+  if (n >= 1e12) return `$${(n / 1e12).toFixed(2)}T`;
+  if (n >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
+  if (n >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  return `$${n.toLocaleString()}`;
+};
+
+/** /api/screener query for the filters; the same query with ?format= is the download */
+function query(f: Filters, page: number, format?: ExportFormat) {
+  const q = new URLSearchParams();
+  if (f.search.trim()) q.set("search", f.search.trim());
+  if (f.exchange) q.set("exchange", f.exchange);
+  if (f.sector) q.set("sector", f.sector);
+  if (f.marketCapMin) q.set("marketCapMin", String(Number(f.marketCapMin) * 1e6));
+  if (f.peMax) q.set("peMax", f.peMax);
+  q.set("sort", f.sort);
+  if (format) q.set("format", format);
+  else {
+    q.set("page", String(page));
+    q.set("limit", String(PAGE_SIZE));
+  }
+  return `/api/screener?${q.toString()}`;
+}
+
+export default function StockScreener() {
+  const [filters, setFilters] = useState<Filters>({
+    search: "",
+    exchange: "",
+    sector: "",
+    marketCapMin: "",
+    peMax: "",
+    sort: "marketCap,desc",
+  });
+  const [applied, setApplied] = useState(filters);
+  const [page, setPage] = useState(1);
+
+  const [rows, setRows] = useState<Row[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stale = false;
+    (async () => {
+      setLoading(true);
+      setErr(null);
+      try {
+        const res = await fetch(query(applied, page), { cache: "no-store" });
+        const j = await res.json();
+        if (!res.ok || j.error) throw new Error(j.error || "Fetch failed");
+        if (stale) return;
+        setRows(Array.isArray(j.data) ? j.data : []);
+        setTotal(j.total || 0);
+        setNextPage(j.nextPage ?? null);
+      } catch (e: any) {
+        if (stale) return;
+        setErr(e?.message || "Unexpected error");
+        setRows([]);
+        setTotal(0);
+        setNextPage(null);
+      } finally {
+        if (!stale) setLoading(false);
+      }
+    })();
+    return () => {
+      stale = true;
+    };
+  }, [applied, page]);
+
+  const set = (k: keyof Filters) => (e: { target: { value: string } }) =>
+    setFilters((f) => ({ ...f, [k]: e.target.value }));
+
+  function apply() {
+    setApplied(filters);
+    setPage(1);
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <section className="rounded-2xl border bg-white p-4 md:p-5">
+        <div className="grid gap-3 md:grid-cols-[minmax(160px,1fr)_auto_auto_auto_auto_auto_auto]">
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Symbol or name</div>
+            <input
+              value={filters.search}
+              onChange={set("search")}
+              onKeyDown={(e) => e.key === "Enter" && apply()}
+              placeholder="e.g., AAPL"
+              className="w-full rounded-md border px-3 py-2"
+            />
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Exchange</div>
+            <select value={filters.exchange} onChange={set("exchange")} className="w-full rounded-md border px-3 py-2">
+              {EXCHANGES.map((x) => (
+                <option key={x} value={x}>
+                  {x || "Any"}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Sector</div>
+            <select value={filters.sector} onChange={set("sector")} className="w-full rounded-md border px-3 py-2">
+              {SECTORS.map((x) => (
+                <option key={x} value={x}>
+                  {x || "Any"}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Min cap ($M)</div>
+            <input
+              type="number"
+              min={0}
+              value={filters.marketCapMin}
+              onChange={set("marketCapMin")}
+              className="w-28 rounded-md border px-3 py-2"
+            />
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Max P/E</div>
+            <input
+              type="number"
+              min={0}
+              value={filters.peMax}
+              onChange={set("peMax")}
+              className="w-24 rounded-md border px-3 py-2"
+            />
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-700">Sort</div>
+            <select value={filters.sort} onChange={set("sort")} className="w-full rounded-md border px-3 py-2">
+              {SORTS.map((s) => (
+                <option key={s.key} value={s.key}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-end gap-2">
+            <button onClick={apply} className="rounded-md bg-black px-4 py-2 text-sm text-white">
+              {loading ? "Loading…" : "Screen"}
+            </button>
+            <ExportButton href={(format) => query(applied, 1, format)} disabled={loading || !rows.length} />
+          </div>
+        </div>
+      </section>
+
+      {/* Table */}
+      <section className="rounded-2xl border bg-white">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+              <tr>
+                <th className="px-3 py-2">Symbol</th>
+                <th className="px-3 py-2">Name</th>
+                <th className="px-3 py-2">Exchange</th>
+                <th className="px-3 py-2">Sector</th>
+                <th className="px-3 py-2 text-right">Price</th>
+                <th className="px-3 py-2 text-right">Market cap</th>
+                <th className="px-3 py-2 text-right">P/E</th>
+                <th className="px-3 py-2 text-right">Div. yield</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r, i) => (
+                <tr key={r.symbol} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                  <td className="px-3 py-2 font-medium text-gray-900">{r.symbol}</td>
+                  <td className="px-3 py-2">{r.name || "—"}</td>
+                  <td className="px-3 py-2 text-gray-700">{r.exchange || "—"}</td>
+                  <td className="px-3 py-2 text-gray-700">{r.sector || "—"}</td>
+                  <td className="px-3 py-2 text-right">{typeof r.price === "number" ? `$${fmtNum(r.price)}` : "—"}</td>
+                  <td className="px-3 py-2 text-right">{fmtCap(r.marketCap)}</td>
+                  <td className="px-3 py-2 text-right">{fmtNum(r.pe, 1)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {typeof r.dividendYield === "number" ? `${fmtNum(r.dividendYield)}%` : "—"}
+                  </td>
+                </tr>
+              ))}
+              {!rows.length && (
+                <tr>
+                  <td className="px-3 py-6 text-center text-sm text-gray-500" colSpan={8}>
+                    {loading ? "Loading…" : "No stocks match your filters."}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {(page > 1 || nextPage) && (
+          <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
+            <div className="text-gray-600">
+              Page {page} of {Math.max(1, Math.ceil(total / PAGE_SIZE))} • {total.toLocaleString()} matches
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page <= 1 || loading}
+                className="rounded-md border px-3 py-1 disabled:opacity-50"
+              >
+                Prev
+              </button>
+              <button
+                onClick={() => nextPage && setPage(nextPage)}
+                disabled={!nextPage || loading}
+                className="rounded-md border px-3 py-1 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {err && (
+        <div className="rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {err}
+        </div>
+      )}
+    </div>
+  );
+}
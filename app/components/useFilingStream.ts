@@ -0,0 +1,54 @@
+// app/components/useFilingStream.ts
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { FilingEvent } from "@/lib/currentFeed";
+
+export type { FilingEvent };
+
+type Options = {
+  enabled: boolean;
+  forms?: string[];
+  ciks?: string[]; // tickers or CIKs
+  backlog?: number;
+};
+
+/**
+ * Subscribe to /api/filings/stream. EventSource reconnects on its own and
+ * sends Last-Event-ID, so the server resumes after the last accession seen.
+ */
+export function useFilingStream({ enabled, forms = [], ciks = [], backlog }: Options, onFiling: (e: FilingEvent) => void) {
+  const [status, setStatus] = useState<"off" | "connecting" | "live" | "error">("off");
+  // keep the latest callback without reconnecting on every render
+  const cb = useRef(onFiling);
+  cb.current = onFiling;
+
+  const formsKey = forms.join(",");
+  const ciksKey = ciks.join(",");
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("off");
+      return;
+    }
+    const params = new URLSearchParams();
+    if (formsKey) params.set("forms", formsKey);
+    if (ciksKey) params.set("ciks", ciksKey);
+    if (backlog !== undefined) params.set("backlog", String(backlog));
+
+    setStatus("connecting");
+    const es = new EventSource(`/api/filings/stream?${params.toString()}`);
+    es.onopen = () => setStatus("live");
+    es.onerror = () => setStatus(es.readyState === EventSource.CLOSED ? "error" : "connecting");
+    es.addEventListener("filing", (m) => {
+      try {
+        cb.current(JSON.parse((m as MessageEvent).data));
+      } catch {
+        // ignore malformed frames
+      }
+    });
+    return () => es.close();
+  }, [enabled, formsKey, ciksKey, backlog]);
+
+  return status;
+}
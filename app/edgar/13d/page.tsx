@@ -0,0 +1,182 @@
+// app/edgar/13d/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+/** ------------ Types ------------ */
+type Row = {
+  accessionNumber: string;
+  form: string;
+  filed: string;
+  subject?: { cik: string; name: string };
+  filer?: { cik: string; name: string };
+  persons: string[];
+  percent?: number;
+  shares?: number;
+  eventDate?: string;
+  purpose?: string;
+  url?: string;
+};
+
+type ApiResult = { ok: boolean; count: number; page: number; hasMore?: boolean; data: Row[]; meta?: { note?: string } };
+
+const PER_PAGE = 25;
+
+/** ----------------------------------------------------------------------------
+ * Page: newest Schedule 13D filings across all issuers
+ * ---------------------------------------------------------------------------*/
+export default function Latest13DPage() {
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [page, setPage] = useState<number>(1);
+  const [amendments, setAmendments] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const qs = new URLSearchParams({ page: String(page), limit: String(PER_PAGE) });
+        if (amendments) qs.set("amendments", "1");
+        const r = await fetch(`/api/13d/latest?${qs.toString()}`, { cache: "no-store" });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Feed fetch failed (${r.status})`);
+        if (!aborted) setData(j);
+      } catch (e: any) {
+        if (!aborted) {
+          setData(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [page, amendments]);
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-8">
+      <Link href="/edgar" className="text-sm text-gray-600 hover:text-gray-900">
+        ← Back to EDGAR search
+      </Link>
+      <h1 className="mt-2 text-2xl font-semibold">New 13D filings</h1>
+      <p className="text-gray-600 text-sm mb-4">
+        Holders crossing 5% with intent to influence, newest first, from the EDGAR daily index.
+      </p>
+
+      <div className="mb-3 flex items-center gap-2">
+        {([false, true] as const).map((v) => (
+          <button
+            key={String(v)}
+            type="button"
+            onClick={() => {
+              setAmendments(v);
+              setPage(1);
+            }}
+            className={`text-xs rounded-full px-3 py-1 border ${
+              amendments === v ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+            }`}
+          >
+            {v ? "Include amendments" : "New only"}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {loading && <div className="text-sm text-gray-600">Loading… (cover pages are downloaded and parsed)</div>}
+      {data?.meta?.note && !loading && <div className="text-sm text-gray-600">{data.meta.note}</div>}
+
+      {data && !loading && (
+        <section className="overflow-x-auto rounded-2xl border bg-white">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+              <tr>
+                <th className="px-3 py-2">Filed</th>
+                <th className="px-3 py-2">Issuer</th>
+                <th className="px-3 py-2">Reporting person</th>
+                <th className="px-3 py-2 text-right">Percent</th>
+                <th className="px-3 py-2 text-right">Shares</th>
+                <th className="px-3 py-2">Purpose</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.data.map((r, i) => (
+                <tr key={r.accessionNumber} className={`align-top ${i % 2 ? "bg-white" : "bg-gray-50/40"}`}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {r.filed}
+                    <div className="text-xs text-gray-500">{r.form}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {r.subject ? (
+                      <Link href={`/edgar/${r.subject.cik}/13d`} className="font-medium hover:underline">
+                        {r.subject.name}
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    {r.filer?.name || r.persons[0] || "—"}
+                    {r.persons.length > 1 && (
+                      <div className="text-xs text-gray-500">+{r.persons.length - 1} more in group</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {typeof r.percent === "number" ? `${r.percent}%` : "—"}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {typeof r.shares === "number" ? r.shares.toLocaleString() : "—"}
+                  </td>
+                  <td className="px-3 py-2 max-w-md text-xs text-gray-700">
+                    {r.purpose ? (r.purpose.length > 280 ? `${r.purpose.slice(0, 280)}…` : r.purpose) : "—"}
+                  </td>
+                  <td className="px-3 py-2">
+                    {r.url && (
+                      <a href={r.url} target="_blank" rel="noopener noreferrer" className="text-xs underline">
+                        SEC
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {data.data.length === 0 && !data.meta?.note && (
+                <tr>
+                  <td className="px-3 py-4 text-center text-gray-500" colSpan={7}>
+                    No 13D filings.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
+            <div className="text-gray-600">Page {data.page}</div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={loading || page === 1}
+                className="rounded-md border px-3 py-1 disabled:opacity-50"
+              >
+                Prev
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={loading || !data.hasMore}
+                className="rounded-md border px-3 py-1 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,158 @@
+// app/edgar/CompanyCard.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Address, CompanyProfile } from "@/lib/company";
+
+const MONTHS = ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"];
+
+/** "0928" -> "Sep 28" */
+function fmtFiscalYearEnd(s?: string) {
+  if (!s || !/^\d{4}$/.test(s)) return s || "—";
+  return `${MONTHS[parseInt(s.slice(0, 2), 10) - 1] || s.slice(0, 2)} ${parseInt(s.slice(2), 10)}`;
+}
+
+function AddressLines({ a }: { a?: Address }) {
+  if (!a) return <div className="text-gray-500">—</div>;
+  const region = [a.city, [a.stateOrCountry, a.zipCode].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  return (
+    <div>
+      {a.street1 && <div>{a.street1}</div>}
+      {a.street2 && <div>{a.street2}</div>}
+      {region && <div>{region}</div>}
+      {a.foreign && (a.country || a.stateOrCountryDescription) && <div>{a.country || a.stateOrCountryDescription}</div>}
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-sm text-gray-900">{children}</div>
+    </div>
+  );
+}
+
+/** Header card for the company being browsed: classification, addresses, listings, former names */
+export default function CompanyCard({ cik }: { cik: string | null }) {
+  const [profile, setProfile] = useState<CompanyProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showFormer, setShowFormer] = useState(false);
+
+  useEffect(() => {
+    if (!cik) return;
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      setShowFormer(false);
+      try {
+        const r = await fetch(`/api/company/${encodeURIComponent(cik)}`, { cache: "no-store" });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Failed to fetch company profile (${r.status})`);
+        if (!aborted) setProfile(j.data);
+      } catch (e: any) {
+        if (!aborted) {
+          setProfile(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [cik]);
+
+  if (!cik) return null;
+  if (loading && !profile) {
+    return <div className="mb-3 rounded-2xl border bg-white p-4 text-sm text-gray-600">Loading company profile…</div>;
+  }
+  if (error || !profile) {
+    return error ? <div className="mb-3 text-sm text-gray-500">Company profile unavailable: {error}</div> : null;
+  }
+
+  const p = profile;
+  const sameAddress =
+    !!p.addresses.business &&
+    !!p.addresses.mailing &&
+    JSON.stringify(p.addresses.business) === JSON.stringify(p.addresses.mailing);
+
+  return (
+    <div className="mb-3 rounded-2xl border bg-white p-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
+        <div>
+          <div className="text-lg font-semibold text-gray-900">{p.name}</div>
+          <div className="text-xs text-gray-500">
+            CIK {p.cik}
+            {p.entityType ? ` • ${p.entityType}` : ""}
+            {p.ein ? ` • EIN ${p.ein}` : ""}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {p.listings.map((l) => (
+            <span key={l.ticker} className="text-xs rounded-full px-3 py-1 border bg-gray-50">
+              <span className="font-medium">{l.ticker}</span>
+              {l.exchange && <span className="text-gray-500"> · {l.exchange}</span>}
+            </span>
+          ))}
+          {p.category.map((c) => (
+            <span key={c} className="text-xs rounded-full px-3 py-1 border border-blue-200 bg-blue-50 text-blue-800">
+              {c}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3 grid gap-3 sm:grid-cols-2 md:grid-cols-4">
+        <Field label="Industry (SIC)">
+          {p.sic ? `${p.sic}${p.sicDescription ? ` — ${p.sicDescription}` : ""}` : "—"}
+        </Field>
+        <Field label="Incorporated in">{p.stateOfIncorporationDescription || p.stateOfIncorporation || "—"}</Field>
+        <Field label="Fiscal year end">{fmtFiscalYearEnd(p.fiscalYearEnd)}</Field>
+        <Field label="Phone">{p.phone || "—"}</Field>
+        <Field label={sameAddress ? "Business & mailing address" : "Business address"}>
+          <AddressLines a={p.addresses.business || p.addresses.mailing} />
+        </Field>
+        {!sameAddress && p.addresses.mailing && (
+          <Field label="Mailing address">
+            <AddressLines a={p.addresses.mailing} />
+          </Field>
+        )}
+        {p.website && (
+          <Field label="Website">
+            <a
+              href={/^https?:\/\//i.test(p.website) ? p.website : `https://${p.website}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline break-all"
+            >
+              {p.website}
+            </a>
+          </Field>
+        )}
+      </div>
+
+      {p.formerNames.length > 0 && (
+        <div className="mt-3 text-sm">
+          <button type="button" onClick={() => setShowFormer((v) => !v)} className="text-gray-700 underline">
+            {showFormer ? "Hide" : "Show"} former names ({p.formerNames.length})
+          </button>
+          {showFormer && (
+            <ul className="mt-2 space-y-1 text-gray-700">
+              {p.formerNames.map((f) => (
+                <li key={`${f.name}:${f.from}`}>
+                  {f.name}{" "}
+                  <span className="text-xs text-gray-500">
+                    ({f.from || "?"} – {f.to || "?"})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+// app/edgar/FinancialsPanel.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import type { LineItem, Point, StatementKey } from "@/lib/financials";
+
+type Period = "annual" | "quarterly";
+
+const SECTIONS: { key: StatementKey; label: string }[] = [
+  { key: "income", label: "Income Statement" },
+  { key: "balance", label: "Balance Sheet" },
+  { key: "cashflow", label: "Cash Flow" },
+];
+
+const COLS: Record<Period, number> = { annual: 5, quarterly: 8 };
+
+function fmtVal(p: Point | undefined, unit: string) {
+  if (!p) return "—";
+  if (unit !== "USD") return p.val.toFixed(2);
+  const m = p.val / 1e6;
+  return `${m < 0 ? "(" : ""}${Math.abs(m).toLocaleString(undefined, { maximumFractionDigits: 1 })}${m < 0 ? ")" : ""}`;
+}
+
+const MONTHS = ["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"];
+
+/** fy/fp on a fact belong to the filing it came from, so label by period end */
+function colLabel(p: Point, period: Period) {
+  const [y, m] = p.end.split("-");
+  return period === "annual" ? `FY${y}` : `${MONTHS[parseInt(m, 10) - 1] || m} ${y}`;
+}
+
+export default function FinancialsPanel({ cik }: { cik: string | null }) {
+  const [period, setPeriod] = useState<Period>("annual");
+  const [statements, setStatements] = useState<Record<StatementKey, LineItem[]> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cik) return;
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const r = await fetch(`/api/financials/${encodeURIComponent(cik)}?limit=12`, { cache: "no-store" });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Failed to fetch financials (${r.status})`);
+        if (!aborted) setStatements(j.statements);
+      } catch (e: any) {
+        if (!aborted) {
+          setStatements(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [cik]);
+
+  // Column headers = most recent period ends across every line
+  const columns = useMemo(() => {
+    if (!statements) return [] as Point[];
+    const byEnd = new Map<string, Point>();
+    for (const lines of Object.values(statements)) {
+      for (const l of lines) for (const p of l[period]) if (!byEnd.has(p.end)) byEnd.set(p.end, p);
+    }
+    return Array.from(byEnd.values())
+      .sort((a, b) => (a.end < b.end ? 1 : -1))
+      .slice(0, COLS[period]);
+  }, [statements, period]);
+
+  if (!cik) {
+    return <div className="text-sm text-gray-600">Search for a company to load its financials.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm text-gray-600">
+          {loading ? "Loading…" : "From XBRL companyfacts • USD millions except per-share"}
+        </div>
+        <div className="flex gap-2">
+          {(["annual", "quarterly"] as Period[]).map((p) => (
+            <button
+              key={p}
+              type="button"
+              onClick={() => setPeriod(p)}
+              className={`text-xs rounded-full px-3 py-1 border ${
+                period === p ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+              }`}
+            >
+              {p === "annual" ? "Annual" : "Quarterly"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {statements &&
+        SECTIONS.map((s) => (
+          <section key={s.key} className="rounded-2xl border bg-white">
+            <div className="border-b px-4 py-2 font-medium">{s.label}</div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2">Line item</th>
+                    {columns.map((c) => (
+                      <th key={c.end} className="px-3 py-2 text-right" title={`Period end ${c.end}`}>
+                        {colLabel(c, period)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {statements[s.key].map((l, i) => (
+                    <tr key={l.key} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                      <td className="px-3 py-2 text-gray-900">{l.label}</td>
+                      {columns.map((c) => {
+                        const p = l[period].find((x) => x.end === c.end);
+                        return (
+                          <td key={c.end} className="px-3 py-2 text-right tabular-nums">
+                            {p ? (
+                              <Link
+                                href={`/edgar/${cik}/${p.accn}`}
+                                title={`${p.concept} • ${p.form} filed ${p.filed} • ${p.accn}`}
+                                className="hover:underline"
+                              >
+                                {fmtVal(p, l.unit)}
+                              </Link>
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  {statements[s.key].length === 0 && (
+                    <tr>
+                      <td className="px-3 py-4 text-center text-gray-500" colSpan={columns.length + 1}>
+                        No us-gaap data reported.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))}
+    </div>
+  );
+}
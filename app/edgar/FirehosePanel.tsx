@@ -0,0 +1,233 @@
+// app/edgar/FirehosePanel.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useFilingStream } from "../components/useFilingStream";
+
+type LatestRow = {
+  cik: string;
+  company: string;
+  form: string;
+  filed: string;
+  accessionNumber: string;
+  open: string;
+  sic?: string;
+  state?: string;
+};
+
+const QUICK_FORMS = ["8-K", "4", "10-K", "10-Q", "S-1", "424B5", "SC 13D", "SC 13G", "13F-HR", "D"];
+const PER_PAGE = 50;
+
+/** Everything filed on one day across all companies, from the ingested EDGAR index */
+export default function FirehosePanel() {
+  const [forms, setForms] = useState<string[]>([]);
+  const [date, setDate] = useState<string>("");
+  const [sic, setSic] = useState<string>("");
+  const [state, setState] = useState<string>("");
+  const [page, setPage] = useState<number>(1);
+
+  const [rows, setRows] = useState<LatestRow[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [shownDate, setShownDate] = useState<string>("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [live, setLive] = useState(false);
+
+  // live mode: new acceptances from the SSE stream go on top of the current page
+  const liveStatus = useFilingStream({ enabled: live, forms, backlog: 0 }, (e) => {
+    setRows((cur) =>
+      cur.some((r) => r.accessionNumber === e.accessionNumber)
+        ? cur
+        : [{ cik: e.cik, company: e.company, form: e.form, filed: e.filed, accessionNumber: e.accessionNumber, open: e.link }, ...cur]
+    );
+    setTotal((t) => t + 1);
+  });
+
+  async function load(p = 1) {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(p), perPage: String(PER_PAGE) });
+      if (forms.length) params.set("forms", forms.join(","));
+      if (date) params.set("date", date);
+      if (sic.trim()) params.set("sic", sic.trim());
+      if (state.trim()) params.set("state", state.trim().toUpperCase());
+      const r = await fetch(`/api/filings/latest?${params.toString()}`, { cache: "no-store" });
+      const j = await r.json();
+      if (!r.ok || !j?.ok) throw new Error(j?.error || `Failed to fetch latest filings (${r.status})`);
+      setRows(j.data || []);
+      setTotal(j.total || 0);
+      setShownDate(j.query?.start === j.query?.end ? j.query?.start || "" : `${j.query?.start} – ${j.query?.end}`);
+      setNote(j.meta?.note || null);
+      setPage(p);
+    } catch (e: any) {
+      setRows([]);
+      setTotal(0);
+      setError(e?.message || "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // first load: latest ingested day, all forms
+  useEffect(() => {
+    load(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function toggleForm(f: string) {
+    setForms((cur) => (cur.includes(f) ? cur.filter((x) => x !== f) : [...cur, f]));
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PER_PAGE));
+
+  return (
+    <div className="space-y-4">
+      <section className="rounded-2xl border bg-white p-4">
+        <div className="grid gap-3 md:grid-cols-[1fr_1fr_1fr_auto]">
+          <div>
+            <div className="text-sm text-gray-700 mb-1">Date (default: latest)</div>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full border rounded-md px-3 py-2"
+            />
+          </div>
+          <div>
+            <div className="text-sm text-gray-700 mb-1">SIC (e.g. 7372 or 73)</div>
+            <input
+              value={sic}
+              onChange={(e) => setSic(e.target.value)}
+              placeholder="Any"
+              className="w-full border rounded-md px-3 py-2"
+            />
+          </div>
+          <div>
+            <div className="text-sm text-gray-700 mb-1">State (e.g. CA, NY)</div>
+            <input
+              value={state}
+              onChange={(e) => setState(e.target.value)}
+              placeholder="Any"
+              className="w-full border rounded-md px-3 py-2"
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <button
+              onClick={() => load(1)}
+              className="w-full md:w-auto px-4 py-2 rounded-md bg-black text-white text-sm disabled:opacity-60"
+              disabled={loading}
+            >
+              {loading ? "Loading…" : "Refresh"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setLive((v) => !v)}
+              className={`px-3 py-2 rounded-md border text-sm ${live ? "bg-black text-white border-black" : "bg-white"}`}
+              title="Stream new filings as EDGAR accepts them"
+              aria-pressed={live}
+            >
+              {live ? (liveStatus === "live" ? "● Live" : "Connecting…") : "Live"}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-3">
+          <div className="text-sm text-gray-700 mb-1">Form Types (none = all)</div>
+          <div className="flex flex-wrap gap-2">
+            {QUICK_FORMS.map((f) => (
+              <button
+                key={f}
+                type="button"
+                onClick={() => toggleForm(f)}
+                className={`text-xs rounded-full px-3 py-1 border ${
+                  forms.includes(f) ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+                }`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <div className="text-gray-600">
+          {loading ? "Loading…" : `${total.toLocaleString()} filings${shownDate ? ` • ${shownDate}` : ""}`}
+        </div>
+        {total > PER_PAGE && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => load(page - 1)}
+              disabled={loading || page <= 1}
+              className="px-2 py-1 rounded-md border bg-white disabled:opacity-50"
+            >
+              ← Prev
+            </button>
+            <span>
+              Page {page} of {totalPages}
+            </span>
+            <button
+              onClick={() => load(page + 1)}
+              disabled={loading || page >= totalPages}
+              className="px-2 py-1 rounded-md border bg-white disabled:opacity-50"
+            >
+              Next →
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border bg-white">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+            <tr>
+              <th className="px-3 py-2">Filed</th>
+              <th className="px-3 py-2">Form</th>
+              <th className="px-3 py-2">Company</th>
+              <th className="px-3 py-2">SIC</th>
+              <th className="px-3 py-2">State</th>
+              <th className="px-3 py-2 text-right">Links</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={`${r.accessionNumber}-${r.cik}`} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                <td className="px-3 py-2 whitespace-nowrap">{r.filed}</td>
+                <td className="px-3 py-2 whitespace-nowrap font-medium">{r.form}</td>
+                <td className="px-3 py-2">
+                  {r.company}
+                  <span className="ml-1 text-xs text-gray-500">CIK {r.cik}</span>
+                </td>
+                <td className="px-3 py-2">{r.sic || "—"}</td>
+                <td className="px-3 py-2">{r.state || "—"}</td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  <Link href={`/edgar/${r.cik}/${r.accessionNumber}`} className="hover:underline">
+                    Documents
+                  </Link>
+                  <span className="mx-1 text-gray-300">|</span>
+                  <a href={r.open} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                    SEC
+                  </a>
+                </td>
+              </tr>
+            ))}
+            {!loading && rows.length === 0 && (
+              <tr>
+                <td className="px-3 py-4 text-center text-gray-500" colSpan={6}>
+                  {note || "No filings match these filters."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
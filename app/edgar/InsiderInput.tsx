@@ -9,6 +9,8 @@ type Suggestion = {
   cik: string;
   ticker: string;
   name: string;
+  exchange?: string;
+  match?: "cik" | "ticker" | "ticker-prefix" | "name" | "fuzzy";
 };
 
 export default function InsiderInput(props: {
@@ -111,6 +113,8 @@ export default function InsiderInput(props: {
                 title={`CIK ${s.cik}`}
               >
                 {s.label}
+                {s.exchange && <span className="ml-1 text-xs text-gray-500">{s.exchange}</span>}
+                {s.match === "fuzzy" && <span className="ml-1 text-xs text-gray-400">(close match)</span>}
               </button>
             ))}
         </div>
@@ -0,0 +1,218 @@
+// app/edgar/[cik]/13d/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import type { TimelineEvent, TimelineEventType } from "@/lib/schedule13";
+
+/** ------------ Types ------------ */
+type HolderRow = {
+  holder: string;
+  holderCik?: string;
+  kind: "13D" | "13G";
+  percent?: number;
+  shares?: number;
+  lastFiled: string;
+  lastEvent: TimelineEventType;
+  active: boolean;
+};
+
+type ApiResult = {
+  ok: boolean;
+  cik: string;
+  name?: string;
+  filings: number;
+  unreadable: number;
+  holders: HolderRow[];
+  timeline: TimelineEvent[];
+};
+
+/** ------------ Helpers ------------ */
+const fmtPct = (n?: number) => (typeof n === "number" ? `${n.toFixed(n < 10 ? 2 : 1)}%` : "—");
+const fmtNum = (n?: number) => (typeof n === "number" && isFinite(n) ? n.toLocaleString() : "—");
+
+const EVENT_LABEL: Record<TimelineEventType, string> = {
+  "crossed-5": "Crossed 5% (13D)",
+  "passive-5": "Crossed 5% (13G)",
+  "switched-to-13d": "Switched to 13D",
+  increased: "Increased",
+  decreased: "Decreased",
+  "below-5": "Below 5%",
+  amended: "Amended",
+};
+
+const EVENT_STYLE: Record<TimelineEventType, string> = {
+  "crossed-5": "bg-red-100 text-red-800",
+  "passive-5": "bg-blue-50 text-blue-700",
+  "switched-to-13d": "bg-red-100 text-red-800",
+  increased: "bg-green-50 text-green-700",
+  decreased: "bg-amber-50 text-amber-800",
+  "below-5": "bg-gray-100 text-gray-700",
+  amended: "bg-gray-50 text-gray-600",
+};
+
+/** ----------------------------------------------------------------------------
+ * Page
+ * ---------------------------------------------------------------------------*/
+export default function OwnershipTimelinePage({ params }: { params: { cik: string } }) {
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [only13D, setOnly13D] = useState<boolean>(false);
+  const [open, setOpen] = useState<string | null>(null);
+
+  useEffect(() => {
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const r = await fetch(`/api/13d/${encodeURIComponent(params.cik)}`, { cache: "no-store" });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Timeline fetch failed (${r.status})`);
+        if (!aborted) setData(j);
+      } catch (e: any) {
+        if (!aborted) {
+          setData(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [params.cik]);
+
+  // newest first on screen
+  const events = useMemo(
+    () => (data?.timeline || []).filter((e) => !only13D || /13D/i.test(e.form)).slice().reverse(),
+    [data, only13D]
+  );
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-8">
+      <Link href="/edgar" className="text-sm text-gray-600 hover:text-gray-900">
+        ← Back to EDGAR search
+      </Link>
+      <h1 className="mt-2 text-2xl font-semibold">5% holders{data?.name ? ` • ${data.name}` : ""}</h1>
+      {data && (
+        <p className="text-gray-600 text-sm mb-4">
+          {data.filings} Schedule 13D/13G filings
+          {data.unreadable > 0 && ` (${data.unreadable} could not be read)`} •{" "}
+          <Link href="/edgar/13d" className="underline">
+            all new 13D filings
+          </Link>
+        </p>
+      )}
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {loading && <div className="text-sm text-gray-600">Loading… (cover pages are downloaded and parsed)</div>}
+
+      {data && !loading && (
+        <>
+          {/* Current holders */}
+          <section className="overflow-x-auto rounded-2xl border bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+                <tr>
+                  <th className="px-3 py-2">Holder</th>
+                  <th className="px-3 py-2">Schedule</th>
+                  <th className="px-3 py-2 text-right">Percent</th>
+                  <th className="px-3 py-2 text-right">Shares</th>
+                  <th className="px-3 py-2">Last filed</th>
+                  <th className="px-3 py-2">Last event</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.holders.map((h, i) => (
+                  <tr
+                    key={h.holderCik || h.holder}
+                    className={`${i % 2 ? "bg-white" : "bg-gray-50/40"} ${h.active ? "" : "text-gray-400"}`}
+                  >
+                    <td className="px-3 py-2 font-medium">{h.holder}</td>
+                    <td className="px-3 py-2">{h.kind}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtPct(h.percent)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{fmtNum(h.shares)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{h.lastFiled}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${EVENT_STYLE[h.lastEvent]}`}>
+                        {EVENT_LABEL[h.lastEvent]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+                {data.holders.length === 0 && (
+                  <tr>
+                    <td className="px-3 py-4 text-center text-gray-500" colSpan={6}>
+                      No Schedule 13D or 13G filings on this company.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </section>
+
+          {/* Timeline */}
+          <div className="mt-6 mb-2 flex items-center gap-2">
+            <h2 className="text-lg font-semibold">Timeline</h2>
+            {([false, true] as const).map((v) => (
+              <button
+                key={String(v)}
+                type="button"
+                onClick={() => setOnly13D(v)}
+                className={`text-xs rounded-full px-3 py-1 border ${
+                  only13D === v ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+                }`}
+              >
+                {v ? "13D only" : "All"}
+              </button>
+            ))}
+          </div>
+          <ol className="space-y-2">
+            {events.map((e) => (
+              <li key={e.accessionNumber} className="rounded-2xl border bg-white p-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="w-24 text-gray-500 tabular-nums">{e.filed}</span>
+                  <span className={`rounded-full px-2 py-0.5 text-xs ${EVENT_STYLE[e.event]}`}>{EVENT_LABEL[e.event]}</span>
+                  <span className="font-medium">{e.holder}</span>
+                  <span className="text-gray-600">
+                    {e.priorPercent !== undefined && e.priorPercent !== e.percent
+                      ? `${fmtPct(e.priorPercent)} → ${fmtPct(e.percent)}`
+                      : fmtPct(e.percent)}
+                    {e.shares !== undefined && ` • ${fmtNum(e.shares)} sh`}
+                  </span>
+                  <span className="text-xs text-gray-500">{e.form}</span>
+                  <div className="ml-auto flex gap-2">
+                    {e.purpose && (
+                      <button
+                        type="button"
+                        onClick={() => setOpen(open === e.accessionNumber ? null : e.accessionNumber)}
+                        className="rounded-full border px-3 py-1 text-xs hover:bg-gray-50"
+                      >
+                        {open === e.accessionNumber ? "Hide purpose" : "Item 4 purpose"}
+                      </button>
+                    )}
+                    <a
+                      href={e.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="rounded-full border px-3 py-1 text-xs hover:bg-gray-50"
+                    >
+                      SEC
+                    </a>
+                  </div>
+                </div>
+                {open === e.accessionNumber && e.purpose && (
+                  <p className="mt-2 whitespace-pre-line text-sm text-gray-700">{e.purpose}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,246 @@
+// app/edgar/[cik]/13f/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import type { ChangeStatus, PositionChange } from "@/lib/form13f";
+
+/** ------------ Types ------------ */
+type Side = {
+  accessionNumber: string;
+  filed: string;
+  period?: string;
+  infoTableUrl: string;
+  positions: number;
+  totalValue: number;
+};
+
+type ApiResult = {
+  ok: boolean;
+  cik: string;
+  manager?: string;
+  current: Side;
+  prior: Side | null;
+  summary: Record<ChangeStatus, number>;
+  data: PositionChange[];
+};
+
+type SortKey = "value" | "issuer" | "change";
+
+/** ------------ Helpers ------------ */
+function fmtUsdCompact(n: number) {
+  if (!isFinite(n)) return "—";
+  if (Math.abs(n) >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
+  if (Math.abs(n) >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  return `$${n.toLocaleString()}`;
+}
+
+const STATUS_STYLE: Record<ChangeStatus, string> = {
+  new: "bg-green-100 text-green-800",
+  added: "bg-green-50 text-green-700",
+  reduced: "bg-amber-50 text-amber-800",
+  exited: "bg-red-50 text-red-700",
+  unchanged: "bg-gray-50 text-gray-600",
+};
+
+function ChangeCell({ p }: { p: PositionChange }) {
+  const label =
+    p.status === "new" || p.status === "exited" || p.status === "unchanged"
+      ? p.status === "unchanged" ? "—" : p.status.toUpperCase()
+      : `${p.shareChange > 0 ? "+" : ""}${p.shareChange.toLocaleString()}${
+          p.pctChange !== undefined ? ` (${p.pctChange > 0 ? "+" : ""}${p.pctChange.toFixed(1)}%)` : ""
+        }`;
+  return <span className={`rounded-full px-2 py-0.5 text-xs ${STATUS_STYLE[p.status]}`}>{label}</span>;
+}
+
+/** ----------------------------------------------------------------------------
+ * Page
+ * ---------------------------------------------------------------------------*/
+export default function HoldingsPage({
+  params,
+  searchParams,
+}: {
+  params: { cik: string };
+  searchParams?: { [key: string]: string | string[] | undefined };
+}) {
+  const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v) || "";
+  const accession = first(searchParams?.accession);
+
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<ChangeStatus | "all">("all");
+  const [sort, setSort] = useState<SortKey>("value");
+  const [q, setQ] = useState<string>("");
+
+  useEffect(() => {
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const qs = new URLSearchParams();
+        if (accession) qs.set("accession", accession);
+        const r = await fetch(`/api/13f/${encodeURIComponent(params.cik)}?${qs.toString()}`, { cache: "no-store" });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Holdings fetch failed (${r.status})`);
+        if (!aborted) setData(j);
+      } catch (e: any) {
+        if (!aborted) {
+          setData(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [params.cik, accession]);
+
+  const rows = useMemo(() => {
+    if (!data) return [];
+    const needle = q.trim().toLowerCase();
+    const list = data.data.filter(
+      (p) =>
+        (status === "all" || p.status === status) &&
+        (!needle || p.issuer.toLowerCase().includes(needle) || p.cusip.toLowerCase().includes(needle))
+    );
+    return list.sort((a, b) =>
+      sort === "issuer"
+        ? a.issuer.localeCompare(b.issuer)
+        : sort === "change"
+        ? Math.abs(b.value - b.priorValue) - Math.abs(a.value - a.priorValue)
+        : b.value - a.value || b.priorValue - a.priorValue
+    );
+  }, [data, status, sort, q]);
+
+  const s = data?.summary;
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-8">
+      <Link href="/edgar" className="text-sm text-gray-600 hover:text-gray-900">
+        ← Back to EDGAR search
+      </Link>
+      <h1 className="mt-2 text-2xl font-semibold">13F holdings{data?.manager ? ` • ${data.manager}` : ""}</h1>
+      {data && (
+        <p className="text-gray-600 text-sm mb-4">
+          Period {data.current.period || "—"} (filed{" "}
+          <a href={data.current.infoTableUrl} target="_blank" rel="noopener noreferrer" className="underline">
+            {data.current.filed}
+          </a>
+          ) • {data.current.positions.toLocaleString()} positions • {fmtUsdCompact(data.current.totalValue)}
+          {data.prior && (
+            <>
+              {" "}
+              • vs. {data.prior.period || data.prior.filed} ({fmtUsdCompact(data.prior.totalValue)})
+            </>
+          )}
+        </p>
+      )}
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {loading && <div className="text-sm text-gray-600">Loading… (information tables are downloaded and parsed)</div>}
+
+      {data && s && !loading && (
+        <>
+          <section className="grid grid-cols-2 gap-3 md:grid-cols-5">
+            <Stat label="New" value={s.new} tone="text-green-700" />
+            <Stat label="Added" value={s.added} tone="text-green-700" />
+            <Stat label="Reduced" value={s.reduced} tone="text-amber-700" />
+            <Stat label="Exited" value={s.exited} tone="text-red-700" />
+            <Stat label="Unchanged" value={s.unchanged} tone="text-gray-700" />
+          </section>
+
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            {(["all", "new", "added", "reduced", "exited", "unchanged"] as const).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setStatus(k)}
+                className={`text-xs rounded-full px-3 py-1 border ${
+                  status === k ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+                }`}
+              >
+                {k === "all" ? "All" : k[0].toUpperCase() + k.slice(1)}
+              </button>
+            ))}
+            <input
+              value={q}
+              onChange={(e) => setQ(e.target.value)}
+              placeholder="Filter issuer or CUSIP"
+              className="ml-auto border rounded-md px-3 py-1.5 text-sm"
+            />
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortKey)}
+              className="border rounded-md px-2 py-1.5 text-sm"
+            >
+              <option value="value">Sort: value</option>
+              <option value="change">Sort: $ change</option>
+              <option value="issuer">Sort: issuer</option>
+            </select>
+          </div>
+
+          <section className="mt-3 overflow-x-auto rounded-2xl border bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+                <tr>
+                  <th className="px-3 py-2">Issuer</th>
+                  <th className="px-3 py-2">Class</th>
+                  <th className="px-3 py-2">CUSIP</th>
+                  <th className="px-3 py-2 text-right">Value</th>
+                  <th className="px-3 py-2 text-right">Shares</th>
+                  <th className="px-3 py-2">Put/Call</th>
+                  <th className="px-3 py-2 text-right" title="Sole / Shared / None">Voting</th>
+                  <th className="px-3 py-2">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((p, i) => (
+                  <tr key={`${p.cusip}:${p.putCall || ""}`} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                    <td className="px-3 py-2 text-gray-900">{p.issuer}</td>
+                    <td className="px-3 py-2 text-gray-600">{p.titleOfClass || "—"}</td>
+                    <td className="px-3 py-2 font-mono text-xs">{p.cusip}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {fmtUsdCompact(p.status === "exited" ? p.priorValue : p.value)}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {(p.status === "exited" ? p.priorShares : p.shares).toLocaleString()}
+                      {p.shareType === "PRN" ? " PRN" : ""}
+                    </td>
+                    <td className="px-3 py-2">{p.putCall || "—"}</td>
+                    <td className="px-3 py-2 text-right text-xs tabular-nums text-gray-600">
+                      {p.voting.sole.toLocaleString()} / {p.voting.shared.toLocaleString()} / {p.voting.none.toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <ChangeCell p={p} />
+                    </td>
+                  </tr>
+                ))}
+                {rows.length === 0 && (
+                  <tr>
+                    <td className="px-3 py-4 text-center text-gray-500" colSpan={8}>
+                      No positions match these filters.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone: string }) {
+  return (
+    <div className="rounded-xl border bg-white p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-xl font-semibold ${tone}`}>{value.toLocaleString()}</div>
+    </div>
+  );
+}
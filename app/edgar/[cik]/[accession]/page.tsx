@@ -0,0 +1,220 @@
+// app/edgar/[cik]/[accession]/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+/** ------------ Types ------------ */
+type FilingDoc = {
+  seq?: number;
+  name: string;
+  url: string;
+  type: string;
+  description?: string;
+  size?: number;
+  lastModified?: string;
+};
+
+type ApiResult = {
+  ok: boolean;
+  cik: string;
+  accessionNumber: string;
+  company?: string;
+  form?: string;
+  filed?: string;
+  period?: string;
+  indexUrl: string;
+  count: number;
+  data: FilingDoc[];
+};
+
+/** ------------ Helpers ------------ */
+function fmtBytes(n?: number) {
+  if (typeof n !== "number" || !isFinite(n)) return "—";
+  if (n >= 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  if (n >= 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${n} B`;
+}
+
+/** Documents the browser can render inside the viewer pane */
+function isViewable(name: string) {
+  return /\.(html?|txt|xml|pdf|jpe?g|gif|png)$/i.test(name);
+}
+
+/** Group label for the type filter */
+function typeGroup(t: string) {
+  if (/^EX-101/i.test(t) || /xbrl/i.test(t)) return "XBRL";
+  if (/^EX-/i.test(t)) return "Exhibits";
+  if (/graphic/i.test(t)) return "Graphics";
+  return "Main / Other";
+}
+
+/** ----------------------------------------------------------------------------
+ * Page
+ * ---------------------------------------------------------------------------*/
+export default function FilingIndexPage({
+  params,
+}: {
+  params: { cik: string; accession: string };
+}) {
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [group, setGroup] = useState<string>("All");
+  const [viewing, setViewing] = useState<FilingDoc | null>(null);
+
+  useEffect(() => {
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const r = await fetch(
+          `/api/filings/${encodeURIComponent(params.cik)}/${encodeURIComponent(params.accession)}`,
+          { cache: "no-store" }
+        );
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Failed to load filing index (${r.status})`);
+        if (!aborted) {
+          setData(j);
+          setViewing(j.data.find((d: FilingDoc) => isViewable(d.name)) || null);
+        }
+      } catch (e: any) {
+        if (!aborted) setError(e?.message || "Unexpected error");
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [params.cik, params.accession]);
+
+  const groups = useMemo(() => {
+    const set = new Set((data?.data || []).map((d) => typeGroup(d.type)));
+    return ["All", ...Array.from(set)];
+  }, [data]);
+
+  const visible = useMemo(
+    () => (data?.data || []).filter((d) => group === "All" || typeGroup(d.type) === group),
+    [data, group]
+  );
+
+  function viewerSrc(d: FilingDoc) {
+    return `/api/filings/${encodeURIComponent(params.cik)}/${encodeURIComponent(params.accession)}?doc=${encodeURIComponent(d.name)}`;
+  }
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-8">
+      <Link href="/edgar" className="text-sm text-gray-600 hover:text-gray-900">
+        ← Back to EDGAR search
+      </Link>
+      <h1 className="mt-2 text-2xl font-semibold">
+        {data?.company || `CIK ${params.cik}`}
+        {data?.form ? ` • ${data.form}` : ""}
+      </h1>
+      <p className="text-gray-600 text-sm mb-4">
+        Accession {data?.accessionNumber || params.accession}
+        {data?.filed ? ` • Filed ${data.filed}` : ""}
+        {data?.period ? ` • Period ${data.period}` : ""}
+        {data?.indexUrl && (
+          <>
+            {" • "}
+            <a href={data.indexUrl} target="_blank" rel="noopener noreferrer" className="underline">
+              SEC index
+            </a>
+          </>
+        )}
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading && <div className="text-sm text-gray-600">Loading…</div>}
+
+      {data && (
+        <div className="grid gap-4 lg:grid-cols-[minmax(320px,1fr)_2fr]">
+          {/* Document list */}
+          <section className="rounded-2xl border bg-white">
+            <div className="flex flex-wrap gap-2 border-b p-3">
+              {groups.map((g) => (
+                <button
+                  key={g}
+                  type="button"
+                  onClick={() => setGroup(g)}
+                  className={`text-xs rounded-full px-3 py-1 border ${
+                    group === g ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+                  }`}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+            <ul className="max-h-[70vh] divide-y overflow-auto">
+              {visible.map((d) => (
+                <li
+                  key={d.name}
+                  className={`p-3 text-sm ${viewing?.name === d.name ? "bg-gray-50" : ""}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="rounded-full border px-2 py-0.5 text-xs font-medium">{d.type}</span>
+                    <span className="text-xs text-gray-500">{fmtBytes(d.size)}</span>
+                  </div>
+                  <div className="mt-1 truncate font-mono text-xs text-gray-700" title={d.name}>
+                    {d.name}
+                  </div>
+                  {d.description && <div className="text-xs text-gray-500">{d.description}</div>}
+                  <div className="mt-2 flex gap-2">
+                    {isViewable(d.name) && (
+                      <button
+                        type="button"
+                        onClick={() => setViewing(d)}
+                        className="rounded-full bg-black px-3 py-1 text-xs text-white hover:opacity-90"
+                      >
+                        View
+                      </button>
+                    )}
+                    <a
+                      href={d.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="rounded-full border px-3 py-1 text-xs hover:bg-gray-50"
+                    >
+                      Open on SEC
+                    </a>
+                  </div>
+                </li>
+              ))}
+              {visible.length === 0 && (
+                <li className="p-3 text-sm text-gray-600">No documents in this group.</li>
+              )}
+            </ul>
+          </section>
+
+          {/* Viewer */}
+          <section className="rounded-2xl border bg-white">
+            {viewing ? (
+              <>
+                <div className="border-b p-3 text-sm">
+                  <span className="font-medium">{viewing.type}</span>
+                  <span className="text-gray-500"> — {viewing.name}</span>
+                </div>
+                <iframe
+                  key={viewing.name}
+                  src={viewerSrc(viewing)}
+                  title={viewing.name}
+                  sandbox="allow-popups allow-popups-to-escape-sandbox"
+                  className="h-[70vh] w-full rounded-b-2xl"
+                />
+              </>
+            ) : (
+              <div className="p-6 text-sm text-gray-600">Select a document to view it here.</div>
+            )}
+          </section>
+        </div>
+      )}
+    </main>
+  );
+}
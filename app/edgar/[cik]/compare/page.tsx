@@ -0,0 +1,195 @@
+// app/edgar/[cik]/compare/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { Block, RedlineSummary } from "@/lib/redline";
+
+/** ------------ Types ------------ */
+type Side = { accessionNumber: string; filed: string; reportDate?: string; url: string };
+
+type ApiResult = {
+  ok: boolean;
+  cik: string;
+  section: { key: string; title: string };
+  from: Side;
+  to: Side;
+  summary: RedlineSummary;
+  newRiskFactorHeadings: string[];
+  blocks: Block[];
+};
+
+/** ------------ Constants ------------ */
+const SECTION_OPTIONS = [
+  { key: "1A", label: "Risk Factors" },
+  { key: "7", label: "MD&A" },
+  { key: "7A", label: "Market Risk" },
+  { key: "1", label: "Business" },
+  { key: "3", label: "Legal Proceedings" },
+];
+
+/** ----------------------------------------------------------------------------
+ * Page
+ * ---------------------------------------------------------------------------*/
+export default function ComparePage({
+  params,
+  searchParams,
+}: {
+  params: { cik: string };
+  searchParams?: { [key: string]: string | string[] | undefined };
+}) {
+  const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v) || "";
+  const to = first(searchParams?.to);
+  const from = first(searchParams?.from);
+
+  const [section, setSection] = useState<string>(first(searchParams?.section) || "1A");
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const qs = new URLSearchParams({ section });
+        if (to) qs.set("to", to);
+        if (from) qs.set("from", from);
+        const r = await fetch(`/api/filings/${encodeURIComponent(params.cik)}/compare?${qs.toString()}`, {
+          cache: "no-store",
+        });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Compare failed (${r.status})`);
+        if (!aborted) setData(j);
+      } catch (e: any) {
+        if (!aborted) {
+          setData(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [params.cik, to, from, section]);
+
+  const s = data?.summary;
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-8">
+      <Link href="/edgar" className="text-sm text-gray-600 hover:text-gray-900">
+        ← Back to EDGAR search
+      </Link>
+      <h1 className="mt-2 text-2xl font-semibold">Compare with previous 10-K</h1>
+      {data && (
+        <p className="text-gray-600 text-sm mb-4">
+          <a href={data.from.url} target="_blank" rel="noopener noreferrer" className="underline">
+            {data.from.filed}
+          </a>
+          {" → "}
+          <a href={data.to.url} target="_blank" rel="noopener noreferrer" className="underline">
+            {data.to.filed}
+          </a>
+          {" • CIK "}
+          {data.cik}
+        </p>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        {SECTION_OPTIONS.map((o) => (
+          <button
+            key={o.key}
+            type="button"
+            onClick={() => setSection(o.key)}
+            className={`text-xs rounded-full px-3 py-1 border ${
+              section === o.key ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+            }`}
+          >
+            Item {o.key} • {o.label}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+          Show unchanged paragraphs
+        </label>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {loading && <div className="text-sm text-gray-600">Comparing… (both filings are downloaded and parsed)</div>}
+
+      {data && s && !loading && (
+        <>
+          <section className="grid grid-cols-2 gap-3 md:grid-cols-5">
+            <Stat label="Added" value={s.added} tone="text-green-700" />
+            <Stat label="Removed" value={s.removed} tone="text-red-700" />
+            <Stat label="Modified" value={s.modified} tone="text-amber-700" />
+            <Stat label="Unchanged" value={s.unchanged} tone="text-gray-700" />
+            <Stat label="New risk factors" value={s.newRiskFactors} tone="text-green-700" />
+          </section>
+
+          {data.newRiskFactorHeadings.length > 0 && (
+            <section className="mt-4 rounded-2xl border bg-white p-4">
+              <div className="mb-2 text-sm font-medium">New risk factor headings</div>
+              <ul className="list-disc space-y-1 pl-5 text-sm text-gray-800">
+                {data.newRiskFactorHeadings.map((h, i) => (
+                  <li key={i}>{h}</li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="mt-4 space-y-2 rounded-2xl border bg-white p-4 text-sm leading-relaxed">
+            {data.blocks.map((b, i) => {
+              if (b.op === "unchanged") {
+                return showUnchanged ? (
+                  <p key={i} className="text-gray-500">{b.text}</p>
+                ) : null;
+              }
+              if (b.op === "added") {
+                return (
+                  <p key={i} className="rounded border-l-4 border-green-500 bg-green-50 px-3 py-1 text-green-900">
+                    {b.text}
+                  </p>
+                );
+              }
+              if (b.op === "removed") {
+                return (
+                  <p key={i} className="rounded border-l-4 border-red-500 bg-red-50 px-3 py-1 text-red-900 line-through">
+                    {b.text}
+                  </p>
+                );
+              }
+              return (
+                <p key={i} className="rounded border-l-4 border-amber-400 bg-amber-50/50 px-3 py-1">
+                  {b.words.map((w, j) =>
+                    w.op === "eq" ? (
+                      <span key={j}>{w.text}</span>
+                    ) : w.op === "ins" ? (
+                      <ins key={j} className="bg-green-200 no-underline">{w.text}</ins>
+                    ) : (
+                      <del key={j} className="bg-red-200">{w.text}</del>
+                    )
+                  )}
+                </p>
+              );
+            })}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone: string }) {
+  return (
+    <div className="rounded-xl border bg-white p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-xl font-semibold ${tone}`}>{value.toLocaleString()}</div>
+    </div>
+  );
+}
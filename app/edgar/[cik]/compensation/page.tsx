@@ -0,0 +1,238 @@
+// app/edgar/[cik]/compensation/page.tsx
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { CompRow, PayVsPerformanceRow } from "@/lib/compensation";
+
+/** ------------ Types ------------ */
+type Executive = { executive: string; title?: string; years: CompRow[] };
+
+type ApiResult = {
+  ok: boolean;
+  cik: string;
+  company?: string;
+  proxies: { accessionNumber: string; filed: string; url: string; summaryRows: number; payVsPerformanceRows: number }[];
+  executives: Executive[];
+  payVsPerformance: PayVsPerformanceRow[];
+  data: CompRow[];
+};
+
+/** ------------ Helpers ------------ */
+function fmtUsdCompact(n?: number) {
+  if (typeof n !== "number" || !isFinite(n)) return "—";
+  if (Math.abs(n) >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  if (Math.abs(n) >= 1e3) return `$${(n / 1e3).toFixed(0)}K`;
+  return `$${n.toLocaleString()}`;
+}
+
+// Stacked in this order; "other" is whatever the total has beyond these
+const PARTS: { key: "salary" | "bonus" | "stockAwards" | "optionAwards" | "other"; label: string; color: string }[] = [
+  { key: "salary", label: "Salary", color: "bg-gray-800" },
+  { key: "bonus", label: "Bonus", color: "bg-gray-500" },
+  { key: "stockAwards", label: "Stock awards", color: "bg-blue-600" },
+  { key: "optionAwards", label: "Option awards", color: "bg-blue-300" },
+  { key: "other", label: "Incentive & other", color: "bg-amber-400" },
+];
+
+function part(r: CompRow, key: (typeof PARTS)[number]["key"]) {
+  if (key !== "other") return Math.max(0, r[key] || 0);
+  const known = (r.salary || 0) + (r.bonus || 0) + (r.stockAwards || 0) + (r.optionAwards || 0);
+  return Math.max(0, (r.total || 0) - known);
+}
+
+function ExecutiveChart({ e, max }: { e: Executive; max: number }) {
+  return (
+    <div className="rounded-2xl border bg-white p-4">
+      <div className="text-sm font-medium">{e.executive}</div>
+      <div className="mb-2 text-xs text-gray-500">{e.title || "—"}</div>
+      <div className="flex h-40 items-end gap-3">
+        {e.years.map((r) => (
+          <div key={r.year} className="flex flex-1 flex-col items-center gap-1">
+            <div className="text-[10px] text-gray-600">{fmtUsdCompact(r.total)}</div>
+            <div
+              className="flex w-full max-w-[48px] flex-col-reverse overflow-hidden rounded-t"
+              style={{ height: `${((r.total || 0) / max) * 100}%` }}
+              title={PARTS.map((p) => `${p.label}: ${fmtUsdCompact(part(r, p.key))}`).join("\n")}
+            >
+              {PARTS.map((p) => {
+                const v = part(r, p.key);
+                return v > 0 && r.total ? (
+                  <div key={p.key} className={p.color} style={{ height: `${(v / r.total) * 100}%` }} />
+                ) : null;
+              })}
+            </div>
+            <div className="text-[10px] text-gray-500">{r.year}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** ----------------------------------------------------------------------------
+ * Page
+ * ---------------------------------------------------------------------------*/
+export default function CompensationPage({ params }: { params: { cik: string } }) {
+  const [data, setData] = useState<ApiResult | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let aborted = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const r = await fetch(`/api/compensation/${encodeURIComponent(params.cik)}`, { cache: "no-store" });
+        const j = await r.json();
+        if (!r.ok || !j?.ok) throw new Error(j?.error || `Compensation fetch failed (${r.status})`);
+        if (!aborted) setData(j);
+      } catch (e: any) {
+        if (!aborted) {
+          setData(null);
+          setError(e?.message || "Unexpected error");
+        }
+      } finally {
+        if (!aborted) setLoading(false);
+      }
+    })();
+    return () => { aborted = true; };
+  }, [params.cik]);
+
+  // one scale across executives so bars compare
+  const max = Math.max(1, ...(data?.data || []).map((r) => r.total || 0));
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-8">
+      <Link href="/edgar" className="text-sm text-gray-600 hover:text-gray-900">
+        ← Back to EDGAR search
+      </Link>
+      <h1 className="mt-2 text-2xl font-semibold">Executive compensation{data?.company ? ` • ${data.company}` : ""}</h1>
+      {data && (
+        <p className="text-gray-600 text-sm mb-4">
+          From {data.proxies.length} proxy statement{data.proxies.length === 1 ? "" : "s"}:{" "}
+          {data.proxies.map((p, i) => (
+            <span key={p.accessionNumber}>
+              {i > 0 && ", "}
+              <a href={p.url} target="_blank" rel="noopener noreferrer" className="underline">
+                {p.filed}
+              </a>
+            </span>
+          ))}
+        </p>
+      )}
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {loading && <div className="text-sm text-gray-600">Loading… (proxy statements are downloaded and parsed)</div>}
+
+      {data && !loading && (
+        <>
+          {data.executives.length === 0 && (
+            <div className="text-sm text-gray-600">No Summary Compensation Table could be read from these proxies.</div>
+          )}
+
+          {/* Per-executive charts */}
+          {data.executives.length > 0 && (
+            <>
+              <div className="mb-2 flex flex-wrap gap-3 text-xs text-gray-600">
+                {PARTS.map((p) => (
+                  <span key={p.key} className="inline-flex items-center gap-1">
+                    <span className={`inline-block h-2.5 w-2.5 rounded-sm ${p.color}`} />
+                    {p.label}
+                  </span>
+                ))}
+              </div>
+              <section className="grid gap-3 md:grid-cols-2">
+                {data.executives.map((e) => (
+                  <ExecutiveChart key={e.executive} e={e} max={max} />
+                ))}
+              </section>
+            </>
+          )}
+
+          {/* Summary Compensation Table */}
+          {data.data.length > 0 && (
+            <section className="mt-6 overflow-x-auto rounded-2xl border bg-white">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+                  <tr>
+                    <th className="px-3 py-2">Executive</th>
+                    <th className="px-3 py-2">Year</th>
+                    <th className="px-3 py-2 text-right">Salary</th>
+                    <th className="px-3 py-2 text-right">Bonus</th>
+                    <th className="px-3 py-2 text-right">Stock awards</th>
+                    <th className="px-3 py-2 text-right">Option awards</th>
+                    <th className="px-3 py-2 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.data
+                    .slice()
+                    .sort((a, b) => b.year - a.year || (b.total || 0) - (a.total || 0))
+                    .map((r, i) => (
+                      <tr key={`${r.executive}:${r.year}`} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                        <td className="px-3 py-2">
+                          <div className="font-medium text-gray-900">{r.executive}</div>
+                          {r.title && <div className="text-xs text-gray-500">{r.title}</div>}
+                        </td>
+                        <td className="px-3 py-2">{r.year}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.salary)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.bonus)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.stockAwards)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.optionAwards)}</td>
+                        <td className="px-3 py-2 text-right font-medium tabular-nums">{fmtUsdCompact(r.total)}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* Pay versus performance */}
+          {data.payVsPerformance.length > 0 && (
+            <>
+              <h2 className="mt-6 mb-2 text-lg font-semibold">Pay versus performance</h2>
+              <section className="overflow-x-auto rounded-2xl border bg-white">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+                    <tr>
+                      <th className="px-3 py-2">Year</th>
+                      <th className="px-3 py-2 text-right">CEO total (SCT)</th>
+                      <th className="px-3 py-2 text-right">CEO actually paid</th>
+                      <th className="px-3 py-2 text-right">Other NEOs avg (SCT)</th>
+                      <th className="px-3 py-2 text-right">Other NEOs avg actually paid</th>
+                      <th className="px-3 py-2 text-right" title="Value of an initial fixed $100 investment">TSR</th>
+                      <th className="px-3 py-2 text-right">Peer TSR</th>
+                      <th className="px-3 py-2 text-right" title="As reported (often in thousands or millions)">Net income</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.payVsPerformance
+                      .slice()
+                      .reverse()
+                      .map((r, i) => (
+                        <tr key={r.year} className={i % 2 ? "bg-white" : "bg-gray-50/40"}>
+                          <td className="px-3 py-2">{r.year}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.peoSctTotal)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.peoCompensationActuallyPaid)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.neoAvgSctTotal)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.neoAvgCompensationActuallyPaid)}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{r.tsr ?? "—"}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{r.peerTsr ?? "—"}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{r.netIncome?.toLocaleString() ?? "—"}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </section>
+            </>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
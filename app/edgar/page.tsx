@@ -1,7 +1,15 @@
 // app/edgar/page.tsx
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+import { ITEM_LABELS } from "@/lib/form8k";
+import { isOfferingForm, type Offering } from "@/lib/offering";
+import ExportButton from "../components/ExportButton";
+import CompanyCard from "./CompanyCard";
+import FinancialsPanel from "./FinancialsPanel";
+import FirehosePanel from "./FirehosePanel";
 
 /** ------------ Types ------------ */
 type Row = {
@@ -11,11 +19,29 @@ type Row = {
   filed: string;
   accessionNumber: string;
   open: string; // fully-qualified link to primary doc or index
+  primaryDocument?: string;
+  items?: string[]; // 8-K item codes, e.g. ["2.02","9.01"]
+  badges?: string[]; // decoded items, e.g. ["2.02 Results of Operations"]
+};
+
+/** One hit from /api/fulltext (snippets are segments with matches flagged) */
+type SearchHit = {
+  cik: string;
+  company: string;
+  form: string;
+  filed: string;
+  accessionNumber: string;
+  document: string;
+  description?: string;
+  url: string;
+  explore: string;
+  snippets: { text: string; hit: boolean }[][];
 };
 
 type ApiResult = {
   ok: boolean;
   total: number;
+  complete?: boolean; // false: older submissions pages were not read, total is a lower bound
   count: number;
   data: Row[];
   query: {
@@ -24,6 +50,7 @@ type ApiResult = {
     start: string;
     end: string;
     forms: string[];
+    items: string[];
     perPage: number;
     page: number;
     freeText: string | null;
@@ -41,19 +68,33 @@ function normalizeCIKLike(input: string): string | null {
   return s.padStart(10, "0");
 }
 
+function fmtUsdCompact(n?: number) {
+  if (typeof n !== "number" || !isFinite(n)) return "—";
+  if (n >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
+  if (n >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  return `$${n.toLocaleString()}`;
+}
+
 /** ------------ Constants ------------ */
 const FORM_OPTIONS = [
   "10-K","10-Q","8-K","S-1","S-3","S-4","20-F","40-F","6-K","11-K",
-  "13F-HR","SC 13D","SC 13D/A","SC 13G","SC 13G/A",
+  "13F-HR","SC 13D","SC 13D/A","SC 13G","SC 13G/A","SCHEDULE 13D","SCHEDULE 13G",
   "3","4","5","DEF 14A","DEFA14A","PX14A6G",
   "424B2","424B3","424B4","424B5","424B7","424B8",
 ];
 
+/** 8-K items offered as filters (labels come from lib/form8k) */
+const ITEM_OPTIONS = [
+  "1.01","1.02","1.05","2.01","2.02","2.03","2.05","2.06","3.01","3.02",
+  "4.01","4.02","5.01","5.02","5.03","5.07","7.01","8.01",
+];
+
 /** ----------------------------------------------------------------------------
  * Page
  * ---------------------------------------------------------------------------*/
 export default function EdgarPage() {
   // ----- search state -----
+  const [mode, setMode] = useState<"company" | "search" | "firehose">("company");
   const [identifier, setIdentifier] = useState<string>("");
   const [forms, setForms] = useState<string[]>(["10-K","10-Q","8-K"]);
   const [start, setStart] = useState<string>("2000-01-01");
@@ -61,18 +102,28 @@ export default function EdgarPage() {
   const [perPage, setPerPage] = useState<number>(50);
   const [page, setPage] = useState<number>(1);
   const [q, setQ] = useState<string>("");
+  const [items, setItems] = useState<string[]>([]);
 
   // ----- results state -----
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [rows, setRows] = useState<Row[]>([]);
+  const [hits, setHits] = useState<SearchHit[]>([]);
   const [total, setTotal] = useState<number>(0);
+  const [totalComplete, setTotalComplete] = useState<boolean>(true);
+  const [resolvedCik, setResolvedCik] = useState<string | null>(null);
+  const [view, setView] = useState<"filings" | "financials">("filings");
+
+  // ----- bulk export (selection survives paging) -----
+  const [selected, setSelected] = useState<Record<string, Row>>({});
+  const [withExhibits, setWithExhibits] = useState<boolean>(false);
 
   // ----- pagination input box state -----
   const [pageInput, setPageInput] = useState<string>("1");
 
   // Keep forms string stable
   const formsParam = useMemo(() => forms.join(","), [forms]);
+  const itemsParam = useMemo(() => (forms.includes("8-K") ? items.join(",") : ""), [forms, items]);
 
   // Keep page box in sync when page changes
   useEffect(() => {
@@ -82,7 +133,10 @@ export default function EdgarPage() {
   // Reset to page 1 when filters change (but not when page changes)
   useEffect(() => {
     setPage(1);
-  }, [identifier, formsParam, start, end, perPage, q]);
+  }, [mode, identifier, formsParam, itemsParam, start, end, perPage, q]);
+
+  // Full-text search fetches documents for snippets, so it pages in smaller steps
+  const effectivePerPage = mode === "search" ? Math.min(perPage, 20) : perPage;
 
   /** Resolve to CIK */
   async function resolveToCIK(input: string): Promise<string> {
@@ -100,8 +154,47 @@ export default function EdgarPage() {
     throw new Error("Ticker/Company not recognized. Enter a numeric CIK or valid ticker.");
   }
 
+  /** Full-text search across all filings (entity is optional) */
+  async function doSearch(currentPage: number) {
+    if (!q.trim()) {
+      setError("Enter search terms to search all filings.");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setHits([]);
+
+    try {
+      const params = new URLSearchParams({
+        q: q.trim(),
+        start,
+        end,
+        forms: formsParam,
+        perPage: String(effectivePerPage),
+        page: String(currentPage),
+      });
+      if (identifier.trim()) params.set("entity", identifier.trim());
+
+      const r = await fetch(`/api/fulltext?${params.toString()}`, { cache: "no-store" });
+      const j = await r.json();
+      if (!r.ok || !j?.ok) throw new Error(j?.error || `Full-text search failed (${r.status})`);
+
+      setHits(j.data || []);
+      setTotal(j.total || 0);
+      setTotalComplete(true);
+      setPage(currentPage);
+    } catch (e: any) {
+      setError(e?.message || "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
   /** Core fetch that can override page */
   async function doFetch(pageOverride?: number) {
+    if (mode === "search") return doSearch(pageOverride ?? page);
+
     const raw = identifier.trim();
     if (!raw) {
       setError("Enter a ticker, company name, or CIK.");
@@ -114,6 +207,7 @@ export default function EdgarPage() {
 
     try {
       const cik10 = await resolveToCIK(raw);
+      setResolvedCik(cik10);
       const currentPage = pageOverride ?? page;
 
       const params = new URLSearchParams({
@@ -124,6 +218,7 @@ export default function EdgarPage() {
         page: String(currentPage),
       });
       if (q.trim()) params.set("q", q.trim());
+      if (itemsParam) params.set("items", itemsParam);
 
       const url = `/api/filings/${encodeURIComponent(cik10)}?${params.toString()}`;
       const r = await fetch(url, { cache: "no-store" });
@@ -136,6 +231,7 @@ export default function EdgarPage() {
       const ok = j as ApiResult;
       setRows(ok.data || []);
       setTotal(ok.total || 0);
+      setTotalComplete(ok.complete !== false);
       // ensure page state matches what we actually fetched
       setPage(currentPage);
     } catch (e: any) {
@@ -145,7 +241,7 @@ export default function EdgarPage() {
     }
   }
 
-  const totalPages = Math.max(1, Math.ceil((total || 0) / (perPage || 1)));
+  const totalPages = Math.max(1, Math.ceil((total || 0) / (effectivePerPage || 1)));
 
   /** Handlers for pagination controls */
   function handleGo() {
@@ -167,19 +263,81 @@ export default function EdgarPage() {
     if (page < totalPages) doFetch(page + 1);
   }
 
+  const selectedRows = Object.values(selected);
+  const pageSelected = rows.length > 0 && rows.every((r) => selected[r.accessionNumber]);
+
+  function toggleRow(r: Row) {
+    setSelected((cur) => {
+      const next = { ...cur };
+      if (next[r.accessionNumber]) delete next[r.accessionNumber];
+      else next[r.accessionNumber] = r;
+      return next;
+    });
+  }
+  function togglePage() {
+    setSelected((cur) => {
+      const next = { ...cur };
+      rows.forEach((r) => (pageSelected ? delete next[r.accessionNumber] : (next[r.accessionNumber] = r)));
+      return next;
+    });
+  }
+  const exportHref =
+    `/api/filings/export?filings=${selectedRows.map((r) => `${r.cik}:${r.accessionNumber}`).join(",")}` +
+    (withExhibits ? "&exhibits=1" : "");
+
+  /** Every filing matching the current filters (all pages) as a file */
+  function tableExportHref(format: ExportFormat) {
+    const params = new URLSearchParams({ start, end, forms: formsParam, format });
+    if (q.trim()) params.set("q", q.trim());
+    if (itemsParam) params.set("items", itemsParam);
+    return `/api/filings/${encodeURIComponent(resolvedCik || "")}?${params.toString()}`;
+  }
+
   /** ------------------------ Render ------------------------ */
   return (
     <main className="mx-auto max-w-6xl px-4 py-8">
       <h1 className="text-2xl font-semibold">EDGAR Filings</h1>
       <p className="text-gray-600 text-sm mb-4">
-        Search by ticker, company name, or CIK. Click a result to open the SEC filing.
+        {mode === "company"
+          ? "Search by ticker, company name, or CIK. Click a result to open the SEC filing."
+          : mode === "search"
+          ? "Search the text of every EDGAR filing since 2001. Optionally narrow to one company."
+          : "Everything filed across all companies, from the EDGAR daily index."}
       </p>
 
+      {/* Mode toggle */}
+      <div className="mb-3 inline-flex rounded-md border bg-white p-1">
+        {(["company", "search", "firehose"] as const).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => {
+              setMode(m);
+              setError(null);
+              setTotal(0);
+            }}
+            className={`rounded px-3 py-1.5 text-sm ${
+              mode === m ? "bg-black text-white" : "text-gray-700 hover:bg-gray-100"
+            }`}
+            aria-pressed={mode === m}
+          >
+            {m === "company" ? "Company filings" : m === "search" ? "Search all filings" : "Firehose"}
+          </button>
+        ))}
+      </div>
+      <Link href="/edgar/13d" className="ml-3 text-sm text-gray-600 hover:text-gray-900">
+        New 13D filings →
+      </Link>
+
+      {mode === "firehose" && <FirehosePanel />}
+
       {/* Controls */}
-      <section className="rounded-2xl border bg-white p-4">
+      <section className={`rounded-2xl border bg-white p-4 ${mode === "firehose" ? "hidden" : ""}`}>
         <div className="grid gap-3 md:grid-cols-[minmax(260px,1.25fr)_1fr_1fr_1fr]">
           <div>
-            <div className="text-sm text-gray-700 mb-1">Company / Ticker / CIK</div>
+            <div className="text-sm text-gray-700 mb-1">
+              {mode === "company" ? "Company / Ticker / CIK" : "Company / Ticker / CIK (optional)"}
+            </div>
             <input
               value={identifier}
               onChange={(e) => setIdentifier(e.target.value)}
@@ -211,14 +369,23 @@ export default function EdgarPage() {
           <div>
             <div className="text-sm text-gray-700 mb-1">Per Page</div>
             <select
-              value={perPage}
+              value={effectivePerPage}
               onChange={(e) => setPerPage(parseInt(e.target.value))}
               className="w-full border rounded-md px-3 py-2"
             >
-              <option value={25}>25</option>
-              <option value={50}>50</option>
-              <option value={100}>100</option>
-              <option value={200}>200</option>
+              {mode === "search" ? (
+                <>
+                  <option value={10}>10</option>
+                  <option value={20}>20</option>
+                </>
+              ) : (
+                <>
+                  <option value={25}>25</option>
+                  <option value={50}>50</option>
+                  <option value={100}>100</option>
+                  <option value={200}>200</option>
+                </>
+              )}
             </select>
           </div>
         </div>
@@ -231,12 +398,14 @@ export default function EdgarPage() {
           </div>
 
           <div>
-            <div className="text-sm text-gray-700 mb-1">Free text (optional)</div>
+            <div className="text-sm text-gray-700 mb-1">
+              {mode === "company" ? "Free text (optional)" : "Search terms"}
+            </div>
             <input
               type="text"
               value={q}
               onChange={(e) => setQ(e.target.value)}
-              placeholder="e.g., merger, guidance, dividend"
+              placeholder={mode === "company" ? "e.g., merger, guidance, dividend" : 'e.g., "going concern" or cybersecurity'}
               className="w-full border rounded-md px-3 py-2"
             />
           </div>
@@ -247,24 +416,59 @@ export default function EdgarPage() {
               className="w-full md:w-auto px-4 py-2 rounded-md bg-black text-white text-sm disabled:opacity-60"
               disabled={loading}
             >
-              {loading ? "Searching…" : "Get filings"}
+              {loading ? "Searching…" : mode === "company" ? "Get filings" : "Search filings"}
             </button>
           </div>
         </div>
+
+        {/* 8-K items (only meaningful when 8-K is selected) */}
+        {mode === "company" && forms.includes("8-K") && (
+          <div className="mt-3">
+            <div className="text-sm text-gray-700 mb-1">8-K Items (optional)</div>
+            <ItemPicker value={items} onChange={setItems} />
+          </div>
+        )}
       </section>
 
       {/* Errors */}
-      {error && (
+      {error && mode !== "firehose" && (
         <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
           {error}
         </div>
       )}
 
+      {/* View tabs */}
+      <div className={`mt-4 flex gap-2 ${mode === "company" ? "" : "hidden"}`}>
+        {(["filings", "financials"] as const).map((v) => (
+          <button
+            key={v}
+            type="button"
+            onClick={() => setView(v)}
+            className={`rounded-md px-4 py-2 text-sm font-medium ${
+              view === v ? "bg-black text-white" : "bg-gray-100 text-gray-800 hover:bg-gray-200"
+            }`}
+            aria-pressed={view === v}
+          >
+            {v === "filings" ? "Filings" : "Financials"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "company" && view === "financials" && (
+        <section className="mt-4">
+          <FinancialsPanel cik={resolvedCik} />
+        </section>
+      )}
+
       {/* Results */}
-      <section className="mt-4">
+      <section
+        className={`mt-4 ${mode === "search" || (mode === "company" && view === "filings") ? "" : "hidden"}`}
+      >
+        {mode === "company" && <CompanyCard cik={resolvedCik} />}
+
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-2">
           <div className="text-sm text-gray-600">
-            {loading ? "Loading…" : `${total} matched${total !== 1 ? " filings" : " filing"}`}
+            {loading ? "Loading…" : `${total}${totalComplete ? "" : "+"} matched${total !== 1 ? " filings" : " filing"}`}
           </div>
 
           {/* Pagination bar */}
@@ -287,7 +491,7 @@ export default function EdgarPage() {
                 className="w-14 border rounded-md px-2 py-1 text-center"
                 aria-label="Page number"
               />
-              <span>of {totalPages}</span>
+              <span>of {totalPages}{totalComplete ? "" : "+"}</span>
               <button
                 onClick={handleGo}
                 disabled={loading || !pageInput}
@@ -306,18 +510,107 @@ export default function EdgarPage() {
           )}
         </div>
 
+        {mode === "company" && (rows.length > 0 || selectedRows.length > 0) && (
+          <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+            <button type="button" onClick={togglePage} className="rounded-md border bg-white px-2 py-1 hover:bg-gray-50">
+              {pageSelected ? "Unselect page" : "Select page"}
+            </button>
+            <span className="text-gray-600">{selectedRows.length} selected</span>
+            {selectedRows.length > 0 && (
+              <>
+                <label className="inline-flex items-center gap-1 text-gray-700">
+                  <input type="checkbox" checked={withExhibits} onChange={(e) => setWithExhibits(e.target.checked)} />
+                  Include exhibits
+                </label>
+                {selectedRows.length > 100 ? (
+                  <span className="text-xs text-red-600">Select at most 100 filings per ZIP.</span>
+                ) : (
+                  <a href={exportHref} className="rounded-md bg-black px-3 py-1 text-white hover:opacity-90">
+                    Download ZIP
+                  </a>
+                )}
+                <button type="button" onClick={() => setSelected({})} className="text-gray-600 underline">
+                  Clear
+                </button>
+              </>
+            )}
+            <ExportButton href={tableExportHref} disabled={loading || !resolvedCik || !total} className="ml-auto" />
+          </div>
+        )}
+
         <div className="grid gap-3">
-          {rows.map((r) => (
+          {mode === "search" && hits.map((h) => <SearchHitCard key={`${h.accessionNumber}:${h.document}`} hit={h} />)}
+
+          {mode === "company" && rows.map((r) => (
             <article key={r.accessionNumber} className="rounded-xl border bg-white p-4">
               <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
                 <div>
-                  <div className="text-sm text-gray-600">{r.company || r.cik}</div>
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={!!selected[r.accessionNumber]}
+                      onChange={() => toggleRow(r)}
+                      aria-label={`Select ${r.form} ${r.filed} for export`}
+                    />
+                    {r.company || r.cik}
+                  </label>
                   <div className="font-medium">
                     {r.form} • {r.filed}
                   </div>
                   <div className="text-xs text-gray-500">Accession: {r.accessionNumber}</div>
+                  {r.badges && r.badges.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1.5">
+                      {r.badges.map((b) => (
+                        <span
+                          key={b}
+                          className="rounded-full border bg-gray-50 px-2 py-0.5 text-xs text-gray-700"
+                        >
+                          {b}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                <div>
+                {isOfferingForm(r.form) && <OfferingAmount row={r} />}
+                <div className="flex flex-wrap gap-2">
+                  <Link
+                    href={`/edgar/${r.cik}/${r.accessionNumber}`}
+                    className="inline-flex items-center rounded-full border px-3 py-1.5 text-sm hover:bg-gray-50"
+                  >
+                    Documents
+                  </Link>
+                  {r.form === "10-K" && (
+                    <Link
+                      href={`/edgar/${r.cik}/compare?to=${r.accessionNumber}`}
+                      className="inline-flex items-center rounded-full border px-3 py-1.5 text-sm hover:bg-gray-50"
+                    >
+                      Compare with previous 10-K
+                    </Link>
+                  )}
+                  {/^13F-HR/.test(r.form) && (
+                    <Link
+                      href={`/edgar/${r.cik}/13f?accession=${r.accessionNumber}`}
+                      className="inline-flex items-center rounded-full border px-3 py-1.5 text-sm hover:bg-gray-50"
+                    >
+                      Holdings
+                    </Link>
+                  )}
+                  {/^(SC|SCHEDULE) 13[DG]/.test(r.form) && (
+                    <Link
+                      href={`/edgar/${r.cik}/13d`}
+                      className="inline-flex items-center rounded-full border px-3 py-1.5 text-sm hover:bg-gray-50"
+                    >
+                      Ownership timeline
+                    </Link>
+                  )}
+                  {r.form === "DEF 14A" && (
+                    <Link
+                      href={`/edgar/${r.cik}/compensation`}
+                      className="inline-flex items-center rounded-full border px-3 py-1.5 text-sm hover:bg-gray-50"
+                    >
+                      Compensation
+                    </Link>
+                  )}
                   <a
                     href={r.open}
                     target="_blank"
@@ -331,7 +624,13 @@ export default function EdgarPage() {
             </article>
           ))}
 
-          {!loading && rows.length === 0 && !error && (
+          {!loading && mode === "search" && hits.length === 0 && !error && (
+            <div className="text-sm text-gray-600">
+              No results yet. Try a phrase in quotes, e.g., &quot;material weakness&quot;.
+            </div>
+          )}
+
+          {!loading && mode === "company" && rows.length === 0 && !error && (
             <div className="text-sm text-gray-600">
               No results yet. Try a ticker (e.g., NVDA) or company name.
             </div>
@@ -374,4 +673,148 @@ function FormPicker({
       })}
     </div>
   );
-}
\ No newline at end of file
+}
+
+/** chips multi-select for 8-K items */
+function ItemPicker({
+  value,
+  onChange,
+}: {
+  value: string[];
+  onChange: (next: string[]) => void;
+}) {
+  function toggle(code: string) {
+    const has = value.includes(code);
+    onChange(has ? value.filter((x) => x !== code) : [...value, code]);
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {ITEM_OPTIONS.map((code) => {
+        const active = value.includes(code);
+        return (
+          <button
+            key={code}
+            type="button"
+            onClick={() => toggle(code)}
+            className={`text-xs rounded-full px-3 py-1 border ${
+              active ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+            }`}
+            title={ITEM_LABELS[code]}
+          >
+            {code} {ITEM_LABELS[code]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * amount column for S-1/S-3/424B rows (parsed server-side from the primary
+ * doc). Parsing fetches a whole prospectus, so it runs on click rather than
+ * for every row on the page.
+ */
+function OfferingAmount({ row }: { row: Row }) {
+  const [offering, setOffering] = useState<Offering | null>(null);
+  const [state, setState] = useState<"idle" | "loading" | "done" | "error">("idle");
+
+  async function load() {
+    setState("loading");
+    try {
+      const params = new URLSearchParams({ form: row.form });
+      if (row.primaryDocument) params.set("doc", row.primaryDocument);
+      const r = await fetch(
+        `/api/filings/${encodeURIComponent(row.cik)}/${encodeURIComponent(row.accessionNumber)}/offering?${params.toString()}`,
+        { cache: "no-store" }
+      );
+      const j = await r.json();
+      if (!r.ok || !j?.ok) throw new Error(j?.error || "Parse failed");
+      setOffering(j.offering);
+      setState("done");
+    } catch {
+      setState("error");
+    }
+  }
+
+  const tags = offering
+    ? [offering.atm && "ATM", offering.shelfTakedown && "Shelf takedown"].filter(Boolean)
+    : [];
+
+  return (
+    <div className="min-w-[160px] text-sm md:text-right">
+      <div className="text-xs text-gray-500">Amount</div>
+      {state === "idle" && (
+        <button type="button" onClick={load} className="text-gray-700 underline">
+          Show amount
+        </button>
+      )}
+      {state === "loading" && <div className="text-gray-400">Parsing…</div>}
+      {state === "error" && <div className="text-gray-400">—</div>}
+      {state === "done" && offering && (
+        <>
+          <div className="font-medium">{fmtUsdCompact(offering.amount)}</div>
+          {(offering.shares || offering.pricePerShare) && (
+            <div className="text-xs text-gray-500">
+              {offering.shares ? `${offering.shares.toLocaleString()} sh` : ""}
+              {offering.shares && offering.pricePerShare ? " @ " : ""}
+              {offering.pricePerShare ? `$${offering.pricePerShare}` : ""}
+            </div>
+          )}
+          {tags.length > 0 && <div className="text-xs text-gray-600">{tags.join(" • ")}</div>}
+        </>
+      )}
+    </div>
+  );
+}
+
+/** one full-text hit with highlighted snippets */
+function SearchHitCard({ hit }: { hit: SearchHit }) {
+  return (
+    <article className="rounded-xl border bg-white p-4">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm text-gray-600">{hit.company || hit.cik}</div>
+          <div className="font-medium">
+            {hit.form} • {hit.filed}
+          </div>
+          <div className="text-xs text-gray-500">
+            {hit.description || hit.document} • Accession: {hit.accessionNumber}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href={hit.explore}
+            className="inline-flex items-center rounded-full border px-3 py-1.5 text-sm hover:bg-gray-50"
+          >
+            Documents
+          </Link>
+          <a
+            href={hit.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center rounded-full bg-black text-white px-3 py-1.5 text-sm hover:opacity-90"
+          >
+            Open document
+          </a>
+        </div>
+      </div>
+      {hit.snippets.length > 0 && (
+        <div className="mt-3 space-y-2 text-sm text-gray-700">
+          {hit.snippets.map((segs, i) => (
+            <p key={i} className="rounded-md bg-gray-50 px-3 py-2">
+              {segs.map((s, j) =>
+                s.hit ? (
+                  <mark key={j} className="rounded bg-yellow-200 px-0.5">
+                    {s.text}
+                  </mark>
+                ) : (
+                  <span key={j}>{s.text}</span>
+                )
+              )}
+            </p>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
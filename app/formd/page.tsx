@@ -0,0 +1,375 @@
+// app/formd/page.tsx
+"use client";
+
+import Link from "next/link";
+import { Fragment, useEffect, useState } from "react";
+import type { RelatedPerson } from "@/lib/formD";
+
+/** ------------ Types ------------ */
+type Offering = {
+  accessionNumber: string;
+  cik: string;
+  issuerName: string;
+  form: string;
+  filed: string;
+  state?: string;
+  industryGroup?: string;
+  fundType?: string;
+  entityType?: string;
+  yearOfInc?: string;
+  revenueRange?: string;
+  exemptions: string[];
+  totalOfferingAmount?: number;
+  totalAmountSold?: number;
+  minimumInvestment?: number;
+  investorCount?: number;
+  nonAccreditedCount?: number;
+  firstSaleDate?: string;
+  securityTypes: string[];
+  relatedPersons: RelatedPerson[];
+  open: string;
+};
+
+type SortKey = "filed" | "amount" | "sold";
+
+/** ------------ Constants ------------ */
+// Industry group types as listed on Form D (Item 4)
+const INDUSTRY_GROUPS = [
+  "Agriculture",
+  "Commercial Banking", "Insurance", "Investing", "Investment Banking", "Pooled Investment Fund",
+  "Other Banking and Financial Services",
+  "Business Services",
+  "Coal Mining", "Electric Utilities", "Energy Conservation", "Environmental Services", "Oil and Gas", "Other Energy",
+  "Biotechnology", "Health Insurance", "Hospitals and Physicians", "Pharmaceuticals", "Other Health Care",
+  "Manufacturing",
+  "Commercial", "Construction", "REITS and Finance", "Residential", "Other Real Estate",
+  "Retailing", "Restaurants",
+  "Computers", "Telecommunications", "Other Technology",
+  "Airlines and Airports", "Lodging and Conventions", "Tourism and Travel Services", "Other Travel",
+  "Other",
+];
+
+// Item 6 codes
+const EXEMPTION_LABELS: Record<string, string> = {
+  "04": "504",
+  "04.1": "504(b)(1)(i)",
+  "04.2": "504(b)(1)(ii)",
+  "04.3": "504(b)(1)(iii)",
+  "06b": "506(b)",
+  "06c": "506(c)",
+  "4a5": "4(a)(5)",
+  "3C": "3(c)",
+  "3C.1": "3(c)(1)",
+  "3C.7": "3(c)(7)",
+};
+
+const SIZES: { label: string; min?: number; max?: number }[] = [
+  { label: "Any size" },
+  { label: "< $1M", max: 1e6 },
+  { label: "$1M – $10M", min: 1e6, max: 1e7 },
+  { label: "$10M – $50M", min: 1e7, max: 5e7 },
+  { label: "$50M – $250M", min: 5e7, max: 2.5e8 },
+  { label: "$250M+", min: 2.5e8 },
+];
+
+const PER_PAGE = 50;
+
+/** ------------ Helpers ------------ */
+function fmtUsdCompact(n?: number) {
+  if (typeof n !== "number" || !isFinite(n)) return "—";
+  if (Math.abs(n) >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
+  if (Math.abs(n) >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  if (Math.abs(n) >= 1e3) return `$${(n / 1e3).toFixed(0)}K`;
+  return `$${n.toLocaleString()}`;
+}
+
+/** ----------------------------------------------------------------------------
+ * Page
+ * ---------------------------------------------------------------------------*/
+export default function FormDPage() {
+  const [q, setQ] = useState("");
+  const [state, setState] = useState("");
+  const [industry, setIndustry] = useState("");
+  const [exemption, setExemption] = useState<"" | "506b" | "506c">("");
+  const [size, setSize] = useState(0);
+  const [amendments, setAmendments] = useState(true);
+  const [sort, setSort] = useState<SortKey>("filed");
+  const [page, setPage] = useState(1);
+
+  const [rows, setRows] = useState<Offering[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [open, setOpen] = useState<string | null>(null);
+
+  async function load(p = 1) {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(p), perPage: String(PER_PAGE), sort });
+      if (q.trim()) params.set("q", q.trim());
+      if (state.trim()) params.set("state", state.trim().toUpperCase());
+      if (industry) params.set("industry", industry);
+      if (exemption) params.set("exemption", exemption);
+      if (SIZES[size].min !== undefined) params.set("minAmount", String(SIZES[size].min));
+      if (SIZES[size].max !== undefined) params.set("maxAmount", String(SIZES[size].max));
+      if (!amendments) params.set("amendments", "0");
+      const r = await fetch(`/api/formd?${params.toString()}`, { cache: "no-store" });
+      const j = await r.json();
+      if (!r.ok || !j?.ok) throw new Error(j?.error || `Failed to fetch Form D offerings (${r.status})`);
+      setRows(j.data || []);
+      setTotal(j.total || 0);
+      setNote(j.meta?.note || null);
+      setPage(p);
+    } catch (e: any) {
+      setRows([]);
+      setTotal(0);
+      setError(e?.message || "Unexpected error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // filters other than the free-text box apply immediately
+  useEffect(() => {
+    load(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [industry, exemption, size, amendments, sort]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PER_PAGE));
+
+  /** ------------------------ Render ------------------------ */
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-8">
+      <h1 className="text-2xl font-semibold">Form D private placements</h1>
+      <p className="text-gray-600 text-sm mb-4">
+        Regulation D offerings parsed from Form D filings: who is raising, how much, from how many investors, and under which
+        exemption. Company filings are on the{" "}
+        <Link href="/edgar" className="underline">
+          EDGAR
+        </Link>{" "}
+        page.
+      </p>
+
+      {/* Controls */}
+      <section className="rounded-2xl border bg-white p-4">
+        <div className="grid gap-3 md:grid-cols-[2fr_1fr_2fr_1fr_auto]">
+          <div>
+            <div className="text-sm text-gray-700 mb-1">Issuer</div>
+            <input
+              value={q}
+              onChange={(e) => setQ(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && load(1)}
+              placeholder="Name contains…"
+              className="w-full border rounded-md px-3 py-2"
+            />
+          </div>
+          <div>
+            <div className="text-sm text-gray-700 mb-1">State (e.g. CA, NY)</div>
+            <input
+              value={state}
+              onChange={(e) => setState(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && load(1)}
+              placeholder="Any"
+              className="w-full border rounded-md px-3 py-2"
+            />
+          </div>
+          <div>
+            <div className="text-sm text-gray-700 mb-1">Industry</div>
+            <select
+              value={industry}
+              onChange={(e) => setIndustry(e.target.value)}
+              className="w-full border rounded-md px-3 py-2"
+            >
+              <option value="">Any</option>
+              {INDUSTRY_GROUPS.map((g) => (
+                <option key={g} value={g}>
+                  {g}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div className="text-sm text-gray-700 mb-1">Offering size</div>
+            <select
+              value={size}
+              onChange={(e) => setSize(Number(e.target.value))}
+              className="w-full border rounded-md px-3 py-2"
+            >
+              {SIZES.map((s, i) => (
+                <option key={s.label} value={i}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={() => load(1)}
+              className="w-full md:w-auto px-4 py-2 rounded-md bg-black text-white text-sm disabled:opacity-60"
+              disabled={loading}
+            >
+              {loading ? "Loading…" : "Search"}
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          {(["", "506b", "506c"] as const).map((x) => (
+            <button
+              key={x || "any"}
+              type="button"
+              onClick={() => setExemption(x)}
+              className={`text-xs rounded-full px-3 py-1 border ${
+                exemption === x ? "bg-black text-white border-black" : "bg-white hover:bg-gray-100"
+              }`}
+            >
+              {x === "" ? "Any exemption" : x === "506b" ? "Rule 506(b)" : "Rule 506(c)"}
+            </button>
+          ))}
+          <label className="ml-2 inline-flex items-center gap-1 text-xs text-gray-700">
+            <input type="checkbox" checked={amendments} onChange={(e) => setAmendments(e.target.checked)} />
+            Include D/A
+          </label>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as SortKey)}
+            className="ml-auto border rounded-md px-2 py-1.5 text-sm"
+          >
+            <option value="filed">Sort: newest</option>
+            <option value="amount">Sort: offering amount</option>
+            <option value="sold">Sort: amount sold</option>
+          </select>
+        </div>
+      </section>
+
+      {error && (
+        <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+      {note && !loading && <div className="mt-4 text-sm text-gray-600">{note}</div>}
+
+      {/* Results */}
+      <section className="mt-4 overflow-x-auto rounded-2xl border bg-white">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs font-semibold text-gray-700">
+            <tr>
+              <th className="px-3 py-2">Filed</th>
+              <th className="px-3 py-2">Issuer</th>
+              <th className="px-3 py-2">Industry</th>
+              <th className="px-3 py-2 text-right">Offering</th>
+              <th className="px-3 py-2 text-right">Sold</th>
+              <th className="px-3 py-2 text-right">Investors</th>
+              <th className="px-3 py-2">Exemption</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <Fragment key={r.accessionNumber}>
+                <tr className={`align-top ${i % 2 ? "bg-white" : "bg-gray-50/40"}`}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {r.filed}
+                    <div className="text-xs text-gray-500">{r.form}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{r.issuerName}</div>
+                    <div className="text-xs text-gray-500">
+                      {[r.state, r.entityType, r.yearOfInc && `inc. ${r.yearOfInc}`].filter(Boolean).join(" • ")}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    {r.industryGroup || "—"}
+                    {r.fundType && <div className="text-xs text-gray-500">{r.fundType}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {r.totalOfferingAmount === undefined ? "Indefinite" : fmtUsdCompact(r.totalOfferingAmount)}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">{fmtUsdCompact(r.totalAmountSold)}</td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {r.investorCount ?? "—"}
+                    {!!r.nonAccreditedCount && (
+                      <div className="text-xs text-gray-500">{r.nonAccreditedCount} non-accredited</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs">{r.exemptions.map((e) => EXEMPTION_LABELS[e] || e).join(", ") || "—"}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-xs">
+                    <button
+                      type="button"
+                      onClick={() => setOpen(open === r.accessionNumber ? null : r.accessionNumber)}
+                      className="underline"
+                    >
+                      {open === r.accessionNumber ? "Hide" : `People (${r.relatedPersons.length})`}
+                    </button>{" "}
+                    •{" "}
+                    <a href={r.open} target="_blank" rel="noopener noreferrer" className="underline">
+                      SEC
+                    </a>
+                  </td>
+                </tr>
+                {open === r.accessionNumber && (
+                  <tr className="bg-white">
+                    <td colSpan={8} className="px-3 pb-3">
+                      <div className="grid gap-2 text-xs md:grid-cols-3">
+                        {r.relatedPersons.map((p, k) => (
+                          <div key={k} className="rounded-md border p-2">
+                            <div className="font-medium text-gray-900">{p.name}</div>
+                            <div className="text-gray-600">{p.relationships.join(", ") || "—"}</div>
+                            {(p.city || p.state) && (
+                              <div className="text-gray-500">{[p.city, p.state].filter(Boolean).join(", ")}</div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="mt-2 text-xs text-gray-600">
+                        {[
+                          r.securityTypes.length ? `Securities: ${r.securityTypes.join(", ")}` : "",
+                          r.minimumInvestment ? `Minimum investment: ${fmtUsdCompact(r.minimumInvestment)}` : "",
+                          r.firstSaleDate ? `First sale: ${r.firstSaleDate}` : "",
+                          r.revenueRange ? `Revenue / NAV: ${r.revenueRange}` : "",
+                        ]
+                          .filter(Boolean)
+                          .join(" • ")}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {!loading && rows.length === 0 && !note && (
+              <tr>
+                <td className="px-3 py-4 text-center text-gray-500" colSpan={8}>
+                  No offerings match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        {total > PER_PAGE && (
+          <div className="flex items-center justify-between border-t px-3 py-2 text-sm">
+            <div className="text-gray-600">
+              Page {page} / {totalPages} • {total.toLocaleString()} offerings
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => load(page - 1)}
+                disabled={loading || page === 1}
+                className="rounded-md border px-3 py-1 disabled:opacity-50"
+              >
+                Prev
+              </button>
+              <button
+                onClick={() => load(page + 1)}
+                disabled={loading || page === totalPages}
+                className="rounded-md border px-3 py-1 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
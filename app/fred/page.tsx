@@ -2,6 +2,8 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import type { ExportFormat } from "@/lib/export";
+import ExportButton from "../components/ExportButton";
 
 /* =========================
    Friendly FRED registry
@@ -365,6 +367,12 @@ export default function FREDPage() {
     }
   }
 
+  /** loadTrends' request as a download: one row per observation of every picked series */
+  function trendsExportHref(format: ExportFormat) {
+    const qs = new URLSearchParams({ ids: keyToIds(pickedKeys), start, end, freq, format });
+    return `/api/fred/series?${qs.toString()}`;
+  }
+
   // initial latest on mount
   useEffect(() => {
     if (tab === "latest" && !latestSeries && !latestLoading) {
@@ -647,6 +655,7 @@ export default function FREDPage() {
               >
                 Get data
               </button>
+              <ExportButton href={trendsExportHref} disabled={trLoading || !trSeries.length} />
             </div>
 
             {trError && <div className="text-red-600 text-sm mt-3">Error: {trError}</div>}
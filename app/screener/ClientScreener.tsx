@@ -5,15 +5,19 @@ import { useEffect, useMemo, useState } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 
 import StocksDashboard from "../components/StocksDashboard";
+import StockScreener from "../components/StockScreener";
 import InsiderTape from "../components/InsiderTape";
+import InstitutionalHolders from "../components/InstitutionalHolders";
 import CryptoDashboard from "../components/CryptoDashboard";
 import CongressionalTracker from "../components/CongressionalTracker";
 
-type TabKey = "stocks" | "insider" | "crypto" | "congress";
+type TabKey = "stocks" | "screener" | "insider" | "institutions" | "crypto" | "congress";
 
 const TABS: { key: TabKey; label: string; icon: string }[] = [
   { key: "stocks", label: "Stocks", icon: "📈" },
+  { key: "screener", label: "Screener", icon: "🔎" },
   { key: "insider", label: "Insider", icon: "🧑‍💼" },
+  { key: "institutions", label: "Institutions", icon: "🏦" },
   { key: "crypto", label: "Crypto", icon: "🪙" },
   { key: "congress", label: "Congress", icon: "🏛️" },
 ];
@@ -79,7 +83,9 @@ export default function ClientScreener({
       {/* Section body */}
       <div className="space-y-4">
         {active === "stocks" && <StocksDashboard />}
+        {active === "screener" && <StockScreener />}
         {active === "insider" && <InsiderTape />}
+        {active === "institutions" && <InstitutionalHolders />}
         {active === "crypto" && <CryptoDashboard />}
         {active === "congress" && <CongressionalTracker />}
       </div>
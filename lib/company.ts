@@ -0,0 +1,92 @@
+// lib/company.ts
+// Company profile from the submissions JSON: classification, incorporation,
+// addresses, listings and former names.
+import { SEC_BASE, secJSON } from "./sec";
+
+export type Address = {
+  street1?: string;
+  street2?: string;
+  city?: string;
+  stateOrCountry?: string;
+  stateOrCountryDescription?: string;
+  zipCode?: string;
+  country?: string;
+  foreign: boolean;
+};
+
+export type FormerName = { name: string; from?: string; to?: string };
+
+export type CompanyProfile = {
+  cik: string;
+  name: string;
+  entityType?: string;
+  sic?: string;
+  sicDescription?: string;
+  stateOfIncorporation?: string;
+  stateOfIncorporationDescription?: string;
+  fiscalYearEnd?: string;       // "MMDD", e.g. "0928"
+  category: string[];           // "Large accelerated filer", "Smaller reporting company", ...
+  ein?: string;
+  phone?: string;
+  website?: string;
+  listings: { ticker: string; exchange?: string }[];
+  addresses: { business?: Address; mailing?: Address };
+  formerNames: FormerName[];    // newest first
+};
+
+const str = (v: any) => (v === null || v === undefined || String(v).trim() === "" ? undefined : String(v).trim());
+
+function toAddress(a: any): Address | undefined {
+  if (!a || (!str(a.street1) && !str(a.city))) return undefined;
+  return {
+    street1: str(a.street1),
+    street2: str(a.street2),
+    city: str(a.city),
+    stateOrCountry: str(a.stateOrCountry),
+    stateOrCountryDescription: str(a.stateOrCountryDescription),
+    zipCode: str(a.zipCode),
+    country: str(a.country),
+    foreign: a.isForeignLocation === 1 || a.isForeignLocation === true,
+  };
+}
+
+/** The submissions JSON (data.sec.gov/submissions/CIK##########.json) as a profile */
+export function parseCompanyProfile(j: any, cik10: string): CompanyProfile {
+  const tickers: any[] = Array.isArray(j?.tickers) ? j.tickers : [];
+  const exchanges: any[] = Array.isArray(j?.exchanges) ? j.exchanges : [];
+  const formerNames: FormerName[] = (Array.isArray(j?.formerNames) ? j.formerNames : [])
+    .filter((f: any) => str(f?.name))
+    .map((f: any) => ({ name: str(f.name)!, from: str(f.from)?.slice(0, 10), to: str(f.to)?.slice(0, 10) }))
+    .sort((a: FormerName, b: FormerName) => ((a.to || "") < (b.to || "") ? 1 : -1));
+
+  return {
+    cik: cik10,
+    name: str(j?.name) || cik10,
+    entityType: str(j?.entityType),
+    sic: str(j?.sic),
+    sicDescription: str(j?.sicDescription),
+    stateOfIncorporation: str(j?.stateOfIncorporation),
+    stateOfIncorporationDescription: str(j?.stateOfIncorporationDescription),
+    fiscalYearEnd: str(j?.fiscalYearEnd),
+    // "Large accelerated filer<br>Emerging growth company"
+    category: (str(j?.category) || "").split(/<br\s*\/?>|\|/i).map((s) => s.trim()).filter(Boolean),
+    ein: str(j?.ein),
+    phone: str(j?.phone),
+    website: str(j?.website) || str(j?.investorWebsite),
+    // paired before filtering, so an empty ticker cannot shift later exchanges
+    listings: tickers
+      .map((t, i) => ({ ticker: String(str(t) || "").toUpperCase(), exchange: str(exchanges[i]) }))
+      .filter((l) => l.ticker),
+    addresses: { business: toAddress(j?.addresses?.business), mailing: toAddress(j?.addresses?.mailing) },
+    formerNames,
+  };
+}
+
+/** Profile for one CIK; the submissions JSON is shared with the filings routes through the secJSON cache */
+export async function loadCompanyProfile(
+  cik10: string
+): Promise<{ ok: true; profile: CompanyProfile } | { ok: false; status: number; error: string }> {
+  const r = await secJSON(`${SEC_BASE}/submissions/CIK${cik10}.json`);
+  if (r.ok === false) return { ok: false, status: r.status, error: r.error };
+  return { ok: true, profile: parseCompanyProfile(r.data, cik10) };
+}
@@ -0,0 +1,261 @@
+// lib/compensation.ts
+// DEF 14A proxy statements: the Summary Compensation Table and the
+// pay-versus-performance table as structured rows.
+import { tableGrid } from "./html";
+import { buildOpenUrl, recentFilings, secFetch, type RecentFiling } from "./sec";
+
+export type CompRow = {
+  executive: string;
+  title?: string;
+  year: number;
+  salary?: number;
+  bonus?: number;
+  stockAwards?: number;
+  optionAwards?: number;
+  nonEquityIncentive?: number;
+  pensionChange?: number;   // change in pension value / nonqualified deferred comp earnings
+  allOther?: number;
+  total?: number;
+};
+
+/** Amounts as reported; net income is often in thousands or millions */
+export type PayVsPerformanceRow = {
+  year: number;
+  peoSctTotal?: number;
+  peoCompensationActuallyPaid?: number;
+  neoAvgSctTotal?: number;
+  neoAvgCompensationActuallyPaid?: number;
+  tsr?: number;      // value of an initial fixed $100 investment
+  peerTsr?: number;
+  netIncome?: number;
+};
+
+type SctField = Exclude<keyof CompRow, "executive" | "title" | "year">;
+type PvpField = Exclude<keyof PayVsPerformanceRow, "year">;
+
+// First match wins, so the more specific labels come first
+const SCT_COLUMNS: [SctField, RegExp][] = [
+  ["nonEquityIncentive", /non-?\s*equity/i],
+  ["pensionChange", /pension|deferred/i],
+  ["allOther", /all\s+other/i],
+  ["stockAwards", /stock\s+awards?/i],
+  ["optionAwards", /option(\/SAR)?\s+awards?/i],
+  ["bonus", /bonus/i],
+  ["salary", /salary/i],
+  ["total", /total/i],
+];
+
+const PVP_COLUMNS: [PvpField, RegExp][] = [
+  ["neoAvgCompensationActuallyPaid", /average.*actually\s+paid|actually\s+paid.*(non-?\s*PEO|other\s+NEO)/i],
+  ["neoAvgSctTotal", /average.*(summary\s+compensation|SCT)|(summary\s+compensation|SCT).*(non-?\s*PEO|other\s+NEO)/i],
+  ["peoCompensationActuallyPaid", /actually\s+paid/i],
+  ["peoSctTotal", /summary\s+compensation\s+table\s+total|SCT\s+total/i],
+  ["peerTsr", /peer/i],
+  ["tsr", /total\s+shareholder\s+return|\bTSR\b/i],
+  ["netIncome", /net\s+income/i],
+];
+
+const YEAR = /^(?:FY\s*|Fiscal\s+(?:Year\s+)?)?((?:19|20)\d{2})(?:\s*\(\d{1,2}\))?$/i;
+const TITLE_START =
+  /\b(Chief|President|Chair(man|woman|person)?|Executive|Senior|Vice|Former|General\s+Counsel|CEO|CFO|COO|CTO|Co-|Treasurer|Secretary|Director|EVP|SVP|Principal|Head|Group|Managing)\b/;
+
+/** "$1,234,567(3)" -> 1234567; "—" -> 0; "(1,234)" -> -1234 */
+function amount(cell: string): number | undefined {
+  const s = cell
+    .replace(/(\d)\s*\(\d{1,2}\)$/, "$1") // footnote marker
+    .replace(/[*†‡]+$/, "")
+    .replace(/[$\s]/g, "");
+  if (/^[—–-]+$/.test(s)) return 0;
+  const m = s.match(/^(\()?([\d,]+(?:\.\d+)?)\)?$/);
+  if (!m) return undefined;
+  const n = Number(m[2].replace(/,/g, ""));
+  return Number.isFinite(n) ? (m[1] ? -n : n) : undefined;
+}
+
+const isAmount = (cell: string) => amount(cell) !== undefined;
+
+function yearIndex(row: string[]) {
+  return row.findIndex((c) => YEAR.test(c.trim()));
+}
+
+/** Header label per column = its header-row texts joined */
+function headerLabels(grid: string[][], firstData: number) {
+  const width = Math.max(...grid.map((r) => r.length));
+  return Array.from({ length: width }, (_, c) =>
+    grid.slice(0, firstData).map((r) => r[c] || "").filter(Boolean).join(" ")
+  );
+}
+
+/**
+ * Values after the year cell, assigned to the classified columns: by order
+ * when the counts agree (header and body cells often sit one column apart),
+ * otherwise by column index.
+ */
+function assign<F extends string>(row: string[], yi: number, cols: { field: F; index: number }[]) {
+  const out: Partial<Record<F, number>> = {};
+  const cells = row.map((c, i) => ({ c, i })).filter(({ c, i }) => i > yi && isAmount(c));
+  if (cells.length === cols.length) {
+    cols.forEach((col, k) => (out[col.field] = amount(cells[k].c)));
+  } else {
+    cols.forEach((col) => {
+      const v = row[col.index] !== undefined ? amount(row[col.index]) : undefined;
+      if (v !== undefined) out[col.field] = v;
+    });
+  }
+  return out;
+}
+
+function classify<F extends string>(labels: string[], table: [F, RegExp][], skipBefore: number) {
+  const cols: { field: F; index: number }[] = [];
+  labels.forEach((label, index) => {
+    if (index <= skipBefore || !label) return;
+    const hit = table.find(([field, re]) => re.test(label) && !cols.some((c) => c.field === field));
+    if (hit) cols.push({ field: hit[0], index });
+  });
+  return cols;
+}
+
+function splitNameTitle(cell: string) {
+  const clean = cell.replace(/\s*\(\d{1,2}\)/g, "").replace(/[*†‡]/g, "").replace(/\s+/g, " ").trim();
+  const at = clean.search(TITLE_START);
+  if (at < 0) return { executive: clean };
+  return {
+    executive: clean.slice(0, at).replace(/[,\-–—\s]+$/, ""),
+    title: clean.slice(at).trim() || undefined,
+  };
+}
+
+function parseSummaryTable(grid: string[][]): CompRow[] {
+  const firstData = grid.findIndex((r) => yearIndex(r) >= 0);
+  if (firstData <= 0) return [];
+  const labels = headerLabels(grid, firstData);
+  const yearCol = yearIndex(grid[firstData]);
+  const cols = classify(labels, SCT_COLUMNS, yearCol);
+  if (!cols.some((c) => c.field === "salary") || !cols.some((c) => c.field === "total")) return [];
+
+  // titles often continue on the executive's later rows, so rows point at a shared record
+  const rows: { who: { executive: string; title?: string }; row: Omit<CompRow, "executive" | "title"> }[] = [];
+  let who: { executive: string; title?: string } | null = null;
+  for (const row of grid.slice(firstData)) {
+    const yi = yearIndex(row);
+    const nameCell = row.slice(0, yi >= 0 ? yi : row.length).find((c) => c && !isAmount(c) && !YEAR.test(c));
+    if (nameCell) {
+      const next = splitNameTitle(nameCell);
+      if (next.executive) who = next;
+      else if (who && next.title) who.title = who.title ? `${who.title} ${next.title}` : next.title;
+    }
+    if (yi < 0 || !who) continue;
+    rows.push({ who, row: { year: Number(row[yi].match(YEAR)![1]), ...assign(row, yi, cols) } });
+  }
+  return rows.map(({ who, row }) => ({ executive: who.executive, title: who.title, ...row }));
+}
+
+function parsePayVsPerformance(grid: string[][]): PayVsPerformanceRow[] {
+  const firstData = grid.findIndex((r) => yearIndex(r) >= 0);
+  if (firstData <= 0) return [];
+  const labels = headerLabels(grid, firstData);
+  const cols = classify(labels, PVP_COLUMNS, yearIndex(grid[firstData]));
+  if (!cols.some((c) => c.field === "peoCompensationActuallyPaid")) return [];
+  return grid
+    .slice(firstData)
+    .filter((r) => yearIndex(r) >= 0)
+    .map((r) => {
+      const yi = yearIndex(r);
+      return { year: Number(r[yi].match(YEAR)![1]), ...assign(r, yi, cols) };
+    });
+}
+
+/**
+ * Find and parse both tables in a proxy statement. The Summary Compensation
+ * Table is the first table with Year, Salary and Total columns; pay versus
+ * performance is the one with "Compensation Actually Paid".
+ */
+export function parseProxyTables(html: string) {
+  let summary: CompRow[] = [];
+  let payVsPerformance: PayVsPerformanceRow[] = [];
+  for (const t of html.match(/<table[\s\S]*?<\/table>/gi) || []) {
+    if (summary.length && payVsPerformance.length) break;
+    const head = t.slice(0, 6000).replace(/<[^>]+>/g, " ").replace(/&nbsp;|&#160;/gi, " ");
+    if (!summary.length && /salary/i.test(head) && /total/i.test(head) && /year/i.test(head)) {
+      summary = parseSummaryTable(tableGrid(t));
+    } else if (!payVsPerformance.length && /actually\s+paid/i.test(head)) {
+      payVsPerformance = parsePayVsPerformance(tableGrid(t));
+    }
+  }
+  return { summary, payVsPerformance };
+}
+
+export type ProxyCompensation = {
+  accessionNumber: string;
+  filed: string;
+  url: string;
+  summary: CompRow[];
+  payVsPerformance: PayVsPerformanceRow[];
+};
+
+// Filings never change once accepted
+const CACHE = new Map<string, ProxyCompensation>();
+const MAX_CACHE = 200;
+
+export async function loadProxyCompensation(cik10: string, f: RecentFiling): Promise<ProxyCompensation | null> {
+  const cached = CACHE.get(f.accessionNumber);
+  if (cached) return cached;
+  if (!f.primaryDocument) return null;
+
+  const url = buildOpenUrl(cik10, f.accessionNumber, f.primaryDocument);
+  const r = await secFetch(url, { headers: { Accept: "text/html,*/*" } });
+  if (!r.ok) return null;
+  const entry: ProxyCompensation = {
+    accessionNumber: f.accessionNumber,
+    filed: f.filingDate,
+    url,
+    ...parseProxyTables(await r.text()),
+  };
+  if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+  CACHE.set(f.accessionNumber, entry);
+  return entry;
+}
+
+/** Definitive proxy statements (DEF 14A), newest first */
+export async function proxyFilings(cik10: string): Promise<RecentFiling[]> {
+  return ((await recentFilings(cik10)) || []).filter((f) => f.form.toUpperCase() === "DEF 14A");
+}
+
+const personKey = (name: string) => name.toUpperCase().replace(/[^A-Z ]/g, "").replace(/\s+/g, " ").trim();
+
+/**
+ * Each proxy repeats up to three years; the newest proxy wins for an
+ * executive + year (restated figures), and rows come back oldest first.
+ */
+export function mergeCompensation(proxies: ProxyCompensation[]) {
+  const summary = new Map<string, CompRow>();
+  const pvp = new Map<number, PayVsPerformanceRow>();
+  for (const p of proxies.slice().sort((a, b) => (a.filed < b.filed ? 1 : -1))) {
+    p.summary.forEach((r) => {
+      const k = `${personKey(r.executive)}:${r.year}`;
+      if (!summary.has(k)) summary.set(k, r);
+    });
+    p.payVsPerformance.forEach((r) => {
+      if (!pvp.has(r.year)) pvp.set(r.year, r);
+    });
+  }
+  return {
+    summary: Array.from(summary.values()).sort((a, b) => a.year - b.year || a.executive.localeCompare(b.executive)),
+    payVsPerformance: Array.from(pvp.values()).sort((a, b) => a.year - b.year),
+  };
+}
+
+/** Rows grouped per executive (the name of their latest row), highest latest total first */
+export function byExecutive(rows: CompRow[]) {
+  const out = new Map<string, { executive: string; title?: string; years: CompRow[] }>();
+  for (const r of rows) {
+    const k = personKey(r.executive);
+    const cur = out.get(k) || { executive: r.executive, title: r.title, years: [] };
+    cur.years.push(r);
+    cur.executive = r.executive;
+    cur.title = r.title || cur.title;
+    out.set(k, cur);
+  }
+  const latestTotal = (e: { years: CompRow[] }) => e.years[e.years.length - 1]?.total ?? 0;
+  return Array.from(out.values()).sort((a, b) => latestTotal(b) - latestTotal(a));
+}
@@ -0,0 +1,19 @@
+// lib/cron.ts
+// Guard for the scheduler-only ingest routes.
+import { NextResponse } from "next/server";
+
+/**
+ * null when the request carries `Authorization: Bearer <CRON_SECRET>`,
+ * otherwise the response to send. Fails closed: with CRON_SECRET unset the
+ * route answers 503 instead of running for anyone.
+ */
+export function requireCron(req: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ ok: false, error: "CRON_SECRET is not configured" }, { status: 503 });
+  }
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
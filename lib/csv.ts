@@ -0,0 +1,17 @@
+// lib/csv.ts
+// CSV text (RFC 4180) for downloads.
+
+/**
+ * Quoted only when it holds a comma, quote or line break. Text that a
+ * spreadsheet would run as a formula (= + - @, tab, CR first) gets a leading
+ * apostrophe; plain signed numbers are left alone.
+ */
+export function csvCell(v: unknown) {
+  let s = v === null || v === undefined ? "" : Array.isArray(v) ? v.join("; ") : String(v);
+  if (typeof v !== "number" && /^[=+\-@\t\r]/.test(s) && !/^[+-]?\d+(\.\d+)?$/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(header: string[], rows: unknown[][]) {
+  return [header, ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
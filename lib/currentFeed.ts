@@ -0,0 +1,207 @@
+// lib/currentFeed.ts
+// Poller over the EDGAR "current events" Atom feed, shared by every SSE client
+// in this process. Entries are de-duplicated by accession number.
+import { decodeEntities } from "./html";
+import { normalizeCIK, secFetch } from "./sec";
+import { tickersByCik } from "./tickers";
+
+const FEED_URL = "https://www.sec.gov/cgi-bin/browse-edgar?action=getcurrent&type=&company=&dateb=&owner=include&count=100&output=atom";
+const POLL_MS = 20_000;
+const MAX_PAGES = 4;       // a busy minute can push more than 100 entries through
+const BUFFER_SIZE = 2000;  // events kept for resume
+const SEEN_SIZE = 10_000;
+
+export type FeedEntity = { cik: string; name: string; role: string }; // role: Filer, Issuer, Reporting, Subject, ...
+
+export type FilingEvent = {
+  seq: number;
+  accessionNumber: string;
+  form: string;
+  cik: string;      // issuer / subject when there is one, else the filer
+  company: string;
+  ticker?: string;
+  entities: FeedEntity[];
+  filed: string;    // YYYY-MM-DD
+  accepted: string; // ISO timestamp from <updated>
+  link: string;     // -index.htm
+};
+
+type Listener = (e: FilingEvent) => void;
+
+type FeedState = {
+  seq: number;
+  buffer: FilingEvent[];
+  seen: Set<string>;
+  listeners: Set<Listener>;
+  primed: boolean; // first poll done; its entries predate every subscriber
+  timer: ReturnType<typeof setTimeout> | null;
+  lastPoll: string | null;
+  lastError: string | null;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var feedState: FeedState | undefined;
+}
+
+const state: FeedState =
+  global.feedState ||
+  (global.feedState = {
+    seq: 0,
+    buffer: [],
+    seen: new Set(),
+    listeners: new Set(),
+    primed: false,
+    timer: null,
+    lastPoll: null,
+    lastError: null,
+  });
+
+type RawEntry = FeedEntity & { accessionNumber: string; form: string; filed: string; accepted: string; link: string };
+
+function tag(block: string, name: string) {
+  const m = block.match(new RegExp(`<${name}[^>]*>([\\s\\S]*?)</${name}>`, "i"));
+  return m ? decodeEntities(m[1]).trim() : "";
+}
+
+/** "4 - Smith John (0001234567) (Reporting)" -> name, cik, role */
+export function parseAtom(xml: string): RawEntry[] {
+  const out: RawEntry[] = [];
+  for (const m of xml.matchAll(/<entry>([\s\S]*?)<\/entry>/gi)) {
+    const block = m[1];
+    const title = tag(block, "title");
+    const summary = tag(block, "summary");
+    const acc = (summary.match(/AccNo:\s*(?:<\/b>)?\s*(\d{10}-\d{2}-\d{6})/i) || tag(block, "id").match(/(\d{10}-\d{2}-\d{6})/))?.[1];
+    const t = title.match(/^(.+?)\s+-\s+(.+)\s+\((\d{1,10})\)\s+\(([^)]+)\)\s*$/);
+    if (!acc || !t) continue;
+    const form = (block.match(/<category[^>]*term="([^"]+)"/i)?.[1] || t[1]).trim();
+    out.push({
+      accessionNumber: acc,
+      form: decodeEntities(form),
+      name: t[2].trim(),
+      cik: normalizeCIK(t[3]) || t[3],
+      role: t[4].trim(),
+      filed: summary.match(/Filed:\s*(?:<\/b>)?\s*(\d{4}-\d{2}-\d{2})/i)?.[1] || "",
+      accepted: tag(block, "updated"),
+      link: block.match(/<link[^>]*href="([^"]+)"/i)?.[1] || "",
+    });
+  }
+  return out;
+}
+
+/** Issuer / subject is the company the filing is about; otherwise the filer */
+function mainEntity(entities: FeedEntity[]) {
+  return entities.find((e) => /issuer|subject/i.test(e.role)) || entities[0];
+}
+
+function publish(e: FilingEvent, notify: boolean) {
+  state.buffer.push(e);
+  if (state.buffer.length > BUFFER_SIZE) state.buffer.splice(0, state.buffer.length - BUFFER_SIZE);
+  if (!notify) return;
+  state.listeners.forEach((fn) => {
+    try {
+      fn(e);
+    } catch {
+      // a broken client must not stop the others
+    }
+  });
+}
+
+async function pollOnce() {
+  const fresh: RawEntry[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const r = await secFetch(`${FEED_URL}&start=${page * 100}`, { headers: { Accept: "application/atom+xml,*/*" } });
+    if (!r.ok) throw new Error(`SEC current feed failed (${r.status})`);
+    const entries = parseAtom(await r.text());
+    const unseen = entries.filter((x) => !state.seen.has(x.accessionNumber));
+    fresh.push(...unseen);
+    // stop once we reach filings we already have (or on the very first poll)
+    if (unseen.length < entries.length || !entries.length || !state.primed) break;
+  }
+
+  // one accession shows up once per entity (e.g. Form 4: Reporting + Issuer)
+  const byAcc = new Map<string, RawEntry[]>();
+  for (const x of fresh) {
+    const list = byAcc.get(x.accessionNumber);
+    if (list) list.push(x);
+    else byAcc.set(x.accessionNumber, [x]);
+  }
+
+  const tickers = await tickersByCik().catch(() => null);
+  // the first poll only seeds the buffer (for ?backlog=): those filings are not
+  // news to anyone already subscribed
+  const notify = state.primed;
+  state.primed = true;
+  // feed is newest first; publish oldest first so seq follows acceptance order
+  for (const [acc, list] of Array.from(byAcc.entries()).reverse()) {
+    const entities = list.map(({ cik, name, role }) => ({ cik, name, role }));
+    const main = mainEntity(entities);
+    state.seen.add(acc);
+    publish({
+      seq: ++state.seq,
+      accessionNumber: acc,
+      form: list[0].form,
+      cik: main.cik,
+      company: main.name,
+      ticker: tickers?.get(main.cik)?.[0]?.ticker,
+      entities,
+      filed: list[0].filed,
+      accepted: list[0].accepted,
+      link: list[0].link,
+    }, notify);
+  }
+
+  if (state.seen.size > SEEN_SIZE) {
+    const drop = state.seen.size - SEEN_SIZE;
+    let i = 0;
+    for (const acc of Array.from(state.seen)) {
+      if (i++ >= drop) break;
+      state.seen.delete(acc);
+    }
+  }
+}
+
+async function loop() {
+  try {
+    await pollOnce();
+    state.lastError = null;
+  } catch (e: any) {
+    state.lastError = e?.message || String(e);
+  }
+  state.lastPoll = new Date().toISOString();
+  // nobody listening any more: stop polling until the next subscriber
+  state.timer = state.listeners.size ? setTimeout(loop, POLL_MS) : null;
+}
+
+/**
+ * Receive every new filing as it is published. The poller runs only while at
+ * least one subscriber is attached. Returns an unsubscribe function.
+ */
+export function subscribe(fn: Listener): () => void {
+  state.listeners.add(fn);
+  if (!state.timer) state.timer = setTimeout(loop, 0);
+  return () => {
+    state.listeners.delete(fn);
+  };
+}
+
+/**
+ * Buffered events after `lastSeen` (an accession number); the whole buffer
+ * when `lastSeen` is missing. null when `lastSeen` is not in the buffer (too
+ * old, or seen on another instance), so callers can fall back to a short
+ * backlog instead of replaying everything.
+ */
+export function eventsSince(lastSeen?: string | null): FilingEvent[] | null {
+  if (!lastSeen) return state.buffer.slice();
+  const i = state.buffer.findIndex((e) => e.accessionNumber === lastSeen);
+  return i >= 0 ? state.buffer.slice(i + 1) : null;
+}
+
+export function feedStatus() {
+  return {
+    subscribers: state.listeners.size,
+    buffered: state.buffer.length,
+    lastPoll: state.lastPoll,
+    lastError: state.lastError,
+  };
+}
@@ -0,0 +1,176 @@
+// lib/edgarIndex.ts
+// Ingest EDGAR daily / quarterly form.idx + master.idx files into the database.
+import { prisma } from "./prisma";
+import { SEC_ARCHIVES, SEC_BASE, mapLimit, normalizeCIK, secFetch } from "./sec";
+
+export type IndexType = "master" | "form";
+
+export type IndexEntry = {
+  accessionNumber: string;
+  cik: string;
+  company: string;
+  form: string;
+  filed: string; // YYYY-MM-DD
+  fileName: string;
+};
+
+const INSERT_CHUNK = 1000;
+const ENRICH_CONCURRENCY = 4;
+
+/** Daily index for one business day, e.g. daily-index/2024/QTR1/master.20240102.idx */
+export function dailyIndexPath(date: string, type: IndexType = "master") {
+  const [y, m, d] = date.split("-");
+  const qtr = Math.ceil(parseInt(m, 10) / 3);
+  return `daily-index/${y}/QTR${qtr}/${type}.${y}${m}${d}.idx`;
+}
+
+/** Full quarterly index, e.g. full-index/2024/QTR1/master.idx */
+export function quarterlyIndexPath(year: number, qtr: number, type: IndexType = "master") {
+  return `full-index/${year}/QTR${qtr}/${type}.idx`;
+}
+
+function isoDate(s: string) {
+  const d = s.replace(/\D/g, "");
+  return d.length === 8 ? `${d.slice(0, 4)}-${d.slice(4, 6)}-${d.slice(6)}` : "";
+}
+
+/** "edgar/data/320193/0000320193-24-000123.txt" -> "0000320193-24-000123" */
+function accessionFromFile(fileName: string) {
+  const m = fileName.match(/(\d{10}-\d{2}-\d{6})/);
+  return m ? m[1] : null;
+}
+
+function entry(cikRaw: string, company: string, form: string, date: string, fileName: string): IndexEntry | null {
+  const cik = normalizeCIK(cikRaw);
+  const acc = accessionFromFile(fileName);
+  const filed = isoDate(date);
+  if (!cik || !acc || !filed || !form) return null;
+  return { accessionNumber: acc, cik, company, form, filed, fileName };
+}
+
+/** Body lines start after the dashed rule under the column headers */
+function bodyLines(text: string) {
+  const lines = text.split(/\r?\n/);
+  const rule = lines.findIndex((l) => /^-{10,}/.test(l));
+  return { header: rule > 0 ? lines[rule - 1] : "", body: rule >= 0 ? lines.slice(rule + 1) : [] };
+}
+
+/** master.idx: CIK|Company Name|Form Type|Date Filed|Filename */
+export function parseMasterIdx(text: string): IndexEntry[] {
+  const out: IndexEntry[] = [];
+  for (const line of bodyLines(text).body) {
+    const parts = line.split("|");
+    if (parts.length < 5) continue;
+    const e = entry(parts[0], parts[1].trim(), parts[2].trim(), parts[3], parts[4].trim());
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+/**
+ * form.idx is fixed width. Form types and company names can both contain
+ * spaces, so the right-hand columns are matched from the end of the line and
+ * the header tells where the company column starts.
+ */
+export function parseFormIdx(text: string): IndexEntry[] {
+  const { header, body } = bodyLines(text);
+  const companyCol = Math.max(1, header.indexOf("Company Name"));
+  const out: IndexEntry[] = [];
+  for (const line of body) {
+    const m = line.match(/^(.*?)\s+(\d{1,10})\s+(\d{4}-?\d{2}-?\d{2})\s+(edgar\/\S+)\s*$/);
+    if (!m) continue;
+    const form = m[1].slice(0, companyCol).trim();
+    const company = m[1].slice(companyCol).trim();
+    const e = entry(m[2], company, form, m[3], m[4]);
+    if (e) out.push(e);
+  }
+  return out;
+}
+
+export type IngestResult = {
+  path: string;
+  status: "ingested" | "unchanged" | "missing";
+  parsed: number;
+  inserted: number;
+  enriched: number;
+};
+
+/**
+ * Fetch one index file and insert its filings. Re-runs are cheap: the stored
+ * ETag / Last-Modified turn an unchanged file into a 304, and inserts skip
+ * (accession, CIK) pairs that are already present.
+ */
+export async function ingestIndex(path: string, opts: { enrich?: number } = {}): Promise<IngestResult> {
+  const known = await prisma.edgarIndexFile.findUnique({ where: { path } });
+  const headers: Record<string, string> = { Accept: "text/plain,*/*" };
+  if (known?.etag) headers["If-None-Match"] = known.etag;
+  if (known?.lastModified) headers["If-Modified-Since"] = known.lastModified;
+
+  const r = await secFetch(`${SEC_ARCHIVES}/edgar/${path}`, { headers });
+  if (r.status === 304) return { path, status: "unchanged", parsed: known?.rows ?? 0, inserted: 0, enriched: 0 };
+  // daily files do not exist for weekends / holidays (SEC answers 403 or 404)
+  if (r.status === 404 || r.status === 403) return { path, status: "missing", parsed: 0, inserted: 0, enriched: 0 };
+  if (!r.ok) throw new Error(`SEC index fetch failed (${r.status}) for ${path}`);
+
+  const text = await r.text();
+  const entries = /(^|\/)form\.[\d.]*idx$/.test(path) ? parseFormIdx(text) : parseMasterIdx(text);
+
+  // carry over SIC / state for companies we already know
+  const ciks = Array.from(new Set(entries.map((e) => e.cik)));
+  const companies = await prisma.edgarCompany.findMany({ where: { cik: { in: ciks } } });
+  const profile = new Map<string, { sic: string | null; state: string | null }>(
+    companies.map((c: any) => [c.cik, { sic: c.sic, state: c.state }])
+  );
+
+  let inserted = 0;
+  for (let i = 0; i < entries.length; i += INSERT_CHUNK) {
+    const data = entries.slice(i, i + INSERT_CHUNK).map((e) => ({
+      ...e,
+      sic: profile.get(e.cik)?.sic ?? null,
+      state: profile.get(e.cik)?.state ?? null,
+      source: path,
+    }));
+    const res = await prisma.edgarFiling.createMany({ data, skipDuplicates: true });
+    inserted += res.count;
+  }
+
+  const validators = {
+    rows: entries.length,
+    etag: r.headers.get("etag") || null,
+    lastModified: r.headers.get("last-modified") || null,
+  };
+  await prisma.edgarIndexFile.upsert({ where: { path }, create: { path, ...validators }, update: validators });
+
+  const missing = ciks.filter((c) => !profile.has(c));
+  const enriched = await enrichCompanies(missing, opts.enrich ?? 100);
+  return { path, status: "ingested", parsed: entries.length, inserted, enriched };
+}
+
+/**
+ * Pull SIC + state (and former names, for lookup) from the submissions JSON
+ * for up to `max` companies and copy SIC + state onto their filings. Index
+ * files carry neither field.
+ */
+export async function enrichCompanies(ciks: string[], max: number): Promise<number> {
+  const todo = ciks.slice(0, Math.max(0, max));
+  const done = await mapLimit(todo, ENRICH_CONCURRENCY, async (cik) => {
+    const r = await secFetch(`${SEC_BASE}/submissions/CIK${cik}.json`);
+    if (!r.ok) return false;
+    const j = await r.json().catch(() => null);
+    if (!j) return false;
+    const profile = {
+      name: String(j.name || ""),
+      sic: j.sic ? String(j.sic) : null,
+      sicDescription: j.sicDescription || null,
+      state: j.addresses?.business?.stateOrCountry || j.addresses?.mailing?.stateOrCountry || null,
+      stateOfIncorporation: j.stateOfIncorporation || null,
+      formerNames: Array.isArray(j.formerNames)
+        ? j.formerNames.map((f: any) => String(f?.name || "").trim()).filter(Boolean).join("|") || null
+        : null,
+    };
+    await prisma.edgarCompany.upsert({ where: { cik }, create: { cik, ...profile }, update: profile });
+    await prisma.edgarFiling.updateMany({ where: { cik }, data: { sic: profile.sic, state: profile.state } });
+    return true;
+  });
+  return done.filter(Boolean).length;
+}
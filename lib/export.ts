@@ -0,0 +1,69 @@
+// lib/export.ts
+// Table downloads for the data routes: with ?format=csv|xlsx|ndjson a route
+// answers with its full filtered result set as a file instead of JSON.
+import { toCsv } from "./csv";
+import { toXlsx } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx" | "ndjson";
+
+/** One output column: `label` heads CSV / XLSX, `key` names the NDJSON field */
+export type ExportColumn<T> = { key: string; label: string; value?: (row: T) => unknown };
+
+const FORMATS: Record<ExportFormat, { type: string; ext: string }> = {
+  csv: { type: "text/csv; charset=utf-8", ext: "csv" },
+  xlsx: { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", ext: "xlsx" },
+  ndjson: { type: "application/x-ndjson; charset=utf-8", ext: "ndjson" },
+};
+
+/** ?format=, or null for the route's normal JSON */
+export function exportFormat(searchParams: URLSearchParams): ExportFormat | null {
+  const f = (searchParams.get("format") || "").trim().toLowerCase();
+  return Object.keys(FORMATS).includes(f) ? (f as ExportFormat) : null;
+}
+
+/** Numeric strings ("1,234.5") as numbers, so spreadsheets can sum them */
+export function asNumber(v: unknown): number | null {
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v !== "string" || !v.trim()) return null;
+  const n = Number(v.replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Response header carrying `truncated` (ExportButton shows it next to the button) */
+export const EXPORT_NOTE_HEADER = "X-Export-Note";
+
+/**
+ * The rows as a download named `{name}-{YYYY-MM-DD}.{ext}`. Arrays become
+ * "a; b" cells in CSV / XLSX and stay arrays in NDJSON. Routes that stop at a
+ * cap pass `truncated` saying what was left out.
+ */
+export function exportResponse<T>(
+  format: ExportFormat,
+  name: string,
+  columns: ExportColumn<T>[],
+  rows: T[],
+  truncated?: string
+): Response {
+  const values = rows.map((r) => columns.map((c) => (c.value ? c.value(r) : (r as any)?.[c.key]) ?? null));
+  const labels = columns.map((c) => c.label);
+
+  let body: string | Buffer;
+  if (format === "xlsx") body = toXlsx(labels, values, name);
+  else if (format === "csv") body = toCsv(labels, values);
+  else {
+    body = values
+      .map((v) => JSON.stringify(Object.fromEntries(columns.map((c, i) => [c.key, v[i]]))) + "\n")
+      .join("");
+  }
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const file = `${name.replace(/[^\w.\-]+/g, "_")}-${stamp}.${FORMATS[format].ext}`;
+  return new Response(body, {
+    headers: {
+      "Content-Type": FORMATS[format].type,
+      "Content-Disposition": `attachment; filename="${file}"`,
+      "Cache-Control": "no-store",
+      ...(truncated ? { [EXPORT_NOTE_HEADER]: truncated } : {}),
+    },
+  });
+}
@@ -0,0 +1,108 @@
+// lib/filingDocs.ts
+// Every document in one filing: the Archives index.json listing, typed and
+// described from the {acc}-index.htm tables.
+import { decodeEntities } from "./html";
+import { filingFolder, secFetch } from "./sec";
+
+export type FilingDoc = {
+  seq?: number;
+  name: string;
+  url: string;
+  type: string;         // EX-99.1, EX-21, EX-101.INS, XBRL R file, ...
+  description?: string;
+  size?: number;        // bytes
+  lastModified?: string;
+};
+
+export type FilingMeta = { form?: string; filed?: string; period?: string; company?: string };
+
+function cellText(html: string) {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+/** Rows of the "Document Format Files" / "Data Files" tables on {acc}-index.htm */
+function parseIndexHtml(html: string) {
+  const docs = new Map<string, { seq?: number; type?: string; description?: string }>();
+  for (const tr of html.match(/<tr[\s\S]*?<\/tr>/gi) || []) {
+    const cells = tr.match(/<td[\s\S]*?<\/td>/gi);
+    if (!cells || cells.length < 4) continue;
+    const href = tr.match(/href="[^"]*\/([^"/]+)"/i)?.[1];
+    if (!href) continue;
+    const seq = parseInt(cellText(cells[0]), 10);
+    docs.set(href, {
+      seq: Number.isFinite(seq) ? seq : undefined,
+      description: cellText(cells[1]) || undefined,
+      type: cellText(cells[3]) || undefined,
+    });
+  }
+  const meta: FilingMeta = {
+    form: cellText(html.match(/<div id="formName">([\s\S]*?)<\/div>/i)?.[1] || "").replace(/^Form\s+/i, "").split(" - ")[0] || undefined,
+    filed: html.match(/Filing Date<\/div>\s*<div class="info">([^<]+)</i)?.[1]?.trim(),
+    period: html.match(/Period of Report<\/div>\s*<div class="info">([^<]+)</i)?.[1]?.trim(),
+    company: cellText(html.match(/<span class="companyName">([\s\S]*?)<\/span>/i)?.[1] || "").replace(/\s*\(Filer\).*$/i, "") || undefined,
+  };
+  return { docs, meta };
+}
+
+/** Best-effort type for files the index table doesn't describe */
+function guessType(name: string): string {
+  const n = name.toLowerCase();
+  if (/^r\d+\.htm$/.test(n)) return "XBRL R file";
+  if (n === "filingsummary.xml") return "XBRL filing summary";
+  if (/_htm\.xml$/.test(n)) return "EX-101.INS";
+  if (/_(cal|def|lab|pre)\.xml$/.test(n)) return `EX-101.${n.slice(-7, -4).toUpperCase()}`;
+  if (/\.xsd$/.test(n)) return "EX-101.SCH";
+  if (/\.(jpg|jpeg|gif|png)$/.test(n)) return "GRAPHIC";
+  if (/\.zip$/.test(n)) return "ZIP";
+  if (/\.txt$/.test(n)) return "Complete submission text";
+  if (/\.json$/.test(n)) return "JSON";
+  return "Other";
+}
+
+/**
+ * The filing's documents, described ones in SEC sequence order first (the
+ * primary document is seq 1), then everything else by name.
+ */
+export async function loadFilingDocuments(
+  cik10: string,
+  acc: string
+): Promise<{ ok: true; meta: FilingMeta; docs: FilingDoc[] } | { ok: false; status: number; error: string }> {
+  const folder = filingFolder(cik10, acc);
+  const [ij, ih] = await Promise.all([
+    secFetch(`${folder}/index.json`),
+    secFetch(`${folder}/${acc}-index.htm`, { headers: { Accept: "text/html,*/*" } }),
+  ]);
+  if (!ij.ok) {
+    const text = await ij.text().catch(() => "");
+    return { ok: false, status: ij.status, error: text.slice(0, 300) };
+  }
+  const listing = await ij.json();
+  const { docs: described, meta } = ih.ok
+    ? parseIndexHtml(await ih.text())
+    : { docs: new Map<string, { seq?: number; type?: string; description?: string }>(), meta: {} as FilingMeta };
+
+  const items: any[] = Array.isArray(listing?.directory?.item) ? listing.directory.item : [];
+  const docs: FilingDoc[] = items
+    .filter((it) => it?.name && it.type !== "dir" && !/-index(-headers)?\.html?$/i.test(it.name) && it.name !== "index.json")
+    .map((it) => {
+      const d = described.get(it.name);
+      const size = parseInt(String(it.size || ""), 10);
+      return {
+        seq: d?.seq,
+        name: it.name,
+        url: `${folder}/${it.name}`,
+        type: d?.type || guessType(it.name),
+        description: d?.description,
+        size: Number.isFinite(size) ? size : undefined,
+        lastModified: it["last-modified"] || undefined,
+      };
+    });
+
+  docs.sort((a, b) => {
+    if (a.seq != null && b.seq != null) return a.seq - b.seq;
+    if (a.seq != null) return -1;
+    if (b.seq != null) return 1;
+    return a.name.localeCompare(b.name, undefined, { numeric: true });
+  });
+  return { ok: true, meta, docs };
+}
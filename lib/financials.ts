@@ -0,0 +1,208 @@
+// lib/financials.ts
+// Normalize SEC XBRL companyfacts into income / balance / cash flow series.
+
+export type StatementKey = "income" | "balance" | "cashflow";
+
+type LineDef = {
+  key: string;
+  label: string;
+  /** us-gaap concepts tried in order; first one with data wins per period */
+  concepts: string[];
+  unit?: string; // default USD
+};
+
+/** Common us-gaap concepts per statement line (first match wins) */
+export const STATEMENTS: Record<StatementKey, LineDef[]> = {
+  income: [
+    {
+      key: "revenue",
+      label: "Revenue",
+      concepts: [
+        "Revenues",
+        "RevenueFromContractWithCustomerExcludingAssessedTax",
+        "RevenueFromContractWithCustomerIncludingAssessedTax",
+        "SalesRevenueNet",
+      ],
+    },
+    { key: "costOfRevenue", label: "Cost of revenue", concepts: ["CostOfRevenue", "CostOfGoodsAndServicesSold", "CostOfGoodsSold"] },
+    { key: "grossProfit", label: "Gross profit", concepts: ["GrossProfit"] },
+    { key: "rnd", label: "R&D expense", concepts: ["ResearchAndDevelopmentExpense"] },
+    { key: "sga", label: "SG&A expense", concepts: ["SellingGeneralAndAdministrativeExpense"] },
+    { key: "operatingIncome", label: "Operating income", concepts: ["OperatingIncomeLoss"] },
+    { key: "incomeTax", label: "Income tax", concepts: ["IncomeTaxExpenseBenefit"] },
+    { key: "netIncome", label: "Net income", concepts: ["NetIncomeLoss", "ProfitLoss"] },
+    { key: "epsBasic", label: "EPS (basic)", concepts: ["EarningsPerShareBasic"], unit: "USD/shares" },
+    { key: "epsDiluted", label: "EPS (diluted)", concepts: ["EarningsPerShareDiluted"], unit: "USD/shares" },
+  ],
+  balance: [
+    { key: "cash", label: "Cash & equivalents", concepts: ["CashAndCashEquivalentsAtCarryingValue", "CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents"] },
+    { key: "currentAssets", label: "Current assets", concepts: ["AssetsCurrent"] },
+    { key: "totalAssets", label: "Total assets", concepts: ["Assets"] },
+    { key: "currentLiabilities", label: "Current liabilities", concepts: ["LiabilitiesCurrent"] },
+    { key: "longTermDebt", label: "Long-term debt", concepts: ["LongTermDebtNoncurrent", "LongTermDebt"] },
+    { key: "totalLiabilities", label: "Total liabilities", concepts: ["Liabilities"] },
+    {
+      key: "equity",
+      label: "Shareholders' equity",
+      concepts: ["StockholdersEquity", "StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest"],
+    },
+  ],
+  cashflow: [
+    {
+      key: "operatingCashFlow",
+      label: "Operating cash flow",
+      concepts: ["NetCashProvidedByUsedInOperatingActivities", "NetCashProvidedByUsedInOperatingActivitiesContinuingOperations"],
+    },
+    { key: "capex", label: "Capital expenditures", concepts: ["PaymentsToAcquirePropertyPlantAndEquipment"] },
+    {
+      key: "investingCashFlow",
+      label: "Investing cash flow",
+      concepts: ["NetCashProvidedByUsedInInvestingActivities", "NetCashProvidedByUsedInInvestingActivitiesContinuingOperations"],
+    },
+    {
+      key: "financingCashFlow",
+      label: "Financing cash flow",
+      concepts: ["NetCashProvidedByUsedInFinancingActivities", "NetCashProvidedByUsedInFinancingActivitiesContinuingOperations"],
+    },
+    { key: "dividends", label: "Dividends paid", concepts: ["PaymentsOfDividends", "PaymentsOfDividendsCommonStock"] },
+    { key: "buybacks", label: "Share repurchases", concepts: ["PaymentsForRepurchaseOfCommonStock"] },
+  ],
+};
+
+export type Point = {
+  end: string;
+  start?: string;
+  val: number;
+  fy?: number;
+  fp?: string;
+  form?: string;
+  filed?: string;
+  accn: string;
+  concept: string;
+};
+
+export type LineItem = {
+  key: string;
+  label: string;
+  unit: string;
+  annual: Point[];
+  quarterly: Point[];
+};
+
+type RawFact = {
+  start?: string;
+  end: string;
+  val: number;
+  accn: string;
+  fy?: number;
+  fp?: string;
+  form?: string;
+  filed?: string;
+};
+
+function days(start: string, end: string) {
+  return (Date.parse(end) - Date.parse(start)) / 86_400_000;
+}
+
+const PERIODIC_FORM = /^10-[KQ]|^20-F|^40-F/;
+
+function durationPeriod(f: RawFact): "annual" | "quarterly" | null {
+  const d = days(f.start!, f.end);
+  if (d >= 340 && d <= 380) return "annual";
+  if (d >= 80 && d <= 100) return "quarterly";
+  return null; // year-to-date (6/9 month) values are skipped
+}
+
+type PeriodEnds = { annual: Set<string>; quarterly: Set<string> };
+
+/** Fiscal year and quarter end dates, from the company's duration facts */
+function periodEnds(gaap: any): PeriodEnds {
+  const ends: PeriodEnds = { annual: new Set(), quarterly: new Set() };
+  for (const concept of Object.values<any>(gaap)) {
+    for (const facts of Object.values<any>(concept?.units || {})) {
+      if (!Array.isArray(facts)) continue;
+      for (const f of facts as RawFact[]) {
+        if (!f?.start || !f.end || !PERIODIC_FORM.test(f.form || "")) continue;
+        const p = durationPeriod(f);
+        if (p) ends[p].add(f.end);
+      }
+    }
+  }
+  return ends;
+}
+
+/**
+ * Duration facts by length. Instant facts (balance sheet) by their date: a
+ * 10-Q carries the prior fiscal year-end balance with fp "Q2", so `fp` alone
+ * would file it as quarterly.
+ */
+function periodOf(f: RawFact, ends: PeriodEnds): "annual" | "quarterly" | null {
+  if (f.start) return durationPeriod(f);
+  if (ends.annual.has(f.end)) return "annual";
+  if (ends.quarterly.has(f.end)) return "quarterly";
+  if (ends.annual.size || ends.quarterly.size) return null;
+  // no duration facts to go by
+  if (f.fp === "FY") return "annual";
+  if (/^Q[1-4]$/.test(f.fp || "")) return "quarterly";
+  return null;
+}
+
+/**
+ * Build one line item. Per period end, the most recently filed value wins
+ * (restatements supersede originals); earlier concepts win over later ones.
+ */
+function buildLine(gaap: any, def: LineDef, ends: PeriodEnds): LineItem {
+  const unit = def.unit || "USD";
+  const byPeriod = { annual: new Map<string, Point>(), quarterly: new Map<string, Point>() };
+
+  for (const concept of def.concepts) {
+    const facts: RawFact[] = gaap?.[concept]?.units?.[unit] || [];
+    const seen = { annual: new Set<string>(), quarterly: new Set<string>() };
+    for (const f of facts) {
+      if (!f?.end || typeof f.val !== "number" || !PERIODIC_FORM.test(f.form || "")) continue;
+      const p = periodOf(f, ends);
+      if (!p) continue;
+      const k = f.end;
+      const prev = byPeriod[p].get(k);
+      // a concept earlier in the list already covered this period
+      if (prev && !seen[p].has(k)) continue;
+      if (prev && (prev.filed || "") >= (f.filed || "")) continue;
+      seen[p].add(k);
+      byPeriod[p].set(k, {
+        end: f.end,
+        start: f.start,
+        val: f.val,
+        fy: f.fy,
+        fp: f.fp,
+        form: f.form,
+        filed: f.filed,
+        accn: f.accn,
+        concept,
+      });
+    }
+  }
+
+  const sorted = (m: Map<string, Point>) =>
+    Array.from(m.values()).sort((a, b) => (a.end < b.end ? 1 : a.end > b.end ? -1 : 0));
+
+  return {
+    key: def.key,
+    label: def.label,
+    unit,
+    annual: sorted(byPeriod.annual),
+    quarterly: sorted(byPeriod.quarterly),
+  };
+}
+
+/** companyfacts JSON -> { income, balance, cashflow } with annual + quarterly series */
+export function normalizeCompanyFacts(j: any): Record<StatementKey, LineItem[]> {
+  const gaap = j?.facts?.["us-gaap"] || {};
+  const ends = periodEnds(gaap);
+  const out = {} as Record<StatementKey, LineItem[]>;
+  for (const key of Object.keys(STATEMENTS) as StatementKey[]) {
+    out[key] = STATEMENTS[key]
+      .map((def) => buildLine(gaap, def, ends))
+      .filter((l) => l.annual.length > 0 || l.quarterly.length > 0);
+  }
+  return out;
+}
@@ -0,0 +1,215 @@
+// lib/form13f.ts
+// 13F-HR information table XML -> positions, and quarter-over-quarter changes.
+import { filingFolder, recentFilings, secFetch, type RecentFiling } from "./sec";
+
+export type Position = {
+  issuer: string;
+  titleOfClass?: string;
+  cusip: string;
+  value: number;          // USD
+  shares: number;         // sshPrnamt
+  shareType?: string;     // SH | PRN
+  putCall?: "Put" | "Call";
+  discretion?: string;    // SOLE | DFND | OTR
+  voting: { sole: number; shared: number; none: number };
+};
+
+export type ChangeStatus = "new" | "added" | "reduced" | "exited" | "unchanged";
+
+export type PositionChange = Position & {
+  status: ChangeStatus;
+  priorShares: number;
+  priorValue: number;
+  shareChange: number;
+  pctChange?: number; // vs. prior shares; undefined for new positions
+};
+
+// Filings made on or after 2023-01-03 report value in dollars; earlier ones in thousands
+const DOLLAR_VALUES_FROM = "2023-01-03";
+
+/** Tags may carry a namespace prefix (ns1:infoTable, n1:value, ...) */
+function tagRe(tag: string, flags = "") {
+  return new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, flags);
+}
+
+function text(xml: string, tag: string) {
+  const m = xml.match(tagRe(tag));
+  return m ? m[1].replace(/<[^>]+>/g, "").replace(/&amp;/g, "&").replace(/\s+/g, " ").trim() : "";
+}
+
+function int(xml: string, tag: string) {
+  const n = Number(text(xml, tag).replace(/[,\s]/g, ""));
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Same security + same put/call = one position (managers often split by discretion) */
+function positionKey(p: Pick<Position, "cusip" | "putCall">) {
+  return `${p.cusip}:${p.putCall || ""}`;
+}
+
+/**
+ * Parse the information table. `filed` decides whether <value> is in
+ * dollars or thousands. Rows for the same CUSIP + put/call are summed.
+ */
+export function parseInfoTable(xml: string, filed: string): Position[] {
+  const mult = filed && filed < DOLLAR_VALUES_FROM ? 1000 : 1;
+  const byKey = new Map<string, Position>();
+  for (const m of xml.matchAll(tagRe("infoTable", "g"))) {
+    const row = m[1];
+    const amt = row.match(tagRe("shrsOrPrnAmt"))?.[1] || "";
+    const voting = row.match(tagRe("votingAuthority"))?.[1] || "";
+    const pc = text(row, "putCall").toLowerCase();
+    const p: Position = {
+      issuer: text(row, "nameOfIssuer"),
+      titleOfClass: text(row, "titleOfClass") || undefined,
+      cusip: text(row, "cusip").toUpperCase(),
+      value: int(row, "value") * mult,
+      shares: int(amt, "sshPrnamt"),
+      shareType: text(amt, "sshPrnamtType") || undefined,
+      putCall: pc === "put" ? "Put" : pc === "call" ? "Call" : undefined,
+      discretion: text(row, "investmentDiscretion") || undefined,
+      voting: { sole: int(voting, "Sole"), shared: int(voting, "Shared"), none: int(voting, "None") },
+    };
+    if (!p.cusip) continue;
+    const prev = byKey.get(positionKey(p));
+    if (prev) {
+      prev.value += p.value;
+      prev.shares += p.shares;
+      prev.voting.sole += p.voting.sole;
+      prev.voting.shared += p.voting.shared;
+      prev.voting.none += p.voting.none;
+    } else byKey.set(positionKey(p), p);
+  }
+  return Array.from(byKey.values()).sort((a, b) => b.value - a.value);
+}
+
+/** Current positions annotated against the prior quarter, plus exited ones (shares 0) */
+export function diffHoldings(current: Position[], prior: Position[] | null): PositionChange[] {
+  const before = new Map((prior || []).map((p) => [positionKey(p), p]));
+  const out: PositionChange[] = current.map((p) => {
+    const was = before.get(positionKey(p));
+    before.delete(positionKey(p));
+    const priorShares = was?.shares ?? 0;
+    const shareChange = p.shares - priorShares;
+    const status: ChangeStatus = !prior
+      ? "unchanged"
+      : !was
+      ? "new"
+      : shareChange > 0
+      ? "added"
+      : shareChange < 0
+      ? "reduced"
+      : "unchanged";
+    return {
+      ...p,
+      status,
+      priorShares,
+      priorValue: was?.value ?? 0,
+      shareChange: prior ? shareChange : 0,
+      pctChange: was && priorShares ? (shareChange / priorShares) * 100 : undefined,
+    };
+  });
+  before.forEach((was) => {
+    out.push({
+      ...was,
+      value: 0,
+      shares: 0,
+      voting: { sole: 0, shared: 0, none: 0 },
+      status: "exited",
+      priorShares: was.shares,
+      priorValue: was.value,
+      shareChange: -was.shares,
+      pctChange: -100,
+    });
+  });
+  return out;
+}
+
+export type Holdings = {
+  accessionNumber: string;
+  filed: string;
+  period?: string;
+  infoTableUrl: string;
+  positions: Position[];
+};
+
+// Filings never change once accepted
+const CACHE = new Map<string, Holdings>();
+const MAX_CACHE = 200;
+
+/** A 404 means the document is not there; anything else is SEC being unavailable and worth a retry */
+function fetchFailed(r: Response, url: string) {
+  return new Error(`SEC fetch failed (${r.status}) for ${url}`);
+}
+
+/** The information table is the .xml document that is not primary_doc.xml (the cover page) */
+async function findInfoTable(cik10: string, acc: string) {
+  const folder = filingFolder(cik10, acc);
+  const r = await secFetch(`${folder}/index.json`);
+  if (r.status === 404) return null;
+  if (!r.ok) throw fetchFailed(r, `${folder}/index.json`);
+  const j = await r.json().catch(() => null);
+  const items: any[] = Array.isArray(j?.directory?.item) ? j.directory.item : [];
+  const xml = items
+    .filter((it) => /\.xml$/i.test(it?.name || "") && !/^primary_doc\.xml$/i.test(it.name))
+    .sort((a, b) => (parseInt(b.size, 10) || 0) - (parseInt(a.size, 10) || 0))[0];
+  return xml ? { infoTable: `${folder}/${xml.name}`, coverPage: `${folder}/primary_doc.xml` } : null;
+}
+
+/** Cover page <reportCalendarOrQuarter>MM-DD-YYYY</...> -> YYYY-MM-DD */
+async function reportPeriod(coverPageUrl: string) {
+  const r = await secFetch(coverPageUrl, { headers: { Accept: "application/xml,text/xml,*/*" } });
+  if (r.status === 404) return undefined;
+  if (!r.ok) throw fetchFailed(r, coverPageUrl);
+  const m = text(await r.text(), "reportCalendarOrQuarter").match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  return m ? `${m[3]}-${m[1]}-${m[2]}` : undefined;
+}
+
+/**
+ * Positions of one 13F-HR. When the caller has no report date (e.g. the
+ * filing came from the EDGAR index), it is read from the cover page. null
+ * when the filing has no information table; throws when SEC cannot be read.
+ */
+export async function loadHoldings(
+  cik10: string,
+  f: Pick<RecentFiling, "accessionNumber" | "filingDate" | "reportDate">
+): Promise<Holdings | null> {
+  const cached = CACHE.get(f.accessionNumber);
+  if (cached) return cached;
+
+  const found = await findInfoTable(cik10, f.accessionNumber);
+  if (!found) return null;
+  const r = await secFetch(found.infoTable, { headers: { Accept: "application/xml,text/xml,*/*" } });
+  if (r.status === 404) return null;
+  if (!r.ok) throw fetchFailed(r, found.infoTable);
+  const xml = await r.text();
+
+  const entry: Holdings = {
+    accessionNumber: f.accessionNumber,
+    filed: f.filingDate,
+    period: f.reportDate || (await reportPeriod(found.coverPage)),
+    infoTableUrl: found.infoTable,
+    positions: parseInfoTable(xml, f.filingDate),
+  };
+  if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+  CACHE.set(f.accessionNumber, entry);
+  return entry;
+}
+
+/**
+ * 13F-HR filings, newest first, one per report period (the latest original
+ * filing for a quarter wins; /A amendments are left out).
+ */
+export async function quarterlyReports(cik10: string): Promise<RecentFiling[]> {
+  const list = ((await recentFilings(cik10)) || []).filter((f) => f.form.toUpperCase() === "13F-HR");
+  const seen = new Set<string>();
+  return list
+    .sort((a, b) => (a.filingDate < b.filingDate ? 1 : -1))
+    .filter((f) => {
+      const k = f.reportDate || f.filingDate;
+      if (seen.has(k)) return false;
+      seen.add(k);
+      return true;
+    })
+    .sort((a, b) => ((a.reportDate || a.filingDate) < (b.reportDate || b.filingDate) ? 1 : -1));
+}
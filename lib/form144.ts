@@ -0,0 +1,222 @@
+// lib/form144.ts
+// Form 144 notices of proposed sale (electronic primary_doc.xml, April 2023
+// on) -> seller, shares, market value, broker and approximate sale date, and
+// the Form 4 sales that later carried them out.
+import type { ExportColumn } from "./export";
+import type { InsiderRow } from "./ownership";
+import { buildOpenUrl, filingFolder, recentFilings, secFetch } from "./sec";
+
+export type Form144Notice = {
+  accessionNumber: string;
+  formType: string;           // "144" or "144/A"
+  filedAt: string;
+  issuer: { cik?: string; name: string };
+  seller: string;
+  relationship?: string;      // "Officer", "Director", ...
+  securityClass?: string;
+  shares?: number;            // units to be sold
+  marketValue?: number;       // aggregate market value
+  sharesOutstanding?: number;
+  broker?: string;
+  exchange?: string;
+  approxSaleDate?: string;    // YYYY-MM-DD
+  formUrl: string;
+  indexUrl: string;
+  /** Form 4 sales matched to this notice */
+  sales: { accessionNumber?: string; transDate?: string; shares?: number; price?: number; value?: number; formUrl?: string }[];
+};
+
+/** Download columns shared by /api/insider/form144 and /api/insider?form144=1 */
+export const FORM144_EXPORT_COLUMNS: ExportColumn<Form144Notice>[] = [
+  { key: "filedAt", label: "Filed" },
+  { key: "formType", label: "Form" },
+  { key: "issuer", label: "Issuer", value: (n) => n.issuer.name },
+  { key: "issuerCik", label: "Issuer CIK", value: (n) => n.issuer.cik },
+  { key: "seller", label: "Seller" },
+  { key: "relationship", label: "Relationship" },
+  { key: "securityClass", label: "Security class" },
+  { key: "shares", label: "Shares to be sold" },
+  { key: "marketValue", label: "Aggregate market value" },
+  { key: "sharesOutstanding", label: "Shares outstanding" },
+  { key: "broker", label: "Broker" },
+  { key: "exchange", label: "Exchange" },
+  { key: "approxSaleDate", label: "Approx. sale date" },
+  // only /api/insider links the Form 4 sales
+  { key: "sharesSold", label: "Shares sold (Form 4)", value: (n) => (n.sales.length ? n.sales.reduce((s, x) => s + (x.shares || 0), 0) : null) },
+  { key: "accessionNumber", label: "Accession number" },
+  { key: "formUrl", label: "Form URL" },
+];
+
+// A notice covers sales within 90 days of filing
+const NOTICE_WINDOW_DAYS = 90;
+// ...and is sometimes filed a day or two after the order went in
+const NOTICE_LEAD_DAYS = 3;
+
+/** Tags may carry a namespace prefix */
+function tagRe(tag: string, flags = "") {
+  return new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, flags);
+}
+
+function blocks(xml: string, tag: string) {
+  return Array.from(xml.matchAll(tagRe(tag, "g")), (m) => m[1]);
+}
+
+function text(xml: string, tag: string) {
+  const m = xml.match(tagRe(tag));
+  if (!m) return undefined;
+  const t = m[1]
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+  return t || undefined;
+}
+
+function num(xml: string, tag: string) {
+  const t = text(xml, tag);
+  if (t === undefined) return undefined;
+  const n = Number(t.replace(/[,$\s]/g, ""));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** MM/DD/YYYY -> YYYY-MM-DD */
+function isoDate(s?: string) {
+  const m = (s || "").match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  return m ? `${m[3]}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}` : s?.slice(0, 10);
+}
+
+const sum = (xs: (number | undefined)[]) =>
+  xs.some((x) => x !== undefined) ? xs.reduce<number>((s, x) => s + (x || 0), 0) : undefined;
+
+/** Parse one Form 144 XML; several brokers mean several securitiesInformation blocks */
+export function parseForm144Xml(
+  xml: string,
+  meta: { accessionNumber: string; filedAt: string; formUrl: string; indexUrl: string }
+): Form144Notice {
+  const issuerXml = blocks(xml, "issuerInfo")[0] || xml;
+  const lots = blocks(xml, "securitiesInformation");
+  const dates = lots.map((l) => isoDate(text(l, "approxSaleDate"))).filter(Boolean).sort() as string[];
+  const cik = text(issuerXml, "issuerCik")?.replace(/\D/g, "");
+  return {
+    accessionNumber: meta.accessionNumber,
+    formType: (text(xml, "submissionType") || "144").toUpperCase(),
+    filedAt: meta.filedAt,
+    issuer: { cik: cik ? cik.padStart(10, "0") : undefined, name: text(issuerXml, "issuerName") || "—" },
+    seller: text(issuerXml, "nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold") || "—",
+    relationship: blocks(issuerXml, "relationshipToIssuer").map((r) => r.trim()).filter(Boolean).join(", ") || undefined,
+    securityClass: lots.map((l) => text(l, "securitiesClassTitle"))[0],
+    shares: sum(lots.map((l) => num(l, "noOfUnitsSold"))),
+    marketValue: sum(lots.map((l) => num(l, "aggregateMarketValue"))),
+    sharesOutstanding: lots.map((l) => num(l, "noOfUnitsOutstanding")).find((n) => n !== undefined),
+    broker: Array.from(new Set(lots.map((l) => text(blocks(l, "brokerOrMarketmakerDetails")[0] || "", "name")).filter(Boolean))).join("; ") || undefined,
+    exchange: lots.map((l) => text(l, "securitiesExchangeName")).find(Boolean),
+    approxSaleDate: dates[0],
+    formUrl: meta.formUrl,
+    indexUrl: meta.indexUrl,
+    sales: [],
+  };
+}
+
+// Filings are immutable, so parsed notices are kept per accession
+const CACHE = new Map<string, Form144Notice>();
+const MAX_CACHE = 1000;
+
+/**
+ * One notice. Paper-era 144s (before April 2023) have no XML and come back
+ * null. Any CIK on the filing works for the Archives path.
+ */
+export async function loadForm144(
+  cik10: string,
+  f: { accessionNumber: string; filedAt: string; primaryDocument?: string }
+): Promise<Form144Notice | null> {
+  const hit = CACHE.get(f.accessionNumber);
+  if (hit) return { ...hit, sales: [] };
+
+  const r = await secFetch(`${filingFolder(cik10, f.accessionNumber)}/primary_doc.xml`, {
+    headers: { Accept: "application/xml,text/xml,*/*" },
+  });
+  if (!r.ok) return null;
+  const xml = await r.text();
+  if (!/nameOfPersonForWhoseAccountTheSecuritiesAreToBeSold|securitiesInformation/.test(xml)) return null;
+
+  const notice = parseForm144Xml(xml, {
+    accessionNumber: f.accessionNumber,
+    filedAt: f.filedAt,
+    formUrl: buildOpenUrl(cik10, f.accessionNumber, f.primaryDocument || "primary_doc.xml"),
+    indexUrl: buildOpenUrl(cik10, f.accessionNumber),
+  });
+  if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+  CACHE.set(f.accessionNumber, notice);
+  return { ...notice, sales: [] };
+}
+
+/** The issuer's Form 144 filings, newest first */
+export async function issuerNoticeFilings(cik10: string, start?: string, end?: string) {
+  return ((await recentFilings(cik10)) || []).filter(
+    (f) =>
+      /^144(\/A)?$/i.test(f.form) &&
+      (!start || f.filingDate >= start) &&
+      (!end || f.filingDate <= end)
+  );
+}
+
+// ---------- linking to Form 4 ----------
+
+const NAME_NOISE = new Set(["MR", "MS", "MRS", "DR", "JR", "SR", "II", "III", "IV"]);
+
+function nameTokens(name: string) {
+  return new Set(
+    name
+      .toUpperCase()
+      .replace(/[^A-Z ]+/g, " ")
+      .split(/\s+/)
+      .filter((t) => t.length > 1 && !NAME_NOISE.has(t))
+  );
+}
+
+/** "COOK TIMOTHY D" vs "Timothy D. Cook": word order differs between forms */
+function samePerson(a: string, b: string) {
+  const x = nameTokens(a);
+  const y = nameTokens(b);
+  let common = 0;
+  x.forEach((t) => y.has(t) && common++);
+  return common >= Math.min(2, x.size, y.size) && common > 0;
+}
+
+function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Attach open-market sales (code S) by the same person, dated inside the
+ * notice window, to the notice; each matched row gets `form144` set to the
+ * notice's accession. Notices and rows are expected to be for one issuer; a
+ * sale goes to the latest notice whose window covers it.
+ */
+export function linkSales(notices: Form144Notice[], rows: InsiderRow[]) {
+  const ordered = notices.slice().sort((a, b) => (a.filedAt < b.filedAt ? 1 : -1));
+  for (const row of rows) {
+    if ((row.transactionCode || "").toUpperCase() !== "S" || !row.transDate) continue;
+    const n = ordered.find(
+      (n) =>
+        addDays(n.filedAt, -NOTICE_LEAD_DAYS) <= row.transDate! &&
+        row.transDate! <= addDays(n.filedAt, NOTICE_WINDOW_DAYS) &&
+        samePerson(n.seller, row.insider)
+    );
+    if (!n) continue;
+    row.form144 = n.accessionNumber;
+    n.sales.push({
+      accessionNumber: row.accessionNumber,
+      transDate: row.transDate,
+      shares: row.shares,
+      price: row.price,
+      value: row.value,
+      formUrl: row.formUrl,
+    });
+  }
+  return notices;
+}
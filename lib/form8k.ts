@@ -0,0 +1,54 @@
+// lib/form8k.ts
+// 8-K item codes as carried in the SEC submissions JSON ("items": "2.02,9.01").
+
+/** Short labels for current (post-2004) 8-K items */
+export const ITEM_LABELS: Record<string, string> = {
+  "1.01": "Material Agreement",
+  "1.02": "Agreement Terminated",
+  "1.03": "Bankruptcy",
+  "1.04": "Mine Safety",
+  "1.05": "Cybersecurity Incident",
+  "2.01": "Acquisition/Disposition",
+  "2.02": "Results of Operations",
+  "2.03": "Direct Financial Obligation",
+  "2.04": "Obligation Accelerated",
+  "2.05": "Exit/Disposal Costs",
+  "2.06": "Material Impairment",
+  "3.01": "Delisting Notice",
+  "3.02": "Unregistered Equity Sale",
+  "3.03": "Holder Rights Modified",
+  "4.01": "Auditor Change",
+  "4.02": "Non-Reliance on Financials",
+  "5.01": "Change in Control",
+  "5.02": "Officer Departure",
+  "5.03": "Bylaws/Fiscal Year Change",
+  "5.04": "Benefit Plan Trading Halt",
+  "5.05": "Code of Ethics Change",
+  "5.06": "Shell Status Change",
+  "5.07": "Shareholder Vote",
+  "5.08": "Director Nominations",
+  "6.01": "ABS Informational Material",
+  "6.02": "ABS Servicer Change",
+  "6.03": "ABS Credit Enhancement Change",
+  "6.04": "ABS Distribution Failure",
+  "6.05": "ABS Securities Act Updating",
+  "6.06": "ABS Static Pool",
+  "7.01": "Reg FD Disclosure",
+  "8.01": "Other Events",
+  "9.01": "Financial Statements & Exhibits",
+};
+
+/** Split the raw "2.02,9.01" string into clean item codes */
+export function parseItems(raw?: string | null): string[] {
+  if (!raw) return [];
+  return String(raw)
+    .split(/[,;\s]+/)
+    .map((s) => s.trim().replace(/^item\s*/i, ""))
+    .filter(Boolean);
+}
+
+/** "2.02" -> "2.02 Results of Operations"; unknown/legacy codes -> "Item 5" */
+export function itemBadge(code: string): string {
+  const label = ITEM_LABELS[code];
+  return label ? `${code} ${label}` : `Item ${code}`;
+}
@@ -0,0 +1,221 @@
+// lib/formD.ts
+// Form D (Regulation D private placements): primary_doc.xml -> offering
+// record, and ingestion of every Form D in the EDGAR index into the database.
+import { prisma } from "./prisma";
+import { filingFolder, mapLimit, secFetch } from "./sec";
+
+const INGEST_CONCURRENCY = 3;
+
+export type RelatedPerson = { name: string; relationships: string[]; city?: string; state?: string };
+
+export type FormD = {
+  accessionNumber: string;
+  cik: string;
+  issuerName: string;
+  form: string;
+  filed: string;
+  state?: string;
+  jurisdiction?: string;
+  entityType?: string;
+  yearOfInc?: string;
+  industryGroup?: string;
+  fundType?: string;
+  revenueRange?: string;
+  exemptions: string[];
+  totalOfferingAmount?: number; // undefined = indefinite
+  totalAmountSold?: number;
+  totalRemaining?: number;
+  minimumInvestment?: number;
+  investorCount?: number;
+  nonAccreditedCount?: number;
+  firstSaleDate?: string;
+  securityTypes: string[];
+  relatedPersons: RelatedPerson[];
+};
+
+/** Tags may carry a namespace prefix */
+function tagRe(tag: string, flags = "") {
+  return new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, flags);
+}
+
+function blocks(xml: string, tag: string) {
+  return Array.from(xml.matchAll(tagRe(tag, "g")), (m) => m[1]);
+}
+
+function block(xml: string, tag: string) {
+  return xml.match(tagRe(tag))?.[1] || "";
+}
+
+function text(xml: string, tag: string) {
+  const t = block(xml, tag)
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+  return t || undefined;
+}
+
+/** Amounts are numbers or "Indefinite" */
+function num(xml: string, tag: string) {
+  const t = text(xml, tag);
+  if (!t) return undefined;
+  const n = Number(t.replace(/[,$\s]/g, ""));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// <typesOfSecuritiesOffered><isEquityType>true</isEquityType>...
+const SECURITY_TYPES: [string, string][] = [
+  ["isEquityType", "Equity"],
+  ["isDebtType", "Debt"],
+  ["isOptionToAcquireType", "Options / Warrants"],
+  ["isSecurityToBeAcquiredType", "Security to be acquired"],
+  ["isPooledInvestmentFundType", "Pooled investment fund"],
+  ["isTenantInCommonType", "Tenant-in-common"],
+  ["isMineralPropertyType", "Mineral property"],
+  ["isOtherType", "Other"],
+];
+
+export function parseFormDXml(
+  xml: string,
+  meta: { accessionNumber: string; cik: string; filed: string; form?: string }
+): FormD {
+  const issuer = block(xml, "primaryIssuer");
+  const address = block(issuer, "issuerAddress");
+  const offering = block(xml, "offeringData");
+  const industry = block(offering, "industryGroup");
+  const size = block(offering, "issuerSize");
+  const amounts = block(offering, "offeringSalesAmounts");
+  const investors = block(offering, "investors");
+  const types = block(offering, "typesOfSecuritiesOffered");
+
+  const relatedPersons = blocks(block(xml, "relatedPersonsList"), "relatedPersonInfo").map((p) => {
+    const n = block(p, "relatedPersonName");
+    const addr = block(p, "relatedPersonAddress");
+    return {
+      name: [text(n, "firstName"), text(n, "middleName"), text(n, "lastName")].filter(Boolean).join(" ") || "—",
+      relationships: blocks(block(p, "relatedPersonRelationshipList"), "relationship").map((r) => r.trim()).filter(Boolean),
+      city: text(addr, "city"),
+      state: text(addr, "stateOrCountry"),
+    };
+  });
+
+  const otherType = text(types, "descriptionOfOtherType");
+  return {
+    accessionNumber: meta.accessionNumber,
+    cik: meta.cik,
+    issuerName: text(issuer, "entityName") || "—",
+    form: (text(xml, "submissionType") || meta.form || "D").toUpperCase(),
+    filed: meta.filed,
+    state: text(address, "stateOrCountry"),
+    jurisdiction: text(issuer, "jurisdictionOfInc"),
+    entityType: text(issuer, "entityType") === "Other" ? text(issuer, "entityTypeOtherDesc") || "Other" : text(issuer, "entityType"),
+    yearOfInc: text(block(issuer, "yearOfInc"), "value"),
+    industryGroup: text(industry, "industryGroupType"),
+    fundType: text(industry, "investmentFundType"),
+    revenueRange: text(size, "revenueRange") || text(size, "aggregateNetAssetValueRange"),
+    exemptions: blocks(block(offering, "federalExemptionsExclusions"), "item").map((i) => i.trim()).filter(Boolean),
+    totalOfferingAmount: num(amounts, "totalOfferingAmount"),
+    totalAmountSold: num(amounts, "totalAmountSold"),
+    totalRemaining: num(amounts, "totalRemaining"),
+    minimumInvestment: num(offering, "minimumInvestmentAccepted"),
+    investorCount: num(investors, "totalNumberAlreadyInvested"),
+    nonAccreditedCount: num(investors, "numberNonAccreditedInvestors"),
+    firstSaleDate: text(block(offering, "dateOfFirstSale"), "value"),
+    securityTypes: SECURITY_TYPES.filter(([tag]) => text(types, tag) === "true").map(([tag, label]) =>
+      tag === "isOtherType" && otherType ? otherType : label
+    ),
+    relatedPersons,
+  };
+}
+
+/** null when the filing has no readable Form D XML; throws when SEC cannot be read */
+export async function loadFormD(
+  cik10: string,
+  f: { accessionNumber: string; filed: string; form?: string }
+): Promise<FormD | null> {
+  const url = `${filingFolder(cik10, f.accessionNumber)}/primary_doc.xml`;
+  const r = await secFetch(url, { headers: { Accept: "application/xml,text/xml,*/*" } });
+  if (r.status === 404) return null;
+  if (!r.ok) throw new Error(`SEC fetch failed (${r.status}) for ${url}`);
+  const xml = await r.text();
+  if (!/offeringData/.test(xml)) return null;
+  return parseFormDXml(xml, { accessionNumber: f.accessionNumber, cik: cik10, filed: f.filed, form: f.form });
+}
+
+// ---------- ingestion ----------
+
+export type IngestFormDResult = { scanned: number; loaded: number; failed: number; deferred: number };
+
+/**
+ * Load up to `limit` not-yet-loaded Form D / D/A filings from the EDGAR index,
+ * newest first. Filings SEC could not serve this run are left for the next
+ * one ("deferred"); only unreadable ones are stored as unparsed.
+ */
+export async function ingestFormD(limit = 50): Promise<IngestFormDResult> {
+  // every index row not loaded yet, however far back; one row per accession
+  const todo: { accessionNumber: string; cik: string; company: string; form: string; filed: string }[] =
+    await prisma.$queryRaw`
+      SELECT DISTINCT ON (f."filed", f."accessionNumber") f."accessionNumber", f."cik", f."company", f."form", f."filed"
+      FROM "EdgarFiling" f
+      WHERE f."form" IN ('D', 'D/A')
+        AND NOT EXISTS (SELECT 1 FROM "FormDOffering" d WHERE d."accessionNumber" = f."accessionNumber")
+      ORDER BY f."filed" DESC, f."accessionNumber", f."cik"
+      LIMIT ${limit}`;
+
+  const result: IngestFormDResult = { scanned: todo.length, loaded: 0, failed: 0, deferred: 0 };
+  await mapLimit(todo, INGEST_CONCURRENCY, async (f) => {
+    let d: FormD | null;
+    try {
+      d = await loadFormD(f.cik, f);
+    } catch {
+      result.deferred++;
+      return;
+    }
+    // an unparsed record keeps unreadable filings from being retried every run
+    await prisma.formDOffering.create({
+      data: d
+        ? {
+            accessionNumber: d.accessionNumber,
+            cik: d.cik,
+            issuerName: d.issuerName,
+            form: d.form,
+            filed: d.filed,
+            state: d.state || null,
+            jurisdiction: d.jurisdiction || null,
+            entityType: d.entityType || null,
+            yearOfInc: d.yearOfInc || null,
+            industryGroup: d.industryGroup || null,
+            fundType: d.fundType || null,
+            revenueRange: d.revenueRange || null,
+            exemptions: d.exemptions.join(","),
+            rule506b: d.exemptions.includes("06b"),
+            rule506c: d.exemptions.includes("06c"),
+            totalOfferingAmount: d.totalOfferingAmount ?? null,
+            totalAmountSold: d.totalAmountSold ?? null,
+            totalRemaining: d.totalRemaining ?? null,
+            minimumInvestment: d.minimumInvestment ?? null,
+            investorCount: d.investorCount ?? null,
+            nonAccreditedCount: d.nonAccreditedCount ?? null,
+            firstSaleDate: d.firstSaleDate || null,
+            securityTypes: d.securityTypes.join(",") || null,
+            relatedPersons: d.relatedPersons,
+          }
+        : {
+            accessionNumber: f.accessionNumber,
+            cik: f.cik,
+            issuerName: f.company,
+            form: f.form,
+            filed: f.filed,
+            relatedPersons: [],
+            parsed: false,
+          },
+    });
+    if (d) result.loaded++;
+    else result.failed++;
+  });
+  return result;
+}
@@ -0,0 +1,120 @@
+// lib/html.ts
+// Minimal HTML -> text for EDGAR documents (no DOM available in route handlers).
+
+const ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: '"',
+  ldquo: '"',
+  ndash: "-",
+  mdash: "-",
+  bull: "•",
+  sect: "§",
+};
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, e: string) => {
+    if (e[0] === "#") {
+      const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+      if (!Number.isFinite(code)) return m;
+      if (code === 160) return " ";
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[e.toLowerCase()] ?? m;
+  });
+}
+
+/** Strip tags, keep block boundaries as newlines, collapse whitespace */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<ix:header[\s\S]*?<\/ix:header>/gi, " ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/[ \t\r\f\v\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function cellText(html: string) {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, " "))
+    .replace(/[\s\u00a0]+/g, " ")
+    .trim();
+}
+
+/**
+ * One <table> -> rows of cell text. EDGAR tables pad with spacer cells and
+ * split "$" and ")" into their own cells, so those are folded back and
+ * columns that are empty in every row are dropped.
+ */
+export function tableGrid(tableHtml: string): string[][] {
+  const rows: string[][] = [];
+  for (const tr of tableHtml.match(/<tr[\s\S]*?<\/tr>/gi) || []) {
+    const cells: string[] = [];
+    let dollarAt = -1;
+    for (const td of tr.match(/<t[dh][\s\S]*?<\/t[dh]>/gi) || []) {
+      const t = cellText(td);
+      // spanned headers sit over the right-aligned number column
+      const span = Math.max(1, parseInt(td.match(/colspan\s*=\s*"?(\d+)/i)?.[1] || "1", 10));
+      for (let k = 1; k < span; k++) cells.push("");
+      let lastFilled = cells.length - 1;
+      while (lastFilled >= 0 && !cells[lastFilled]) lastFilled--;
+      if (t === "$") {
+        dollarAt = cells.length;
+        cells.push("");
+      } else if (t && dollarAt >= 0) {
+        cells.push(`$${t}`); // "$" "1,234" -> "$1,234" in the number column
+        dollarAt = -1;
+      } else if ((t === ")" || t === "%") && lastFilled >= 0) {
+        cells[lastFilled] += t; // "(12" ")" -> "(12)"
+        cells.push("");
+      } else {
+        cells.push(t);
+      }
+    }
+    if (cells.some(Boolean)) rows.push(cells);
+  }
+  if (!rows.length) return [];
+
+  // drop columns that are empty in every row
+  const width = Math.max(...rows.map((r) => r.length));
+  const keep: number[] = [];
+  for (let c = 0; c < width; c++) if (rows.some((r) => r[c])) keep.push(c);
+  return rows.map((r) => keep.map((c) => r[c] || ""));
+}
+
+/**
+ * One <table> -> Markdown (see tableGrid). Single-column tables are layout
+ * wrappers and come back as plain lines.
+ */
+export function tableToMarkdown(tableHtml: string): string {
+  const grid = tableGrid(tableHtml).map((r) => r.map((c) => c.replace(/\|/g, "\\|")));
+  if (!grid.length) return "";
+  if (grid[0].length <= 1) return grid.map((r) => r[0]).join("\n");
+
+  const line = (r: string[]) => `| ${r.join(" | ")} |`;
+  return [line(grid[0]), line(grid[0].map(() => "---")), ...grid.slice(1).map(line)].join("\n");
+}
+
+/** Like htmlToText, but tables are preserved as Markdown blocks */
+export function htmlToMarkdownText(html: string): string {
+  const tables: string[] = [];
+  const withMarkers = html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<ix:header[\s\S]*?<\/ix:header>/gi, " ")
+    .replace(/<table[\s\S]*?<\/table>/gi, (t) => {
+      tables.push(tableToMarkdown(t));
+      return `\n\u0000${tables.length - 1}\u0000\n`;
+    });
+  return htmlToText(withMarkers).replace(/\u0000(\d+)\u0000/g, (_m, i) => `\n${tables[Number(i)]}\n`).replace(/\n{3,}/g, "\n\n");
+}
@@ -0,0 +1,318 @@
+// lib/institutional.ts
+// Reverse 13F ownership: load information tables of every 13F-HR in the
+// EDGAR index (lib/edgarIndex.ts) into the database, map CUSIPs onto
+// company_tickers.json, and answer "who owns this ticker".
+import { loadHoldings, type ChangeStatus, type Holdings } from "./form13f";
+import { prisma } from "./prisma";
+import { mapLimit, normalizeCIK } from "./sec";
+import { loadTickers, type SecRow } from "./tickers";
+
+const INGEST_CONCURRENCY = 2; // each filing is 2-3 SEC requests
+
+// ---------- CUSIP mapping ----------
+
+// Legal-form and share-class noise that differs between 13F issuer names and SEC titles
+const NAME_NOISE = new Set([
+  "INC", "INCORPORATED", "CORP", "CORPORATION", "CO", "COMPANY", "LTD", "LIMITED", "PLC", "LLC", "LP",
+  "SA", "NV", "AG", "SE", "THE", "DEL", "NEW", "COM", "CL", "CLASS", "A", "B", "C", "ORD", "SHS",
+  "CAP", "STK", "COMMON", "STOCK", "SPONSORED", "ADR", "ADS", "UNIT", "UNITS",
+]);
+
+export function normalizeIssuerName(name: string) {
+  const words = name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/[^A-Z0-9 ]+/g, " ")
+    .replace(/\bHLDGS?\b/g, "HOLDINGS")
+    .replace(/\bGRP\b/g, "GROUP")
+    .split(/\s+/)
+    .filter(Boolean);
+  // strip noise from the end only ("A" or "CO" inside a name is meaningful)
+  while (words.length > 1 && NAME_NOISE.has(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+let _names: { at: number; byName: Map<string, SecRow> } | null = null;
+
+async function nameIndex() {
+  if (_names && Date.now() - _names.at < 24 * 60 * 60 * 1000) return _names.byName;
+  const byName = new Map<string, SecRow>();
+  // company_tickers.json lists a company's primary ticker first; keep that one
+  for (const r of await loadTickers()) {
+    const k = normalizeIssuerName(r.name);
+    if (!byName.has(k)) byName.set(k, r);
+  }
+  _names = { at: Date.now(), byName };
+  return byName;
+}
+
+/**
+ * Give every unseen CUSIP a company. The first six characters identify the
+ * issuer, so a CUSIP whose sibling is already mapped inherits it; otherwise
+ * the 13F issuer name is matched against company_tickers.json titles.
+ */
+export async function mapCusips(entries: { cusip: string; issuer: string }[]) {
+  const unique = new Map(entries.map((e) => [e.cusip, e.issuer]));
+  const known = await prisma.cusip.findMany({ where: { cusip: { in: Array.from(unique.keys()) } }, select: { cusip: true } });
+  known.forEach((k: any) => unique.delete(k.cusip));
+  if (!unique.size) return 0;
+
+  const byName = await nameIndex();
+  let mapped = 0;
+  for (const [cusip, issuer] of Array.from(unique.entries())) {
+    const sibling = await prisma.cusip.findFirst({
+      where: { cusip: { startsWith: cusip.slice(0, 6) }, cik: { not: null } },
+    });
+    const hit = sibling ? null : byName.get(normalizeIssuerName(issuer));
+    const data = sibling
+      ? { issuer, cik: sibling.cik, ticker: sibling.ticker, matchedBy: "issuer-prefix" }
+      : hit
+      ? { issuer, cik: hit.cik, ticker: hit.ticker, matchedBy: "name" }
+      : { issuer, cik: null, ticker: null, matchedBy: null };
+    if (data.cik) mapped++;
+    await prisma.cusip.upsert({ where: { cusip }, create: { cusip, ...data }, update: data });
+  }
+  return mapped;
+}
+
+// ---------- ingestion ----------
+
+export type Ingest13FResult = {
+  scanned: number;
+  loaded: number;
+  failed: number;
+  deferred: number;
+  positions: number;
+  cusipsMapped: number;
+};
+
+/**
+ * Load up to `limit` not-yet-loaded 13F-HR filings from the EDGAR index,
+ * newest first. A later filing for the same manager + quarter replaces the
+ * earlier one's positions. Filings SEC could not serve this run are left for
+ * the next one ("deferred"); only unreadable ones are recorded as failed.
+ */
+export async function ingest13F(limit = 20): Promise<Ingest13FResult> {
+  // every index row not loaded yet, however far back; one row per accession
+  // (a filing lists once per party)
+  const todo: { accessionNumber: string; cik: string; company: string; filed: string }[] = await prisma.$queryRaw`
+    SELECT DISTINCT ON (f."filed", f."accessionNumber") f."accessionNumber", f."cik", f."company", f."filed"
+    FROM "EdgarFiling" f
+    WHERE f."form" = '13F-HR'
+      AND NOT EXISTS (SELECT 1 FROM "Filing13F" d WHERE d."accessionNumber" = f."accessionNumber")
+    ORDER BY f."filed" DESC, f."accessionNumber", f."cik"
+    LIMIT ${limit}`;
+
+  const result: Ingest13FResult = {
+    scanned: todo.length,
+    loaded: 0,
+    failed: 0,
+    deferred: 0,
+    positions: 0,
+    cusipsMapped: 0,
+  };
+  const seenCusips: { cusip: string; issuer: string }[] = [];
+
+  await mapLimit(todo, INGEST_CONCURRENCY, async (f) => {
+    let h: Holdings | null;
+    try {
+      h = await loadHoldings(f.cik, { accessionNumber: f.accessionNumber, filingDate: f.filed });
+    } catch {
+      result.deferred++;
+      return;
+    }
+    const period = h?.period || "";
+    const positions = h?.positions || [];
+    const record = prisma.filing13F.create({
+      data: {
+        accessionNumber: f.accessionNumber,
+        filerCik: f.cik,
+        filerName: f.company,
+        period,
+        filed: f.filed,
+        positions: positions.length,
+        totalValue: positions.reduce((s, p) => s + p.value, 0),
+      },
+    });
+    if (!h || !period) {
+      // an empty record keeps unreadable filings from being retried every run
+      await record;
+      result.failed++;
+      return;
+    }
+
+    const newer = await prisma.filing13F.findFirst({
+      where: { filerCik: f.cik, period, filed: { gt: f.filed }, positions: { gt: 0 } },
+    });
+    if (newer) {
+      await record; // superseded already
+      return;
+    }
+    // one transaction, so readers never see the quarter with no positions or a
+    // loaded filing without its holdings
+    await prisma.$transaction([
+      record,
+      prisma.holding13F.deleteMany({
+        where: { filerCik: f.cik, period, accessionNumber: { not: f.accessionNumber } },
+      }),
+      prisma.holding13F.createMany({
+        data: positions.map((p) => ({
+          accessionNumber: f.accessionNumber,
+          filerCik: f.cik,
+          period,
+          cusip: p.cusip,
+          issuer: p.issuer,
+          titleOfClass: p.titleOfClass || null,
+          shares: p.shares,
+          value: p.value,
+          putCall: p.putCall || "",
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
+    result.loaded++;
+    result.positions += positions.length;
+    positions.forEach((p) => seenCusips.push({ cusip: p.cusip, issuer: p.issuer }));
+  });
+
+  result.cusipsMapped = await mapCusips(seenCusips);
+  return result;
+}
+
+// ---------- who owns this ticker ----------
+
+export type Holder = {
+  filerCik: string;
+  filerName: string;
+  shares: number;
+  value: number;
+  priorShares: number;
+  shareChange: number;
+  status: ChangeStatus;
+};
+
+export type Ownership = {
+  cik: string;
+  ticker?: string;
+  name?: string;
+  cusips: { cusip: string; issuer: string }[];
+  period?: string;
+  priorPeriod?: string;
+  holders: Holder[]; // sorted by shares, exited holders last
+  /** Prior-quarter holders whose latest-quarter 13F is not loaded yet (not counted as exited) */
+  pending: number;
+  history: { period: string; shares: number; value: number; positions: number }[];
+};
+
+async function resolveCompany(symbol: string) {
+  const rows = await loadTickers();
+  if (/^(CIK)?\d+$/i.test(symbol)) {
+    const cik = normalizeCIK(symbol);
+    return cik ? { cik, row: rows.find((r) => r.cik === cik) } : null;
+  }
+  const key = symbol.toUpperCase().replace(/[.\-\s]/g, "");
+  const row = rows.find((r) => r.ticker.replace(/[.\-]/g, "") === key);
+  return row ? { cik: row.cik, row } : null;
+}
+
+/** Sum positions per filer (only share positions; puts / calls are left out) */
+function byFiler(rows: { filerCik: string; shares: number; value: number }[]) {
+  const out = new Map<string, { shares: number; value: number }>();
+  for (const r of rows) {
+    const cur = out.get(r.filerCik) || { shares: 0, value: 0 };
+    cur.shares += r.shares;
+    cur.value += r.value;
+    out.set(r.filerCik, cur);
+  }
+  return out;
+}
+
+/** 13F holders of one company in the latest loaded quarter, vs. the quarter before */
+export async function whoOwns(symbol: string, quarters = 12): Promise<Ownership | null> {
+  const company = await resolveCompany(symbol);
+  if (!company) return null;
+
+  const cusips = await prisma.cusip.findMany({ where: { cik: company.cik }, select: { cusip: true, issuer: true } });
+  const base: Ownership = {
+    cik: company.cik,
+    ticker: company.row?.ticker,
+    name: company.row?.name,
+    cusips,
+    holders: [],
+    pending: 0,
+    history: [],
+  };
+  if (!cusips.length) return base;
+
+  const where = { cusip: { in: cusips.map((c: any) => c.cusip) }, putCall: "" };
+  const periods = await prisma.holding13F.groupBy({
+    by: ["period"],
+    where,
+    _sum: { shares: true, value: true },
+    _count: { _all: true },
+    orderBy: { period: "desc" },
+    take: quarters,
+  });
+  base.history = periods
+    .map((p: any) => ({ period: p.period, shares: p._sum.shares || 0, value: p._sum.value || 0, positions: p._count._all }))
+    .reverse();
+  if (!periods.length) return base;
+
+  base.period = periods[0].period;
+  base.priorPeriod = periods[1]?.period;
+  const [cur, prev] = await Promise.all([
+    prisma.holding13F.findMany({ where: { ...where, period: base.period } }),
+    base.priorPeriod ? prisma.holding13F.findMany({ where: { ...where, period: base.priorPeriod } }) : Promise.resolve([]),
+  ]);
+  const now = byFiler(cur);
+  const before = byFiler(prev);
+
+  const filerCiks = Array.from(new Set([...Array.from(now.keys()), ...Array.from(before.keys())]));
+  const names = new Map<string, string>(
+    (await prisma.filing13F.findMany({
+      where: { filerCik: { in: filerCiks } },
+      select: { filerCik: true, filerName: true },
+      distinct: ["filerCik"],
+    })).map((f: any) => [f.filerCik, f.filerName])
+  );
+
+  const holders: Holder[] = [];
+  now.forEach((v, filerCik) => {
+    const was = before.get(filerCik);
+    const shareChange = v.shares - (was?.shares || 0);
+    holders.push({
+      filerCik,
+      filerName: names.get(filerCik) || filerCik,
+      shares: v.shares,
+      value: v.value,
+      priorShares: was?.shares || 0,
+      shareChange: base.priorPeriod ? shareChange : 0,
+      status: !base.priorPeriod ? "unchanged" : !was ? "new" : shareChange > 0 ? "added" : shareChange < 0 ? "reduced" : "unchanged",
+    });
+  });
+  holders.sort((a, b) => b.shares - a.shares);
+
+  // gone from the latest quarter only counts as exited if that filer's latest 13F is in
+  const gone = Array.from(before.keys()).filter((c) => !now.has(c));
+  const reported = new Set(
+    (await prisma.filing13F.findMany({
+      where: { filerCik: { in: gone }, period: base.period, positions: { gt: 0 } },
+      select: { filerCik: true },
+    })).map((f: any) => f.filerCik)
+  );
+  base.pending = gone.length - reported.size;
+  before.forEach((was, filerCik) => {
+    if (now.has(filerCik) || !reported.has(filerCik)) return;
+    holders.push({
+      filerCik,
+      filerName: names.get(filerCik) || filerCik,
+      shares: 0,
+      value: 0,
+      priorShares: was.shares,
+      shareChange: -was.shares,
+      status: "exited",
+    });
+  });
+  base.holders = holders;
+  return base;
+}
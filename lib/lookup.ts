@@ -0,0 +1,194 @@
+// lib/lookup.ts
+// Ticker / company name / CIK -> ranked issuer candidates, each with the
+// reason it matched. Current names and tickers come from the shared ticker index;
+// former names from the submissions data (via the EdgarCompany table).
+import { loadCompanyProfile, type FormerName } from "./company";
+import { prisma } from "./prisma";
+import { mapLimit, normalizeCIK } from "./sec";
+import { nameTokens, tickerIndex, type SecRow } from "./tickers";
+
+export type MatchReason = "cik" | "exact-ticker" | "share-class" | "exact-name" | "name-token" | "former-name";
+
+export type Candidate = {
+  cik: string;
+  ticker?: string;        // primary ticker
+  tickers: string[];
+  name: string;
+  score: number;
+  reason: MatchReason;
+  matched?: string;       // the ticker / name / former name that matched
+  formerNames?: FormerName[];
+};
+
+export type LookupResult = {
+  query: string;
+  /** Set when one candidate clearly wins; otherwise the caller should ask */
+  exact: Candidate | null;
+  candidates: Candidate[];
+};
+
+// an "exact" answer needs at least this score and no tie at the top
+const EXACT_SCORE = 90;
+// candidates whose former names are fetched from the submissions JSON
+const ENRICH_TOP = 5;
+const FORMER_NAME_HITS = 20;
+
+const normName = (name: string) => nameTokens(name).join(" ");
+/** BRK.B, BRK-B, BRK/B and BRKB all compact to BRKB */
+const compactTicker = (t: string) => t.toUpperCase().replace(/[.\-/\s]/g, "");
+/** Class root: BRK-B -> BRK */
+const tickerRoot = (t: string) => t.toUpperCase().split(/[.\-/]/)[0];
+
+function scoreName(q: string[], name: string): { score: number; reason: MatchReason } | null {
+  if (!q.length) return null;
+  const tokens = nameTokens(name);
+  if (!tokens.length) return null;
+  if (tokens.join(" ") === q.join(" ")) return { score: 95, reason: "exact-name" };
+
+  const whole = q.every((t) => tokens.includes(t));
+  const prefix = whole || q.every((t) => tokens.some((n) => n.startsWith(t)));
+  if (!prefix && !tokens.join(" ").includes(q.join(" "))) return null;
+
+  let score = whole ? 60 : prefix ? 45 : 30;
+  if (tokens[0] === q[0]) score += 5;
+  // "APPLE" should rank Apple Inc above Apple Hospitality REIT
+  score -= Math.min(10, Math.max(0, tokens.length - q.length) * 2);
+  return { score, reason: "name-token" };
+}
+
+/** Pick the better of two matches for the same company */
+function better(a: Candidate | undefined, b: Candidate) {
+  return !a || b.score > a.score ? b : a;
+}
+
+function candidateFor(cik: string, rows: SecRow[] | undefined, fallbackName: string) {
+  return {
+    cik,
+    ticker: rows?.[0]?.ticker,
+    tickers: (rows || []).map((r) => r.ticker),
+    name: rows?.[0]?.name || fallbackName,
+  };
+}
+
+/**
+ * Companies whose former names contain the query. Former names sit on
+ * EdgarCompany (filled in by index enrichment); the trigram index on
+ * formerNames serves the substring match.
+ */
+async function formerNameHits(raw: string, byCik: Map<string, SecRow[]>): Promise<Candidate[]> {
+  const q = nameTokens(raw);
+  if (!q.length) return [];
+  const companies = await prisma.edgarCompany
+    .findMany({
+      where: { formerNames: { contains: raw, mode: "insensitive" } },
+      select: { cik: true, name: true, formerNames: true },
+      take: FORMER_NAME_HITS,
+    })
+    .catch(() => []);
+
+  const out: Candidate[] = [];
+  const add = (cik: string, currentName: string, former: string) => {
+    const rows = byCik.get(cik);
+    const current = rows?.[0]?.name || currentName;
+    // a filing under the present name is not a former-name match
+    if (normName(former) === normName(current)) return;
+    const s = scoreName(q, former);
+    if (!s) return;
+    out.push({
+      ...candidateFor(cik, rows, current),
+      score: s.reason === "exact-name" ? 85 : Math.min(50, s.score),
+      reason: "former-name",
+      matched: former,
+    });
+  };
+  companies.forEach((c: any) =>
+    String(c.formerNames || "").split("|").filter(Boolean).forEach((f) => add(c.cik, c.name, f))
+  );
+  return out;
+}
+
+/** Former names (with dates) from the submissions JSON; a query matching one upgrades a weak match */
+async function enrichFormerNames(list: Candidate[], q: string[]) {
+  await mapLimit(list, 2, async (c) => {
+    const r = await loadCompanyProfile(c.cik).catch(() => null);
+    if (!r?.ok) return;
+    c.formerNames = r.profile.formerNames;
+    if (!c.tickers.length) c.name = r.profile.name;
+    for (const f of c.formerNames) {
+      const s = scoreName(q, f.name);
+      if (s && c.score < 50) {
+        c.score = s.reason === "exact-name" ? 85 : 50;
+        c.reason = "former-name";
+        c.matched = f.name;
+      }
+    }
+  });
+}
+
+function rank(a: Candidate, b: Candidate) {
+  return (
+    b.score - a.score ||
+    Number(!!b.ticker) - Number(!!a.ticker) ||
+    a.name.length - b.name.length ||
+    a.cik.localeCompare(b.cik)
+  );
+}
+
+/**
+ * Resolve a ticker, company name (current or former) or CIK to ranked
+ * candidates. "NVDA — NVIDIA CORP" pasted from the suggest dropdown works too.
+ */
+export async function lookupIssuer(input: string, limit = 10): Promise<LookupResult> {
+  const query = input.split("—")[0].trim();
+  const { rows, byCik } = await tickerIndex();
+
+  // CIK: digits or "CIK320193"
+  if (/^(CIK)?\s*\d{1,10}$/i.test(query)) {
+    const cik = normalizeCIK(query)!;
+    const listed = byCik.get(cik);
+    let name = listed?.[0]?.name;
+    if (!name) {
+      const r = await loadCompanyProfile(cik).catch(() => null);
+      if (!r?.ok) return { query, exact: null, candidates: [] };
+      name = r.profile.name;
+    }
+    const c: Candidate = { ...candidateFor(cik, listed, name), score: 100, reason: "cik", matched: cik };
+    return { query, exact: c, candidates: [c] };
+  }
+
+  const best = new Map<string, Candidate>();
+  const qTicker = query.toUpperCase().replace(/\s+/g, "");
+  const qCompact = compactTicker(qTicker);
+  const qTokens = nameTokens(query);
+
+  for (const row of rows) {
+    const base = () => candidateFor(row.cik, byCik.get(row.cik), row.name);
+    if (row.ticker === qTicker) {
+      best.set(row.cik, better(best.get(row.cik), { ...base(), score: 100, reason: "exact-ticker", matched: row.ticker }));
+    } else if (qCompact && compactTicker(row.ticker) === qCompact) {
+      best.set(row.cik, better(best.get(row.cik), { ...base(), score: 92, reason: "share-class", matched: row.ticker }));
+    } else if (/[.\-/]/.test(row.ticker) && tickerRoot(row.ticker) === qTicker) {
+      // "BRK" -> BRK-A / BRK-B
+      best.set(row.cik, better(best.get(row.cik), { ...base(), score: 80, reason: "share-class", matched: row.ticker }));
+    }
+    const s = scoreName(qTokens, row.name);
+    if (s) best.set(row.cik, better(best.get(row.cik), { ...base(), ...s, matched: row.name }));
+  }
+
+  const clear = (list: Candidate[]) =>
+    list.length > 0 &&
+    (list.length === 1 || list[0].score >= EXACT_SCORE) &&
+    (list.length === 1 || list[1].score < list[0].score);
+  let candidates = Array.from(best.values()).sort(rank);
+
+  // an unambiguous ticker hit needs no former-name search or detail
+  if (!clear(candidates) || candidates[0].reason !== "exact-ticker") {
+    for (const c of await formerNameHits(query, byCik)) best.set(c.cik, better(best.get(c.cik), c));
+    candidates = Array.from(best.values()).sort(rank);
+    await enrichFormerNames(candidates.slice(0, ENRICH_TOP), qTokens);
+    candidates = candidates.sort(rank);
+  }
+  // decided before trimming, so a small `limit` cannot hide a tie
+  const exact = clear(candidates) ? candidates[0] : null;
+  return { query, exact, candidates: candidates.slice(0, Math.max(1, limit)) };
+}
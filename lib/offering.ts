@@ -0,0 +1,91 @@
+// lib/offering.ts
+// Cover-page / fee-table figures for S-1, S-3 and 424B prospectuses.
+
+export const OFFERING_FORMS = [
+  "S-1", "S-1/A", "S-3", "S-3/A",
+  "424B2", "424B3", "424B4", "424B5", "424B7", "424B8",
+];
+
+export function isOfferingForm(form?: string) {
+  return !!form && OFFERING_FORMS.includes(form.toUpperCase());
+}
+
+export type Offering = {
+  /** Aggregate offering amount in USD */
+  amount?: number;
+  shares?: number;
+  pricePerShare?: number;
+  /** At-the-market program (sales agreement / Rule 415(a)(4)) */
+  atm: boolean;
+  /** Prospectus supplement taken down off an effective shelf */
+  shelfTakedown: boolean;
+  /** Where `amount` came from */
+  amountSource?: "cover" | "fee-table" | "computed";
+};
+
+const SCALE: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+function toNumber(raw: string, scale?: string): number | undefined {
+  const n = Number(raw.replace(/,/g, ""));
+  if (!Number.isFinite(n)) return undefined;
+  return scale ? n * (SCALE[scale.toLowerCase()] || 1) : n;
+}
+
+// "up to $150,000,000" / "having an aggregate offering price of up to $75.0 million"
+const RE_AGGREGATE =
+  /aggregate (?:gross )?(?:offering price|sales price|proceeds)\s+of\s+(?:up to\s+)?\$\s?([\d,]+(?:\.\d+)?)\s*(thousand|million|billion)?/i;
+const RE_UP_TO = /\bup to\s+\$\s?([\d,]+(?:\.\d+)?)\s*(thousand|million|billion)?\s+of\s+(?:our\s+)?(?:shares|common|ordinary|securities)/i;
+// Fee table (pre-2022 cover or EX-FILING FEES): "Proposed Maximum Aggregate Offering Price ... $ 100,000,000"
+const RE_FEE_TABLE = /maximum\s+aggregate\s+offering\s+price[\s\S]{0,600}?\$\s?([\d,]{5,}(?:\.\d+)?)/i;
+// Underwritten pricing table: "Total $ 123,456,789"
+const RE_TOTAL = /\bTotal\s+\$\s?([\d,]{5,}(?:\.\d+)?)/;
+const RE_SHARES =
+  /([\d,]{3,})\s+(?:shares|ordinary shares|American Depositary Shares|ADSs)\b(?:\s+of\s+(?:our\s+)?(?:class [a-z]\s+)?common stock)?/i;
+const RE_PRICE =
+  /(?:public offering price|offering price)\s+(?:is|of)?\s*(?:\$\s?([\d,]+(?:\.\d+)?))\s*per\s+(?:share|ADS)/i;
+const RE_PRICE_TABLE = /Per (?:share|ADS)\s+\$\s?([\d,]+(?:\.\d+)?)/i;
+
+/**
+ * Pull offering figures from the plain text of a prospectus. Only the first
+ * part of the document is examined: the cover page and fee table live there.
+ */
+export function parseOffering(text: string, form?: string): Offering {
+  const head = text.slice(0, 60_000);
+  const f = (form || "").toUpperCase();
+
+  const atm =
+    /at[\s-]the[\s-]market\s+(?:offering|issuance|sales)/i.test(head) ||
+    /\b(?:equity distribution|sales|distribution) agreement\b[\s\S]{0,400}\bRule 415\(a\)\(4\)/i.test(head);
+
+  const shelfTakedown =
+    f.startsWith("424B") &&
+    /prospectus supplement/i.test(head.slice(0, 5_000)) &&
+    /\(to prospectus dated/i.test(head.slice(0, 5_000));
+
+  const out: Offering = { atm, shelfTakedown };
+
+  const sh = head.match(RE_SHARES);
+  if (sh) out.shares = toNumber(sh[1]);
+
+  const px = head.match(RE_PRICE) || head.match(RE_PRICE_TABLE);
+  if (px) out.pricePerShare = toNumber(px[1]);
+
+  const agg = head.match(RE_AGGREGATE) || head.match(RE_UP_TO);
+  const fee = head.match(RE_FEE_TABLE);
+  const total = head.match(RE_TOTAL);
+  if (agg) {
+    out.amount = toNumber(agg[1], agg[2]);
+    out.amountSource = "cover";
+  } else if (fee) {
+    out.amount = toNumber(fee[1]);
+    out.amountSource = "fee-table";
+  } else if (total) {
+    out.amount = toNumber(total[1]);
+    out.amountSource = "cover";
+  } else if (out.shares && out.pricePerShare) {
+    out.amount = out.shares * out.pricePerShare;
+    out.amountSource = "computed";
+  }
+
+  return out;
+}
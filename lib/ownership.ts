@@ -0,0 +1,349 @@
+// lib/ownership.ts
+// Form 3 / 4 / 5 ownership XML (EDGAR "ownershipDocument") -> InsiderRow.
+// Pure string -> data; no network, so saved XML files can be fed straight in.
+
+/** Normalized row the insider API returns to the client */
+export type InsiderRow = {
+  source: "fmp" | "sec";
+  insider: string;
+  insiderTitle?: string;
+  issuer: string;
+  symbol?: string;
+  cik?: string;
+  filedAt?: string;
+  transDate?: string;
+
+  /** Derived from transactionCode when possible */
+  txnType?: "A" | "D";
+
+  /** Raw SEC transaction code & a short description */
+  transactionCode?: string;
+  transactionText?: string;
+
+  /** Table I (Non-derivative) or Table II (Derivative) */
+  table?: "I" | "II";
+  /** Security title (e.g., Common Stock, RSU, Option (Right to Buy)) */
+  security?: string;
+
+  /** Amount / economics */
+  shares?: number;
+  price?: number;
+  value?: number;
+  ownedAfter?: number;
+
+  /** D = direct, I = indirect; nature is free text, e.g. "By Trust" */
+  ownership?: "D" | "I";
+  ownershipNature?: string;
+
+  /** Table II only */
+  underlyingSecurity?: string;
+  underlyingShares?: number;
+  exercisePrice?: number;
+  expirationDate?: string;
+
+  /** Footnote text referenced anywhere on the row */
+  footnotes?: string[];
+
+  /** Filing the row came from ("4", "4/A", ...) */
+  formType?: string;
+  accessionNumber?: string;
+
+  /** Accession of the Form 144 notice this sale was made under (see lib/form144) */
+  form144?: string;
+
+  /** Links */
+  formUrl?: string;
+  indexUrl?: string;
+};
+
+/** Map SEC transaction codes to A/D where it makes sense */
+export function mapCodeToAD(code?: string): "A" | "D" | undefined {
+  if (!code) return undefined;
+  const c = code.toUpperCase();
+  // Common mappings (SEC Form 4 Transaction Codes)
+  // P=Open Market Purchase -> A, S=Sale -> D, A=Grant -> A, D=Disposition -> D,
+  // F=Tax Withholding -> D, M=Option Exercise (derivative -> non-derivative) -> A for the acquired common,
+  // G=Gift (n/a), X=Conversion (contextual), C=Conversion (contextual)
+  if (c === "P" || c === "A" || c === "M") return "A";
+  if (c === "S" || c === "D" || c === "F") return "D";
+  return undefined; // leave blank for things like G, X, C, etc.
+}
+
+/** Short, friendly description for codes (Form 4 General Instructions, 8) */
+export function codeText(code?: string): string | undefined {
+  if (!code) return undefined;
+  const c = code.toUpperCase();
+  const map: Record<string, string> = {
+    P: "Open market purchase",
+    S: "Sale",
+    V: "Voluntarily reported",
+    A: "Award/Grant",
+    D: "Disposition (other)",
+    F: "Tax withholding",
+    I: "Discretionary (plan)",
+    M: "Option exercise",
+    C: "Conversion",
+    E: "Expiration (short)",
+    H: "Expiration (long)",
+    O: "Exercise (out of the money)",
+    X: "Exercise (in/at the money)",
+    G: "Gift",
+    L: "Small acquisition",
+    W: "Will / laws of descent",
+    Z: "Voting trust",
+    J: "Other",
+    K: "Equity swap",
+    U: "Tender of shares (change of control)",
+  };
+  return map[c] || undefined;
+}
+
+// ---------- tiny XML helpers (ownership XML is flat and well-formed) ----------
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", quot: '"', apos: "'", amp: "&" };
+
+/** One pass, so "&amp;lt;" stays "&lt;"; CDATA is taken verbatim */
+function decodeXml(s: string) {
+  return s
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith("<![CDATA[")
+        ? part.slice(9, -3)
+        : part.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|quot|apos|amp);/gi, (m, e: string) => {
+            if (e[0] !== "#") return XML_ENTITIES[e.toLowerCase()] ?? m;
+            const code = e[1] === "x" || e[1] === "X" ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : m;
+          })
+    )
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Inner XML of every <tag>…</tag> */
+function blocks(xml: string, tag: string): string[] {
+  const out: string[] = [];
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g");
+  for (const m of xml.matchAll(re)) out.push(m[1]);
+  return out;
+}
+
+function block(xml: string, tag: string) {
+  return blocks(xml, tag)[0] || "";
+}
+
+/** Text of <tag>, or of <tag><value>…</value></tag> */
+function text(xml: string, tag: string): string | undefined {
+  const b = block(xml, tag);
+  if (!b) return undefined;
+  const v = /<value>/.test(b) ? block(b, "value") : b.replace(/<[^>]+>/g, "");
+  return decodeXml(v) || undefined;
+}
+
+function num(xml: string, tag: string): number | undefined {
+  const t = text(xml, tag);
+  if (t === undefined) return undefined;
+  const n = Number(t.replace(/[,$\s]/g, ""));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function flag(xml: string, tag: string) {
+  const t = (text(xml, tag) || "").toLowerCase();
+  return t === "1" || t === "true";
+}
+
+function footnoteIds(xml: string): string[] {
+  return Array.from(xml.matchAll(/<footnoteId\s+id="([^"]+)"/g), (m) => m[1]);
+}
+
+// ---------- document ----------
+
+export type ReportingOwner = {
+  cik?: string;
+  name: string;
+  isDirector: boolean;
+  isOfficer: boolean;
+  isTenPercentOwner: boolean;
+  isOther: boolean;
+  officerTitle?: string;
+  otherText?: string;
+};
+
+export type OwnershipDoc = {
+  formType: string;           // "3", "4", "5", "4/A", ...
+  periodOfReport?: string;
+  dateOfOriginalSubmission?: string; // amendments only
+  notSubjectToSection16?: boolean;
+  issuer: { cik?: string; name: string; symbol?: string };
+  owners: ReportingOwner[];
+  footnotes: Record<string, string>;
+  rows: InsiderRow[];
+};
+
+export type FilingMeta = {
+  accessionNumber?: string;
+  filedAt?: string;
+  formUrl?: string;
+  indexUrl?: string;
+};
+
+function padCik(s?: string) {
+  const d = (s || "").replace(/\D/g, "");
+  return d ? d.padStart(10, "0") : undefined;
+}
+
+/** "Director, CEO, 10% Owner" */
+function ownerTitle(o: ReportingOwner) {
+  const parts: string[] = [];
+  if (o.isDirector) parts.push("Director");
+  if (o.isOfficer) parts.push(o.officerTitle || "Officer");
+  if (o.isTenPercentOwner) parts.push("10% Owner");
+  if (o.isOther) parts.push(o.otherText || "Other");
+  return parts.join(", ") || undefined;
+}
+
+/**
+ * Parse one ownership XML document. Transactions and holdings from both
+ * Table I (non-derivative) and Table II (derivative) become rows; holdings
+ * have no transaction code and only `ownedAfter`.
+ */
+export function parseOwnershipXml(xml: string, meta: FilingMeta = {}): OwnershipDoc {
+  const doc = block(xml, "ownershipDocument") || xml;
+
+  const issuerXml = block(doc, "issuer");
+  const issuer = {
+    cik: padCik(text(issuerXml, "issuerCik")),
+    name: text(issuerXml, "issuerName") || "—",
+    symbol: text(issuerXml, "issuerTradingSymbol")?.toUpperCase(),
+  };
+
+  const owners: ReportingOwner[] = blocks(doc, "reportingOwner").map((o) => {
+    const rel = block(o, "reportingOwnerRelationship");
+    return {
+      cik: padCik(text(o, "rptOwnerCik")),
+      name: text(o, "rptOwnerName") || "—",
+      isDirector: flag(rel, "isDirector"),
+      isOfficer: flag(rel, "isOfficer"),
+      isTenPercentOwner: flag(rel, "isTenPercentOwner"),
+      isOther: flag(rel, "isOther"),
+      officerTitle: text(rel, "officerTitle"),
+      otherText: text(rel, "otherText"),
+    };
+  });
+
+  const footnotes: Record<string, string> = {};
+  for (const m of block(doc, "footnotes").matchAll(/<footnote\s+id="([^"]+)"\s*>([\s\S]*?)<\/footnote>/g)) {
+    footnotes[m[1]] = decodeXml(m[2]);
+  }
+
+  const formType = `${text(doc, "documentType") || ""}`.toUpperCase();
+  const base = {
+    source: "sec" as const,
+    insider: owners.map((o) => o.name).join(" / ") || "—",
+    insiderTitle: owners.map(ownerTitle).filter(Boolean).join(" / ") || undefined,
+    issuer: issuer.name,
+    symbol: issuer.symbol,
+    cik: issuer.cik,
+    filedAt: meta.filedAt,
+    formType,
+    accessionNumber: meta.accessionNumber,
+    formUrl: meta.formUrl,
+    indexUrl: meta.indexUrl,
+  };
+
+  function row(x: string, table: "I" | "II", isHolding: boolean): InsiderRow {
+    const coding = block(x, "transactionCoding");
+    const amounts = block(x, "transactionAmounts");
+    const post = block(x, "postTransactionAmounts");
+    const nature = block(x, "ownershipNature");
+    const underlying = block(x, "underlyingSecurity");
+
+    const code = isHolding ? undefined : text(coding, "transactionCode")?.toUpperCase();
+    const ad = text(amounts, "transactionAcquiredDisposedCode")?.toUpperCase();
+    const shares = num(amounts, "transactionShares");
+    const price = num(amounts, "transactionPricePerShare");
+    const ownedAfter = num(post, "sharesOwnedFollowingTransaction") ?? num(post, "valueOwnedFollowingTransaction");
+    const direct = text(nature, "directOrIndirectOwnership")?.toUpperCase();
+    const ids = Array.from(new Set(footnoteIds(x)));
+
+    return {
+      ...base,
+      transDate: text(x, "transactionDate")?.slice(0, 10),
+      transactionCode: code,
+      transactionText: isHolding ? "Holding" : codeText(code),
+      txnType: ad === "A" || ad === "D" ? ad : mapCodeToAD(code),
+      table,
+      security: text(x, "securityTitle"),
+      shares,
+      price,
+      value: shares !== undefined && price ? shares * price : undefined,
+      ownedAfter,
+      ownership: direct === "D" || direct === "I" ? direct : undefined,
+      ownershipNature: text(nature, "natureOfOwnership"),
+      underlyingSecurity: underlying ? text(underlying, "underlyingSecurityTitle") : undefined,
+      underlyingShares: underlying ? num(underlying, "underlyingSecurityShares") : undefined,
+      exercisePrice: table === "II" ? num(x, "conversionOrExercisePrice") : undefined,
+      expirationDate: table === "II" ? text(x, "expirationDate")?.slice(0, 10) : undefined,
+      footnotes: ids.length ? ids.map((id) => footnotes[id] || id) : undefined,
+    };
+  }
+
+  const nonDeriv = block(doc, "nonDerivativeTable");
+  const deriv = block(doc, "derivativeTable");
+  const rows: InsiderRow[] = [
+    ...blocks(nonDeriv, "nonDerivativeTransaction").map((x) => row(x, "I", false)),
+    ...blocks(nonDeriv, "nonDerivativeHolding").map((x) => row(x, "I", true)),
+    ...blocks(deriv, "derivativeTransaction").map((x) => row(x, "II", false)),
+    ...blocks(deriv, "derivativeHolding").map((x) => row(x, "II", true)),
+  ];
+
+  return {
+    formType,
+    periodOfReport: text(doc, "periodOfReport"),
+    dateOfOriginalSubmission: text(doc, "dateOfOriginalSubmission"),
+    notSubjectToSection16: flag(doc, "notSubjectToSection16"),
+    issuer,
+    owners,
+    footnotes,
+    rows,
+  };
+}
+
+/**
+ * An amendment (3/A, 4/A, 5/A) restates the whole report, so it replaces the
+ * original: same base form, same reporting owner(s), and a filing date equal
+ * to `dateOfOriginalSubmission` (or, when that is missing, the same period).
+ * Later amendments win over earlier ones. Input order does not matter.
+ */
+export function applyAmendments<T extends OwnershipDoc & { filedAt?: string }>(docs: T[]): T[] {
+  const ownersKey = (d: OwnershipDoc) =>
+    d.owners.map((o) => o.cik || o.name).sort().join("|");
+  const baseForm = (f: string) => f.replace(/\/A$/, "");
+
+  const dropped = new Set<T>();
+  const amendments = docs
+    .filter((d) => /\/A$/.test(d.formType))
+    .sort((a, b) => ((a.filedAt || "") < (b.filedAt || "") ? -1 : 1));
+
+  for (const am of amendments) {
+    const targets = docs.filter(
+      (d) =>
+        d !== am &&
+        !dropped.has(d) &&
+        baseForm(d.formType) === baseForm(am.formType) &&
+        ownersKey(d) === ownersKey(am) &&
+        (d.filedAt || "") <= (am.filedAt || "") &&
+        (am.dateOfOriginalSubmission
+          ? d.filedAt === am.dateOfOriginalSubmission ||
+            (/\/A$/.test(d.formType) && d.periodOfReport === am.periodOfReport)
+          : d.periodOfReport === am.periodOfReport)
+    );
+    targets.forEach((t) => dropped.add(t));
+  }
+  return docs.filter((d) => !dropped.has(d));
+}
+
+/** primaryDocument for ownership filings points at the XSL rendering; the raw XML sits one folder up */
+export function rawOwnershipDoc(primaryDocument: string) {
+  return primaryDocument.replace(/^xsl[^/]*\//i, "");
+}
@@ -0,0 +1,169 @@
+// lib/redline.ts
+// Paragraph + word level redline between two versions of a filing section.
+
+export type WordOp = { op: "eq" | "ins" | "del"; text: string };
+
+export type Block =
+  | { op: "unchanged"; text: string }
+  | { op: "added"; text: string }
+  | { op: "removed"; text: string }
+  | { op: "modified"; words: WordOp[] };
+
+export type RedlineSummary = {
+  unchanged: number;
+  added: number;
+  removed: number;
+  modified: number;
+  /** Heuristic: added / removed paragraphs that read like risk factor headings */
+  newRiskFactors: number;
+  removedRiskFactors: number;
+};
+
+const MAX_LCS_CELLS = 4_000_000; // beyond this, fall back to whole-paragraph replace
+const MODIFIED_SIMILARITY = 0.5;
+// how far past the cursor a changed paragraph's old version is looked for; keeps
+// unanchored gaps (e.g. sections too long for the paragraph LCS) linear
+const MATCH_WINDOW = 50;
+
+function norm(p: string) {
+  return p.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** Classic LCS table; returns matched index pairs in order */
+function lcsPairs<T>(a: T[], b: T[], eq: (x: T, y: T) => boolean): [number, number][] {
+  const n = a.length;
+  const m = b.length;
+  if (!n || !m || n * m > MAX_LCS_CELLS) return [];
+  const dp: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i][j] = eq(a[i], b[j]) ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+  const out: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (eq(a[i], b[j])) {
+      out.push([i, j]);
+      i++;
+      j++;
+    } else if (dp[i + 1][j] >= dp[i][j + 1]) i++;
+    else j++;
+  }
+  return out;
+}
+
+function wordSet(p: string) {
+  return new Set(norm(p).split(/\W+/).filter((w) => w.length > 2));
+}
+
+function similarity(A: Set<string>, B: Set<string>) {
+  if (!A.size || !B.size) return 0;
+  let inter = 0;
+  A.forEach((w) => { if (B.has(w)) inter++; });
+  return inter / (A.size + B.size - inter);
+}
+
+/** Word-level diff of two paragraphs (whitespace kept as its own token) */
+export function diffWords(a: string, b: string): WordOp[] {
+  const ta = a.split(/(\s+)/).filter(Boolean);
+  const tb = b.split(/(\s+)/).filter(Boolean);
+  const pairs = lcsPairs(ta, tb, (x, y) => x === y);
+  if (!pairs.length && (ta.length * tb.length > MAX_LCS_CELLS)) {
+    return [{ op: "del", text: a }, { op: "ins", text: b }];
+  }
+  const out: WordOp[] = [];
+  const push = (op: WordOp["op"], text: string) => {
+    const last = out[out.length - 1];
+    if (last && last.op === op) last.text += text;
+    else out.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of [...pairs, [ta.length, tb.length] as [number, number]]) {
+    while (i < pi) push("del", ta[i++]);
+    while (j < pj) push("ins", tb[j++]);
+    if (pi < ta.length) push("eq", ta[pi]);
+    i = pi + 1;
+    j = pj + 1;
+  }
+  return out;
+}
+
+/**
+ * Risk factor headings are single sentences that describe an adverse
+ * outcome ("We may not be able to ...", "... could harm our business.").
+ */
+export function looksLikeRiskHeading(p: string) {
+  const t = p.trim();
+  if (t.length < 30 || t.length > 400 || t.startsWith("|")) return false;
+  if (/[.!?]\s+[A-Z]/.test(t)) return false; // more than one sentence
+  return /\b(could|may|might|adversely|harm|risk|fail|unable|depend)\w*\b/i.test(t);
+}
+
+function splitParagraphs(text: string) {
+  return text.split(/\n+/).map((p) => p.trim()).filter(Boolean);
+}
+
+/** Diff two section texts into blocks plus a summary */
+export function redline(before: string, after: string): { blocks: Block[]; summary: RedlineSummary } {
+  const A = splitParagraphs(before);
+  const B = splitParagraphs(after);
+  const an = A.map(norm);
+  const bn = B.map(norm);
+  const anchors = lcsPairs(an, bn, (x, y) => x === y);
+
+  const blocks: Block[] = [];
+  const summary: RedlineSummary = {
+    unchanged: 0, added: 0, removed: 0, modified: 0, newRiskFactors: 0, removedRiskFactors: 0,
+  };
+
+  // Between anchors: pair similar paragraphs as "modified", the rest are added/removed
+  function flushGap(ra: string[], rb: string[]) {
+    const words = ra.map(wordSet);
+    let k = 0;
+    for (const p of rb) {
+      const pw = wordSet(p);
+      let best = -1;
+      let bestSim = MODIFIED_SIMILARITY;
+      for (let x = k; x < Math.min(ra.length, k + MATCH_WINDOW); x++) {
+        const s = similarity(words[x], pw);
+        if (s >= bestSim) { best = x; bestSim = s; }
+      }
+      if (best >= 0) {
+        for (; k < best; k++) {
+          blocks.push({ op: "removed", text: ra[k] });
+          summary.removed++;
+          if (looksLikeRiskHeading(ra[k])) summary.removedRiskFactors++;
+        }
+        blocks.push({ op: "modified", words: diffWords(ra[best], p) });
+        summary.modified++;
+        k = best + 1;
+      } else {
+        blocks.push({ op: "added", text: p });
+        summary.added++;
+        if (looksLikeRiskHeading(p)) summary.newRiskFactors++;
+      }
+    }
+    for (; k < ra.length; k++) {
+      blocks.push({ op: "removed", text: ra[k] });
+      summary.removed++;
+      if (looksLikeRiskHeading(ra[k])) summary.removedRiskFactors++;
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of [...anchors, [A.length, B.length] as [number, number]]) {
+    flushGap(A.slice(i, pi), B.slice(j, pj));
+    if (pi < A.length) {
+      blocks.push({ op: "unchanged", text: B[pj] });
+      summary.unchanged++;
+    }
+    i = pi + 1;
+    j = pj + 1;
+  }
+
+  return { blocks, summary };
+}
@@ -0,0 +1,321 @@
+// lib/schedule13.ts
+// Schedule 13D / 13G beneficial ownership reports: cover pages -> reporting
+// persons, share counts and percent of class; Item 4 (purpose) for 13Ds; and
+// a per-issuer timeline of holders crossing 5% and amending.
+import { decodeEntities, htmlToText } from "./html";
+import { filingFolder, secFetch } from "./sec";
+
+/** "SC 13D" etc., and the "SCHEDULE 13D" names of the structured filings used since Dec 2024 */
+export function isSchedule13(form: string) {
+  return /^(SC|SCHEDULE) 13[DG](\/A)?$/i.test(form.trim());
+}
+
+/** "SC 13D/A" -> { kind: "13D", amendment: true } */
+export function scheduleKind(form: string) {
+  return { kind: /13D/i.test(form) ? ("13D" as const) : ("13G" as const), amendment: /\/A$/i.test(form.trim()) };
+}
+
+export type ReportingPerson = {
+  name: string;
+  shares?: number;   // aggregate amount beneficially owned
+  percent?: number;  // percent of class
+  type?: string;     // IN, CO, PN, IA, ...
+};
+
+export type Party = { cik: string; name: string };
+
+export type Schedule13 = {
+  accessionNumber: string;
+  form: string;
+  filed: string;
+  subject?: Party;
+  filer?: Party;
+  cusip?: string;
+  eventDate?: string;
+  persons: ReportingPerson[];
+  /** Largest holding among the reporting persons (group members usually report the same block) */
+  shares?: number;
+  percent?: number;
+  /** Item 4, Purpose of Transaction (13D only) */
+  purpose?: string;
+  url: string;
+};
+
+const MAX_PURPOSE = 4000;
+const MAX_DOC_BYTES = 3_000_000;
+
+// ---------- SGML header of the full submission (.txt) ----------
+
+function headerParty(header: string, section: string): Party | undefined {
+  const at = header.search(new RegExp(`^${section}:`, "m"));
+  if (at < 0) return undefined;
+  const rest = header.slice(at + section.length + 1);
+  const end = rest.search(/^\S[^\n]*:\s*$/m); // next top-level section
+  const block = end >= 0 ? rest.slice(0, end) : rest;
+  const name = block.match(/COMPANY CONFORMED NAME:\s*(.+)/)?.[1]?.trim();
+  const cik = block.match(/CENTRAL INDEX KEY:\s*(\d+)/)?.[1];
+  return name && cik ? { name, cik: cik.padStart(10, "0") } : undefined;
+}
+
+/** SUBJECT COMPANY / FILED BY, form and date from <SEC-HEADER> */
+export function parseSubmissionHeader(txt: string) {
+  const header = txt.match(/<SEC-HEADER>([\s\S]*?)<\/SEC-HEADER>/i)?.[1] || txt.slice(0, 20000);
+  const filed = header.match(/FILED AS OF DATE:\s*(\d{4})(\d{2})(\d{2})/);
+  return {
+    form: header.match(/CONFORMED SUBMISSION TYPE:\s*(.+)/)?.[1]?.trim(),
+    filed: filed ? `${filed[1]}-${filed[2]}-${filed[3]}` : undefined,
+    subject: headerParty(header, "SUBJECT COMPANY"),
+    filer: headerParty(header, "FILED BY"),
+  };
+}
+
+/** Body of the first <DOCUMENT> (the schedule itself; exhibits follow) */
+function primaryDocument(txt: string) {
+  const doc = txt.match(/<DOCUMENT>([\s\S]*?)(?:<\/DOCUMENT>|$)/i)?.[1] || txt;
+  return doc.match(/<TEXT>([\s\S]*?)(?:<\/TEXT>|$)/i)?.[1] || doc;
+}
+
+// ---------- cover page (HTML / plain text filings) ----------
+
+function firstNumber(s: string) {
+  const m = s.match(/(?<![\d(.])(\d{1,3}(?:,\d{3})+|\d+)(?![\d)]|\.\d)/);
+  return m ? Number(m[1].replace(/,/g, "")) : undefined;
+}
+
+function firstPercent(s: string) {
+  const m = s.match(/(\d{1,3}(?:\.\d+)?)\s*%/) || s.match(/(?<![\d(])(\d{1,2}\.\d+|\d{1,2})(?![\d)])/);
+  const n = m ? Number(m[1]) : NaN;
+  return Number.isFinite(n) && n <= 100 ? n : undefined;
+}
+
+/** Text between a cover-page row label and the next label */
+function rowAfter(block: string, label: RegExp, next: RegExp) {
+  const m = block.match(label);
+  if (!m || m.index === undefined) return "";
+  const rest = block.slice(m.index + m[0].length);
+  const end = rest.search(next);
+  return (end >= 0 ? rest.slice(0, end) : rest.slice(0, 300))
+    .replace(/\(?\d{1,2}\)?\.?\s*$/, "") // next row's number
+    .trim();
+}
+
+const LABEL_NOISE = /I\.?R\.?S\.?|IDENTIFICATION|ENTITIES ONLY|ABOVE PERSONS?|^\W*$|^\(?\d{1,2}\)?\.?$|^S\.S\.? OR/i;
+const PERSON_TYPES = /\b(IN|CO|PN|IA|BD|BK|HC|IC|IV|EP|OO|CP|SA|FI|SG|SV)\b/g;
+
+function personFromBlock(block: string): ReportingPerson | null {
+  let name = "";
+  for (const raw of block.split("\n").slice(0, 8)) {
+    const line = raw.replace(/^[\s(\d).:]*(?=[A-Za-z])/, "").trim();
+    if (/CHECK\s+THE\s+APPROPRIATE/i.test(line)) break;
+    if (LABEL_NOISE.test(line) || /^(OF\s+)?(REPORTING\s+)?PERSONS?\b/i.test(line)) continue;
+    name = line.replace(/\s*\(?I\.?R\.?S\.?.*$/i, "").slice(0, 160);
+    break;
+  }
+  if (!name) return null;
+
+  const shares = firstNumber(
+    rowAfter(block, /AGGREGATE\s+AMOUNT\s+BENEFICIALLY\s+OWNED(\s+BY\s+EACH\s+REPORTING\s+PERSON)?:?/i, /CHECK\s+(BOX\s+)?IF|PERCENT\s+OF\s+CLASS/i)
+  );
+  const percent = firstPercent(
+    rowAfter(block, /PERCENT\s+OF\s+CLASS\s+REPRESENTED\s+BY\s+AMOUNT\s+IN\s+ROW\s*\(?\d+\)?:?/i, /TYPE\s+OF\s+REPORTING\s+PERSON/i)
+  );
+  const typeRow = rowAfter(block, /TYPE\s+OF\s+REPORTING\s+PERSON(\s*\(SEE\s+INSTRUCTIONS\))?:?/i, /\n\n|CUSIP|SCHEDULE\s+13|Item\s+1/i);
+  const types = Array.from(new Set(typeRow.slice(0, 60).match(PERSON_TYPES) || []));
+  return { name, shares, percent, type: types.join(", ") || undefined };
+}
+
+function parseDate(s?: string) {
+  if (!s) return undefined;
+  const us = s.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  const t = Date.parse(s.replace(/\./g, ""));
+  return Number.isFinite(t) ? new Date(t).toISOString().slice(0, 10) : undefined;
+}
+
+/** "Item 4. Purpose of Transaction" up to Item 5; the longest match skips a table of contents */
+function purposeText(text: string) {
+  let best = "";
+  const re = /Item\s*4\s*[.:\-–—]?\s*Purposes?\s+of\s+(the\s+)?Transactions?\.?/gi;
+  for (const m of text.matchAll(re)) {
+    const rest = text.slice(m.index! + m[0].length);
+    const end = rest.search(/Item\s*5\s*[.:\-–—]?\s*Interests?\s+in/i);
+    const body = (end >= 0 ? rest.slice(0, end) : rest.slice(0, MAX_PURPOSE)).trim();
+    if (body.length > best.length) best = body;
+  }
+  return best ? best.slice(0, MAX_PURPOSE) : undefined;
+}
+
+export function parseCoverText(text: string) {
+  const persons: ReportingPerson[] = [];
+  const parts = text.split(/NAMES?\s+OF\s+REPORTING\s+PERSONS?:?/i).slice(1);
+  for (const block of parts) {
+    const p = personFromBlock(block);
+    if (p && !persons.some((x) => x.name === p.name)) persons.push(p);
+  }
+  const cusip = text.match(/CUSIP\s*(?:No\.?|Number|#)?\s*:?\s*([0-9A-Z]{6}\s?[0-9A-Z]{2}\s?[0-9A-Z])\b/i)?.[1];
+  const eventAt = text.search(/\(\s*Date\s+of\s+Event/i);
+  const eventDate =
+    eventAt > 0
+      ? parseDate(
+          Array.from(
+            text.slice(Math.max(0, eventAt - 120), eventAt)
+              .matchAll(/([A-Z][a-z]+\.?\s+\d{1,2},\s*\d{4}|\d{1,2}\/\d{1,2}\/\d{4})/g)
+          ).pop()?.[1]
+        )
+      : undefined;
+  return {
+    persons,
+    cusip: cusip?.replace(/\s/g, "").toUpperCase(),
+    eventDate,
+    purpose: purposeText(text),
+  };
+}
+
+// ---------- structured filings (primary_doc.xml, Dec 2024 on) ----------
+
+function xmlValues(xml: string, tags: string) {
+  const re = new RegExp(`<(?:\\w+:)?(?:${tags})(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?(?:${tags})>`, "gi");
+  return Array.from(xml.matchAll(re)).map((m) =>
+    decodeEntities(m[1].replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim()
+  );
+}
+
+export function parseCoverXml(xml: string) {
+  const names = xmlValues(xml, "reportingPersonName|nameOfReportingPerson");
+  const shares = xmlValues(xml, "aggregateAmountOwned|reportingPersonBeneficiallyOwnedAggregateNumberOfShares");
+  const pcts = xmlValues(xml, "percentOfClass|classPercent");
+  const types = xmlValues(xml, "typeOfReportingPerson");
+  const persons: ReportingPerson[] = names.map((name, i) => {
+    const s = Number((shares[i] || "").replace(/[,\s]/g, ""));
+    const p = Number((pcts[i] || "").replace(/[%\s]/g, ""));
+    return {
+      name,
+      shares: shares[i] && Number.isFinite(s) ? s : undefined,
+      percent: pcts[i] && Number.isFinite(p) ? p : undefined,
+      type: types[i] || undefined,
+    };
+  });
+  return {
+    persons,
+    cusip: xmlValues(xml, "issuerCusip|cusipNumber|cusip")[0]?.toUpperCase(),
+    eventDate: parseDate(xmlValues(xml, "dateOfEvent|eventDateRequiresFilingThisStatement")[0]),
+    purpose: xmlValues(xml, "transactionPurpose|purposeOfTransaction")[0]?.slice(0, MAX_PURPOSE) || undefined,
+  };
+}
+
+// ---------- loading ----------
+
+// Filings never change once accepted
+const CACHE = new Map<string, Schedule13>();
+const MAX_CACHE = 500;
+
+/**
+ * Parse one 13D/13G from its full submission text file, which carries the
+ * subject company and filer in its header. Any CIK on the filing works.
+ */
+export async function loadSchedule13(
+  cik10: string,
+  f: { accessionNumber: string; form?: string; filed?: string }
+): Promise<Schedule13 | null> {
+  const cached = CACHE.get(f.accessionNumber);
+  if (cached) return cached;
+
+  const url = `${filingFolder(cik10, f.accessionNumber)}/${f.accessionNumber}.txt`;
+  const r = await secFetch(url, { headers: { Accept: "text/plain,*/*" } });
+  if (!r.ok) return null;
+  const txt = (await r.text()).slice(0, MAX_DOC_BYTES);
+
+  const head = parseSubmissionHeader(txt);
+  const form = head.form || f.form || "";
+  const doc = primaryDocument(txt);
+  const cover = /<edgarSubmission|<\?xml/i.test(doc.slice(0, 2000)) ? parseCoverXml(doc) : parseCoverText(htmlToText(doc));
+  const top = cover.persons.reduce<ReportingPerson | undefined>(
+    (best, p) => (!best || (p.percent ?? -1) > (best.percent ?? -1) ? p : best),
+    undefined
+  );
+
+  const entry: Schedule13 = {
+    accessionNumber: f.accessionNumber,
+    form,
+    filed: head.filed || f.filed || "",
+    subject: head.subject,
+    filer: head.filer,
+    cusip: cover.cusip,
+    eventDate: cover.eventDate,
+    persons: cover.persons,
+    shares: top?.shares,
+    percent: top?.percent,
+    purpose: scheduleKind(form).kind === "13D" ? cover.purpose : undefined,
+    url: `${filingFolder(cik10, f.accessionNumber)}/${f.accessionNumber}-index.html`,
+  };
+  if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+  CACHE.set(f.accessionNumber, entry);
+  return entry;
+}
+
+// ---------- per-issuer timeline ----------
+
+export type TimelineEventType =
+  | "crossed-5"      // original 13D at or above 5%
+  | "passive-5"      // original 13G at or above 5%
+  | "switched-to-13d"// a 13G holder now files a 13D (no longer passive)
+  | "increased"
+  | "decreased"
+  | "below-5"        // amendment reporting under 5% (exit from reporting)
+  | "amended";
+
+export type TimelineEvent = {
+  filed: string;
+  form: string;
+  accessionNumber: string;
+  holder: string;
+  holderCik?: string;
+  event: TimelineEventType;
+  percent?: number;
+  priorPercent?: number;
+  shares?: number;
+  purpose?: string;
+  url: string;
+};
+
+/** One holder = the filer CIK when known, else the first reporting person */
+function holderKey(s: Schedule13) {
+  return s.filer?.cik || (s.persons[0]?.name || s.accessionNumber).toUpperCase();
+}
+
+/** Oldest first: each filing compared with the same holder's previous one */
+export function buildTimeline(filings: Schedule13[]): TimelineEvent[] {
+  const last = new Map<string, Schedule13>();
+  return filings
+    .slice()
+    .sort((a, b) => (a.filed < b.filed ? -1 : a.filed > b.filed ? 1 : a.accessionNumber < b.accessionNumber ? -1 : 1))
+    .map((s) => {
+      const key = holderKey(s);
+      const prev = last.get(key);
+      last.set(key, s);
+      const { kind, amendment } = scheduleKind(s.form);
+      const pct = s.percent;
+      const was = prev?.percent;
+
+      let event: TimelineEventType = "amended";
+      if (prev && kind === "13D" && scheduleKind(prev.form).kind === "13G") event = "switched-to-13d";
+      else if (pct !== undefined && pct < 5 && (was === undefined || was >= 5) && amendment) event = "below-5";
+      else if (!amendment && (pct === undefined || pct >= 5)) event = kind === "13D" ? "crossed-5" : "passive-5";
+      else if (pct !== undefined && was !== undefined && pct > was) event = "increased";
+      else if (pct !== undefined && was !== undefined && pct < was) event = "decreased";
+
+      return {
+        filed: s.filed,
+        form: s.form,
+        accessionNumber: s.accessionNumber,
+        holder: s.filer?.name || s.persons[0]?.name || "—",
+        holderCik: s.filer?.cik,
+        event,
+        percent: pct,
+        priorPercent: was,
+        shares: s.shares,
+        purpose: s.purpose,
+        url: s.url,
+      };
+    });
+}
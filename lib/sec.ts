@@ -0,0 +1,274 @@
+// lib/sec.ts
+// Shared helpers for talking to SEC EDGAR (data.sec.gov + www.sec.gov/Archives).
+
+export const SEC_BASE = "https://data.sec.gov";             // <-- IMPORTANT: use data.sec.gov
+export const SEC_ARCHIVES = "https://www.sec.gov/Archives"; // for document links
+
+export function getUA() {
+  const ua = process.env.SEC_USER_AGENT || process.env.SEC_USERAGENT || "";
+  // SEC requires a descriptive UA w/ contact. Provide a safe fallback.
+  return ua || "herevna.io (contact@herevna.io)";
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+// ---------- fair access ----------
+// SEC allows 10 requests/second per client. The bucket and counters live on
+// globalThis so every route bundle in this process shares one budget.
+
+const RATE_PER_SEC = Math.max(1, Number(process.env.SEC_RATE_LIMIT || 10));
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10_000;
+
+export type SecMetrics = {
+  requests: number;   // calls that reached SEC (incl. retries)
+  throttled: number;  // calls that had to wait for a token
+  retried: number;    // retries after 429/403/5xx/network errors
+  rateLimited: number; // 429/403 responses seen
+  failed: number;     // calls that gave up with an error status or exception
+  since: string;
+};
+
+type CachedJSON = { at: number; etag?: string; lastModified?: string; data: any; bytes: number };
+
+type SecState = {
+  tokens: number;
+  at: number;
+  metrics: SecMetrics;
+  json: Map<string, CachedJSON>;
+  jsonBytes: number; // sum of `bytes` over json
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var secState: SecState | undefined;
+}
+
+const state: SecState =
+  global.secState ||
+  (global.secState = {
+    tokens: RATE_PER_SEC,
+    at: Date.now(),
+    metrics: { requests: 0, throttled: 0, retried: 0, rateLimited: 0, failed: 0, since: new Date().toISOString() },
+    json: new Map(),
+    jsonBytes: 0,
+  });
+
+export function secMetrics(): SecMetrics & { ratePerSec: number } {
+  return { ...state.metrics, ratePerSec: RATE_PER_SEC };
+}
+
+/** Token bucket: wait until one request slot is free */
+async function acquire() {
+  let waited = false;
+  for (;;) {
+    const now = Date.now();
+    state.tokens = Math.min(RATE_PER_SEC, state.tokens + ((now - state.at) / 1000) * RATE_PER_SEC);
+    state.at = now;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      if (waited) state.metrics.throttled++;
+      return;
+    }
+    waited = true;
+    await sleep(Math.ceil(((1 - state.tokens) / RATE_PER_SEC) * 1000));
+  }
+}
+
+/** Exponential backoff with full jitter; honors Retry-After when SEC sends it */
+function backoff(attempt: number, r?: Response) {
+  const retryAfter = Number(r?.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.min(retryAfter * 1000, BACKOFF_MAX_MS);
+  const cap = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+function retryable(status: number) {
+  return status === 429 || status === 403 || status >= 500;
+}
+
+/**
+ * Every SEC request goes through here: shared rate limit, descriptive
+ * User-Agent, and retries on throttling / transient errors.
+ */
+export async function secFetch(url: string, init?: RequestInit, retries = 3): Promise<Response> {
+  for (let i = 0; ; i++) {
+    await acquire();
+    state.metrics.requests++;
+    let r: Response | undefined;
+    try {
+      r = await fetch(url, {
+        ...init,
+        headers: {
+          "User-Agent": getUA(),
+          "Accept": "application/json,text/plain,*/*",
+          ...(init?.headers || {}),
+        },
+        // Vercel edge sometimes benefits from no caching for SEC JSON
+        cache: "no-store",
+      });
+    } catch (e) {
+      if (i >= retries) {
+        state.metrics.failed++;
+        throw e;
+      }
+    }
+    if (r) {
+      if (r.status === 429 || r.status === 403) state.metrics.rateLimited++;
+      if (!retryable(r.status)) return r;
+      if (i >= retries) {
+        state.metrics.failed++;
+        return r;
+      }
+    }
+    state.metrics.retried++;
+    await sleep(backoff(i, r));
+  }
+}
+
+// ---------- conditional JSON cache ----------
+
+const JSON_FRESH_MS = 10 * 60 * 1000; // no request at all inside this window
+const JSON_MAX_ENTRIES = 500;
+// submissions JSON for a large filer runs to several MB; bound the body text kept
+const JSON_MAX_BYTES = 48 * 1024 * 1024;
+
+export type SecJSON =
+  | { ok: true; status: number; data: any; cache: "fresh" | "revalidated" | "miss" }
+  | { ok: false; status: number; error: string };
+
+/**
+ * GET a SEC JSON document through a per-instance cache. Fresh entries are
+ * served without a request; stale ones are revalidated with
+ * If-None-Match / If-Modified-Since, so an unchanged 304 costs no body.
+ */
+export async function secJSON(url: string, freshMs = JSON_FRESH_MS): Promise<SecJSON> {
+  const hit = state.json.get(url);
+  if (hit && Date.now() - hit.at < freshMs) return { ok: true, status: 200, data: hit.data, cache: "fresh" };
+
+  const headers: Record<string, string> = {};
+  if (hit?.etag) headers["If-None-Match"] = hit.etag;
+  if (hit?.lastModified) headers["If-Modified-Since"] = hit.lastModified;
+
+  const r = await secFetch(url, { headers });
+  if (r.status === 304 && hit) {
+    hit.at = Date.now();
+    return { ok: true, status: 200, data: hit.data, cache: "revalidated" };
+  }
+  if (!r.ok) {
+    const text = await r.text().catch(() => "");
+    return { ok: false, status: r.status, error: text.slice(0, 300) };
+  }
+  const body = await r.text();
+  const data = JSON.parse(body);
+  const bytes = body.length;
+
+  // re-insert so Map order doubles as least-recently-fetched order
+  dropJSON(url);
+  // one oversized document must not flush everything else
+  if (bytes <= JSON_MAX_BYTES / 4) {
+    while (state.json.size && (state.json.size >= JSON_MAX_ENTRIES || state.jsonBytes + bytes > JSON_MAX_BYTES)) {
+      dropJSON(state.json.keys().next().value as string);
+    }
+    state.json.set(url, {
+      at: Date.now(),
+      etag: r.headers.get("etag") || undefined,
+      lastModified: r.headers.get("last-modified") || undefined,
+      data,
+      bytes,
+    });
+    state.jsonBytes += bytes;
+  }
+  return { ok: true, status: r.status, data, cache: "miss" };
+}
+
+function dropJSON(url: string) {
+  const hit = state.json.get(url);
+  if (!hit) return;
+  state.json.delete(url);
+  state.jsonBytes -= hit.bytes;
+}
+
+/** Run tasks with a small concurrency cap (SEC fan-outs: historic pages, documents) */
+export async function mapLimit<T, R>(items: T[], limit: number, fn: (x: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i]);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+export function normalizeCIK(input: string): string | null {
+  if (!input) return null;
+  let s = input.trim();
+  if (/^CIK/i.test(s)) s = s.replace(/^CIK/i, "");
+  s = s.replace(/\D/g, ""); // keep digits only
+  if (!s) return null;
+  if (s.length > 10) s = s.slice(-10);
+  return s.padStart(10, "0");
+}
+
+/** "0000320193-24-000123" (dashes optional) -> dashed form, or null if malformed */
+export function normalizeAccession(input: string): string | null {
+  const digits = (input || "").replace(/\D/g, "");
+  if (digits.length !== 18) return null;
+  return `${digits.slice(0, 10)}-${digits.slice(10, 12)}-${digits.slice(12)}`;
+}
+
+/** Archives folder for one filing, e.g. .../edgar/data/320193/000032019324000123 */
+export function filingFolder(cik10: string, acc: string) {
+  const cikNoZeros = String(parseInt(cik10, 10)); // drop leading zeros for Archives path
+  const accNoDashes = acc.replace(/-/g, "");
+  return `${SEC_ARCHIVES}/edgar/data/${cikNoZeros}/${accNoDashes}`;
+}
+
+/** A plain file name inside a filing folder: word characters and dashes around single dots, so no "." or ".." */
+export function isDocumentName(name: string) {
+  return /^[\w\-]+(\.[\w\-]+)*$/.test(name);
+}
+
+export function buildOpenUrl(cik10: string, acc: string, primary?: string) {
+  // Prefer primary doc when present; otherwise open the index
+  if (primary) {
+    return `${filingFolder(cik10, acc)}/${primary}`;
+  }
+  return `${filingFolder(cik10, acc)}/${acc}-index.html`;
+}
+
+export type RecentFiling = {
+  accessionNumber: string;
+  form: string;
+  filingDate: string;
+  reportDate?: string;
+  primaryDocument?: string;
+  items?: string; // 8-K item codes, e.g. "2.02,9.01"
+};
+
+/** The "recent" block of the submissions JSON as rows (newest first, as SEC returns it) */
+export async function recentFilings(cik10: string): Promise<RecentFiling[] | null> {
+  const r = await secJSON(`${SEC_BASE}/submissions/CIK${cik10}.json`);
+  if (r.ok === false) return null;
+  const recent = r.data?.filings?.recent;
+  if (!Array.isArray(recent?.accessionNumber)) return [];
+  return recent.accessionNumber.map((acc: string, i: number) => ({
+    accessionNumber: acc,
+    form: String(recent.form?.[i] || ""),
+    filingDate: String(recent.filingDate?.[i] || ""),
+    reportDate: recent.reportDate?.[i] || undefined,
+    primaryDocument: recent.primaryDocument?.[i] || undefined,
+    items: recent.items?.[i] || undefined,
+  }));
+}
+
+/** Form + primary doc for one accession */
+export async function findFiling(cik10: string, acc: string) {
+  const list = await recentFilings(cik10);
+  return list?.find((f) => f.accessionNumber === acc) || null;
+}
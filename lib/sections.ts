@@ -0,0 +1,140 @@
+// lib/sections.ts
+// Split 10-K / 10-Q text (see htmlToMarkdownText) into "Item" sections.
+import { htmlToMarkdownText } from "./html";
+import { buildOpenUrl, findFiling, isDocumentName, secFetch } from "./sec";
+
+export type SectionKey = "1" | "1A" | "3" | "7" | "7A";
+
+export type Section = {
+  key: SectionKey;
+  item: string;   // as printed, e.g. "Item 1A" or "Part II, Item 1A"
+  title: string;
+  text: string;
+  chars: number;
+};
+
+/** Canonical titles; 10-Q items are mapped onto the 10-K numbering */
+export const SECTION_TITLES: Record<SectionKey, string> = {
+  "1": "Business",
+  "1A": "Risk Factors",
+  "3": "Legal Proceedings",
+  "7": "Management's Discussion and Analysis",
+  "7A": "Quantitative and Qualitative Disclosures About Market Risk",
+};
+
+// Object.keys would put "1", "3", "7" ahead of "1A"
+export const SECTION_ORDER: SectionKey[] = ["1", "1A", "3", "7", "7A"];
+
+// 10-Q: Part I Item 2 = MD&A, Part I Item 3 = market risk, Part II Item 1 = legal, Part II Item 1A = risk factors
+const TENQ_MAP: Record<string, SectionKey> = {
+  "I:2": "7",
+  "I:3": "7A",
+  "II:1": "3",
+  "II:1A": "1A",
+};
+
+type Heading = { part: string; item: string; pos: number; line: string };
+
+const RE_PART = /^part\s+(iv|iii|ii|i)\b/i;
+const RE_ITEM = /^(?:part\s+(?:iv|iii|ii|i)\b[\s,.:-]*)?item\s*(\d{1,2}[a-c]?)\s*[.:\-–—]?\s*(.*)$/i;
+
+function findHeadings(text: string): Heading[] {
+  const out: Heading[] = [];
+  let part = "I";
+  let pos = 0;
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    const p = line.match(RE_PART);
+    if (p) part = p[1].toUpperCase();
+    const m = line.length < 200 ? line.match(RE_ITEM) : null;
+    if (m) out.push({ part, item: m[1].toUpperCase(), pos, line });
+    pos += raw.length + 1;
+  }
+  return out;
+}
+
+/**
+ * Pick, for each wanted item, the occurrence with the longest body. The table
+ * of contents repeats every heading, but its "sections" are a single line.
+ */
+export function extractSections(text: string, form: string, wanted?: SectionKey[]): Section[] {
+  const isQ = /^10-Q/i.test(form);
+  const heads = findHeadings(text);
+  const best = new Map<SectionKey, { h: Heading; end: number }>();
+
+  heads.forEach((h, i) => {
+    const key: SectionKey | undefined = isQ
+      ? TENQ_MAP[`${h.part}:${h.item}`]
+      : (h.item in SECTION_TITLES ? (h.item as SectionKey) : undefined);
+    if (!key || (wanted && !wanted.includes(key))) return;
+    const end = i + 1 < heads.length ? heads[i + 1].pos : text.length;
+    const prev = best.get(key);
+    if (!prev || end - h.pos > prev.end - prev.h.pos) best.set(key, { h, end });
+  });
+
+  return SECTION_ORDER
+    .filter((k) => best.has(k))
+    .map((k) => {
+      const { h, end } = best.get(k)!;
+      // drop the heading line itself; keep the printed title if it had one
+      const body = text.slice(h.pos, end).split("\n").slice(1).join("\n").trim();
+      return {
+        key: k,
+        item: isQ ? `Part ${h.part}, Item ${h.item}` : `Item ${h.item}`,
+        title: SECTION_TITLES[k],
+        text: body,
+        chars: body.length,
+      };
+    });
+}
+
+export type FilingSections = { form: string; filed?: string; url: string; sections: Section[] };
+
+// Filings never change once accepted, so extracted sections can be kept per instance
+// (keyed on accession + form + document, since a caller's hints change the parse).
+const CACHE = new Map<string, FilingSections>();
+const MAX_CACHE = 100;
+
+/**
+ * Fetch one 10-K/10-Q primary document and split it into sections. `hint`
+ * skips the submissions lookup when the caller already knows form, doc and
+ * filing date.
+ */
+export async function loadSections(
+  cik10: string,
+  acc: string,
+  hint: { form?: string; doc?: string; filed?: string } = {}
+): Promise<FilingSections | { status: number; error: string }> {
+  let form = (hint.form || "").toUpperCase();
+  let doc = hint.doc || "";
+  let filed = hint.filed || undefined;
+  if (!doc || !form || !filed) {
+    const hit = await findFiling(cik10, acc);
+    doc = doc || hit?.primaryDocument || "";
+    form = form || (hit?.form || "").toUpperCase();
+    filed = filed || hit?.filingDate;
+  }
+  if (!doc || !form) {
+    return { status: 404, error: "Primary document not found; pass ?doc= and ?form= explicitly." };
+  }
+  if (!/^10-[KQ]/.test(form)) {
+    return { status: 400, error: `Form ${form || "(unknown)"} is not a 10-K or 10-Q.` };
+  }
+  if (!isDocumentName(doc)) return { status: 400, error: "Invalid document name" };
+
+  const key = `${acc}|${form}|${doc}`;
+  const cached = CACHE.get(key);
+  if (cached) return cached;
+
+  const url = buildOpenUrl(cik10, acc, doc);
+  const r = await secFetch(url, { headers: { Accept: "text/html,text/plain,*/*" } });
+  if (!r.ok) return { status: r.status, error: `SEC document fetch failed (${r.status})` };
+
+  // Works for both classic HTML and inline XBRL (ix:* tags are stripped like any other)
+  const text = htmlToMarkdownText(await r.text());
+  const entry: FilingSections = { form, filed, url, sections: extractSections(text, form) };
+
+  if (CACHE.size >= MAX_CACHE) CACHE.delete(CACHE.keys().next().value as string);
+  CACHE.set(key, entry);
+  return entry;
+}
@@ -0,0 +1,275 @@
+// lib/tickerSearch.ts
+// Issuer autocomplete over the shared ticker index: a prefix trie for tickers
+// and a trigram index over name words, checked by edit distance, so "Nvidea"
+// and "Berkshre" still find their companies. Built once per index refresh
+// and kept in memory; a query touches only the matching trie node and
+// posting lists.
+import { nameTokens, normalizeTicker, tickerIndex, type SecRow, type TickerIndex } from "./tickers";
+
+export type IssuerHit = SecRow & { score: number; match: "cik" | "ticker" | "ticker-prefix" | "name" | "fuzzy" };
+
+// rows kept per trie node (best first), enough for a dropdown page; rows whose
+// ticker ends at the node are kept apart, so "F" or "GE" always find themselves
+const TRIE_TOP = 50;
+// name words considered for the word being typed
+const MAX_PREFIX_WORDS = 300;
+// fuzzy candidates checked by edit distance per query word, most shared trigrams first
+const MAX_FUZZY_CANDIDATES = 200;
+const MAJOR_EXCHANGES = new Set(["NYSE", "NASDAQ", "CBOE"]);
+// per-query budget the index is built for (reported by /api/health)
+const P99_BUDGET_MS = 5;
+const MAX_TIMINGS = 1000;
+
+type TrieNode = { next: Map<string, TrieNode>; top: number[]; exact: number[] };
+
+type SearchIndex = {
+  rows: SecRow[];
+  boost: number[];
+  trie: TrieNode;
+  words: string[];          // sorted vocabulary of name words
+  wordRows: number[][];     // word id -> rows containing it
+  grams: Map<string, number[]>; // trigram -> word ids
+  firstWord: number[];      // row -> id of its first name word
+  wordCount: number[];      // row -> name words
+};
+
+const BUILT = new WeakMap<TickerIndex, SearchIndex>();
+
+/** Preferred shares, warrants, units and rights: BAC-PL, XYZ-WT, ABCDU */
+function isCommonShare(ticker: string) {
+  return /^[A-Z]{1,5}(-[A-C])?$/.test(ticker) && !/^[A-Z]{4}[WUR]$/.test(ticker);
+}
+
+/** Exchange-listed common stock first, then OTC, then everything else; primary tickers ahead of other classes */
+function rowBoost(row: SecRow, primary: boolean) {
+  const ex = (row.exchange || "").toUpperCase();
+  return (MAJOR_EXCHANGES.has(ex) ? 30 : ex ? 10 : 0) + (isCommonShare(row.ticker) ? 20 : 0) + (primary ? 15 : 0);
+}
+
+/** Leading-padded trigrams, so a word's first letters weigh in and prefixes share grams with the word */
+function trigrams(word: string) {
+  const w = `$${word}`;
+  const out: string[] = [];
+  for (let i = 0; i + 3 <= w.length; i++) out.push(w.slice(i, i + 3));
+  return out.length ? out : [w];
+}
+
+/** Optimal string alignment distance, giving up past `max` */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      cur.push(d);
+      if (d < best) best = d;
+    }
+    if (best > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+const maxEdits = (len: number) => (len <= 3 ? 0 : len <= 6 ? 1 : 2);
+
+function build(index: TickerIndex): SearchIndex {
+  const rows = index.rows;
+  const boost = rows.map((r) => rowBoost(r, index.byCik.get(r.cik)?.[0] === r));
+  // insertion in rank order leaves every node's `top` already sorted
+  const order = rows.map((_, i) => i).sort((a, b) => boost[b] - boost[a] || a - b);
+
+  const trie: TrieNode = { next: new Map(), top: [], exact: [] };
+  for (const i of order) {
+    let node = trie;
+    for (const ch of rows[i].ticker) {
+      let child = node.next.get(ch);
+      if (!child) node.next.set(ch, (child = { next: new Map(), top: [], exact: [] }));
+      node = child;
+      if (node.top.length < TRIE_TOP) node.top.push(i);
+    }
+    if (node !== trie) node.exact.push(i);
+  }
+
+  const byWord = new Map<string, number[]>();
+  const tokensPerRow = rows.map((r) => nameTokens(r.name));
+  tokensPerRow.forEach((tokens, i) => {
+    for (const t of new Set(tokens)) {
+      const list = byWord.get(t);
+      if (list) list.push(i);
+      else byWord.set(t, [i]);
+    }
+  });
+  const words = Array.from(byWord.keys()).sort();
+  const id = new Map(words.map((w, k) => [w, k]));
+  const grams = new Map<string, number[]>();
+  words.forEach((w, k) => {
+    for (const g of new Set(trigrams(w))) {
+      const list = grams.get(g);
+      if (list) list.push(k);
+      else grams.set(g, [k]);
+    }
+  });
+
+  return {
+    rows,
+    boost,
+    trie,
+    words,
+    wordRows: words.map((w) => byWord.get(w)!),
+    grams,
+    firstWord: tokensPerRow.map((t) => (t.length ? id.get(t[0])! : -1)),
+    wordCount: tokensPerRow.map((t) => t.length),
+  };
+}
+
+// query times (ms) of the last MAX_TIMINGS searches, ring-buffered; index builds are not counted
+const timings: number[] = [];
+let searches = 0;
+
+/** Search latency for /api/health */
+export function searchMetrics() {
+  const sorted = timings.slice().sort((a, b) => a - b);
+  const pct = (p: number) =>
+    sorted.length ? Math.round(sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] * 100) / 100 : null;
+  const p99 = pct(0.99);
+  return {
+    searches,
+    p50Ms: pct(0.5),
+    p99Ms: p99,
+    budgetMs: P99_BUDGET_MS,
+    withinBudget: p99 === null || p99 < P99_BUDGET_MS,
+  };
+}
+
+async function searchIndex() {
+  const index = await tickerIndex();
+  let s = BUILT.get(index);
+  if (!s) BUILT.set(index, (s = build(index)));
+  return s;
+}
+
+/** Words matching one query word -> quality (1 exact, 0.9 prefix, less per edit) */
+function matchWord(s: SearchIndex, q: string, typing: boolean) {
+  const out = new Map<number, number>();
+  let lo = 0;
+  let hi = s.words.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (s.words[mid] < q) lo = mid + 1;
+    else hi = mid;
+  }
+  if (s.words[lo] === q) out.set(lo, 1);
+  // the word being typed may be unfinished
+  if (typing) {
+    for (let k = lo, n = 0; k < s.words.length && n < MAX_PREFIX_WORDS && s.words[k].startsWith(q); k++, n++) {
+      if (!out.has(k)) out.set(k, 0.9);
+    }
+  }
+
+  const max = maxEdits(q.length);
+  if (!max) return out;
+  const qGrams = Array.from(new Set(trigrams(q)));
+  const shared = new Map<number, number>();
+  for (const g of qGrams) for (const k of s.grams.get(g) || []) shared.set(k, (shared.get(k) || 0) + 1);
+  // one edit touches at most three trigrams
+  const need = Math.max(1, qGrams.length - 3 * max);
+  let candidates = Array.from(shared.entries()).filter(([k, n]) => n >= need && !out.has(k));
+  if (candidates.length > MAX_FUZZY_CANDIDATES) {
+    candidates = candidates.sort((a, b) => b[1] - a[1]).slice(0, MAX_FUZZY_CANDIDATES);
+  }
+  for (const [k] of candidates) {
+    const w = s.words[k];
+    let d = editDistance(q, w, max);
+    if (typing && d > max) {
+      for (let len = q.length - 1; len <= q.length + 1 && d > max; len++) {
+        if (len > 0 && len < w.length) d = Math.min(d, editDistance(q, w.slice(0, len), max));
+      }
+    }
+    if (d <= max) out.set(k, d === 1 ? 0.75 : 0.6);
+  }
+  return out;
+}
+
+function searchNames(s: SearchIndex, query: string) {
+  const q = nameTokens(query);
+  if (!q.length) return new Map<number, { score: number; fuzzy: boolean }>();
+  const typing = !/\s$/.test(query);
+
+  // per query word: row -> best quality among that row's words
+  const perWord = q.map((w, i) => {
+    const words = matchWord(s, w, typing && i === q.length - 1);
+    const rows = new Map<number, number>();
+    words.forEach((quality, k) => {
+      for (const r of s.wordRows[k]) if ((rows.get(r) || 0) < quality) rows.set(r, quality);
+    });
+    return { words, rows };
+  });
+  const firstMatches = perWord[0].words;
+  perWord.sort((a, b) => a.rows.size - b.rows.size);
+
+  const out = new Map<number, { score: number; fuzzy: boolean }>();
+  perWord[0].rows.forEach((_, r) => {
+    let sum = 0;
+    let fuzzy = false;
+    for (const p of perWord) {
+      const quality = p.rows.get(r);
+      if (quality === undefined) return;
+      sum += quality;
+      if (quality < 0.9) fuzzy = true;
+    }
+    const startsWith = firstMatches.has(s.firstWord[r]);
+    const extra = Math.max(0, s.wordCount[r] - q.length);
+    out.set(r, { score: (400 * sum) / q.length + (startsWith ? 40 : 0) - Math.min(30, extra * 3), fuzzy });
+  });
+  return out;
+}
+
+/**
+ * Ranked issuers for a partial ticker, name (typos tolerated) or CIK.
+ * One row per ticker; callers that want one row per company keep the first
+ * row of each CIK.
+ */
+export async function searchIssuers(query: string, limit = 20): Promise<IssuerHit[]> {
+  const raw = query.split("—")[0].trim();
+  if (!raw) return [];
+  const s = await searchIndex();
+  const t0 = performance.now();
+  const best = new Map<number, { score: number; match: IssuerHit["match"] }>();
+  const offer = (i: number, score: number, match: IssuerHit["match"]) => {
+    const cur = best.get(i);
+    if (!cur || score > cur.score) best.set(i, { score, match });
+  };
+
+  if (/^(CIK)?\s*\d{1,10}$/i.test(raw)) {
+    const digits = raw.replace(/\D/g, "");
+    const cik = digits.padStart(10, "0");
+    s.rows.forEach((r, i) => {
+      if (r.cik === cik) offer(i, 1000 + s.boost[i], "cik");
+      else if (r.cik.includes(digits)) offer(i, 200 + s.boost[i], "cik");
+    });
+  } else {
+    if (/^[A-Za-z0-9.\-/]{1,10}$/.test(raw)) {
+      const t = normalizeTicker(raw);
+      let node: TrieNode | undefined = s.trie;
+      for (const ch of t) node = node?.next.get(ch);
+      for (const i of [...(node?.exact || []), ...(node?.top || [])]) {
+        const exact = s.rows[i].ticker === t;
+        offer(i, (exact ? 1000 : 600 - (s.rows[i].ticker.length - t.length) * 10) + s.boost[i], exact ? "ticker" : "ticker-prefix");
+      }
+    }
+    searchNames(s, raw).forEach((m, i) => offer(i, m.score + s.boost[i], m.fuzzy ? "fuzzy" : "name"));
+  }
+
+  const hits = Array.from(best.entries())
+    .sort((a, b) => b[1].score - a[1].score || a[0] - b[0])
+    .slice(0, Math.max(1, limit))
+    .map(([i, m]) => ({ ...s.rows[i], score: Math.round(m.score), match: m.match }));
+  timings[searches++ % MAX_TIMINGS] = performance.now() - t0;
+  return hits;
+}
@@ -0,0 +1,193 @@
+// lib/tickers.ts
+// The shared ticker / CIK index: SEC company_tickers_exchange.json, loaded once
+// per instance from a database snapshot and refreshed in the background, so
+// the download happens about once a day rather than per request.
+import { prisma } from "./prisma";
+import { secFetch } from "./sec";
+
+const SEC_JSON_URL = "https://www.sec.gov/files/company_tickers_exchange.json";
+const TTL_MS = 24 * 60 * 60 * 1000; // 24h
+
+export type SecRow = { cik: string; ticker: string; name: string; exchange?: string };
+
+export type TickerIndex = {
+  rows: SecRow[];
+  byCik: Map<string, SecRow[]>;
+  byTicker: Map<string, SecRow>;
+  /** Upper-cased names, sorted, for prefix search */
+  names: { key: string; row: SecRow }[];
+  /** When SEC last served (or confirmed) this data */
+  at: number;
+};
+
+type Validators = { etag?: string; lastModified?: string };
+
+let _index: TickerIndex | null = null;
+let _validators: Validators = {};
+let _loading: Promise<TickerIndex> | null = null;
+let _refreshing: Promise<unknown> | null = null;
+
+/** BRK.B / BRK/B / brk-b -> BRK-B (SEC's spelling) */
+export function normalizeTicker(t: string) {
+  return t.trim().toUpperCase().replace(/[./]/g, "-");
+}
+
+const NAME_NOISE = new Set([
+  "INC", "INCORPORATED", "CORP", "CORPORATION", "CO", "COMPANY", "LTD", "LIMITED",
+  "PLC", "LLC", "LP", "SA", "NV", "AG", "SE", "THE", "DE",
+]);
+
+/** Upper-cased name words without legal-form noise: "Apple Inc." -> ["APPLE"] */
+export function nameTokens(name: string) {
+  return name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/[^A-Z0-9 ]+/g, " ")
+    .split(/\s+/)
+    .filter((t) => t && !NAME_NOISE.has(t));
+}
+
+const nameKey = (name: string) => name.toUpperCase().replace(/\s+/g, " ").trim();
+
+/** { fields: ["cik","name","ticker","exchange"], data: [[320193,"Apple Inc.","AAPL","Nasdaq"], ...] } */
+function parseRows(j: any): SecRow[] {
+  const fields: string[] = Array.isArray(j?.fields) ? j.fields : ["cik", "name", "ticker", "exchange"];
+  const data: any[][] = Array.isArray(j?.data) ? j.data : Array.isArray(j) ? j : [];
+  const at = (f: string) => fields.indexOf(f);
+  const [ci, ni, ti, ei] = [at("cik"), at("name"), at("ticker"), at("exchange")];
+  return data
+    .filter((d) => Array.isArray(d) && d[ci] && d[ti])
+    .map((d) => ({
+      cik: String(d[ci]).padStart(10, "0"),
+      ticker: String(d[ti]).toUpperCase(),
+      name: String(d[ni] || "").trim(),
+      exchange: d[ei] ? String(d[ei]) : undefined,
+    }));
+}
+
+function build(rows: SecRow[], at: number): TickerIndex {
+  // SEC lists a company's primary ticker first, so keep insertion order
+  const byCik = new Map<string, SecRow[]>();
+  const byTicker = new Map<string, SecRow>();
+  for (const row of rows) {
+    const list = byCik.get(row.cik);
+    if (list) list.push(row);
+    else byCik.set(row.cik, [row]);
+    if (!byTicker.has(row.ticker)) byTicker.set(row.ticker, row);
+  }
+  const names = rows
+    .map((row) => ({ key: nameKey(row.name), row }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  return { rows, byCik, byTicker, names, at };
+}
+
+async function readSnapshot() {
+  try {
+    return await prisma.tickerSnapshot.findUnique({ where: { url: SEC_JSON_URL } });
+  } catch {
+    return null; // no database configured: fall back to SEC
+  }
+}
+
+async function writeSnapshot(rows: SecRow[] | null, v: Validators, fetchedAt: Date) {
+  const data = rows
+    ? { rows: rows.map((r) => [r.cik, r.name, r.ticker, r.exchange ?? null]), etag: v.etag ?? null, lastModified: v.lastModified ?? null, fetchedAt }
+    : { fetchedAt };
+  await prisma.tickerSnapshot
+    .upsert({ where: { url: SEC_JSON_URL }, create: { url: SEC_JSON_URL, rows: [], ...data }, update: data })
+    .catch(() => {});
+}
+
+/** Conditional GET against SEC; a 304 only moves the snapshot's clock forward */
+async function refresh(): Promise<TickerIndex> {
+  const headers: Record<string, string> = {};
+  if (_index && _validators.etag) headers["If-None-Match"] = _validators.etag;
+  if (_index && _validators.lastModified) headers["If-Modified-Since"] = _validators.lastModified;
+
+  const r = await secFetch(SEC_JSON_URL, { headers });
+  if (r.status === 304 && _index) {
+    _index.at = Date.now();
+    await writeSnapshot(null, _validators, new Date(_index.at));
+    return _index;
+  }
+  if (!r.ok) throw new Error(`SEC tickers fetch failed (${r.status})`);
+
+  const rows = parseRows(await r.json());
+  if (!rows.length) throw new Error("SEC tickers file was empty");
+  _validators = {
+    etag: r.headers.get("etag") || undefined,
+    lastModified: r.headers.get("last-modified") || undefined,
+  };
+  _index = build(rows, Date.now());
+  await writeSnapshot(rows, _validators, new Date(_index.at));
+  return _index;
+}
+
+function refreshInBackground() {
+  if (_refreshing) return;
+  _refreshing = refresh()
+    .catch((err) => console.error("Ticker index refresh failed:", err))
+    .finally(() => (_refreshing = null));
+}
+
+async function coldStart(): Promise<TickerIndex> {
+  const snap = await readSnapshot();
+  const rows = Array.isArray(snap?.rows) ? parseRows({ data: snap!.rows }) : [];
+  if (!snap || !rows.length) return refresh();
+
+  _validators = { etag: snap.etag || undefined, lastModified: snap.lastModified || undefined };
+  _index = build(rows, new Date(snap.fetchedAt).getTime());
+  if (Date.now() - _index.at > TTL_MS) refreshInBackground();
+  return _index;
+}
+
+/**
+ * The index. A stale index is still served while a refresh runs in the
+ * background; only the very first load (no snapshot yet) waits on SEC.
+ */
+export async function tickerIndex(): Promise<TickerIndex> {
+  if (_index) {
+    if (Date.now() - _index.at > TTL_MS) refreshInBackground();
+    return _index;
+  }
+  if (!_loading) _loading = coldStart().finally(() => (_loading = null));
+  return _loading;
+}
+
+export async function loadTickers(): Promise<SecRow[]> {
+  return (await tickerIndex()).rows;
+}
+
+/** CIK (10-digit) -> every ticker row for that company, primary first */
+export async function tickersByCik(): Promise<Map<string, SecRow[]>> {
+  return (await tickerIndex()).byCik;
+}
+
+/** One ticker, in any share-class spelling (BRK.B, BRK-B) */
+export async function findByTicker(ticker: string): Promise<SecRow | undefined> {
+  return (await tickerIndex()).byTicker.get(normalizeTicker(ticker));
+}
+
+/** Every ticker row of a CIK (digits, any padding), primary first */
+export async function findByCik(cik: string): Promise<SecRow[]> {
+  const digits = cik.replace(/\D/g, "");
+  if (!digits) return [];
+  return (await tickerIndex()).byCik.get(digits.slice(-10).padStart(10, "0")) || [];
+}
+
+/** Rows whose name starts with `prefix` (case-insensitive), in name order */
+export async function findByNamePrefix(prefix: string, limit = 20): Promise<SecRow[]> {
+  const key = nameKey(prefix);
+  if (!key) return [];
+  const { names } = await tickerIndex();
+  let lo = 0;
+  let hi = names.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (names[mid].key < key) lo = mid + 1;
+    else hi = mid;
+  }
+  const out: SecRow[] = [];
+  for (let i = lo; i < names.length && out.length < limit && names[i].key.startsWith(key); i++) out.push(names[i].row);
+  return out;
+}
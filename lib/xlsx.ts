@@ -0,0 +1,102 @@
+// lib/xlsx.ts
+// Minimal single-sheet XLSX (SpreadsheetML in a ZIP) for downloads: inline
+// strings, typed numbers, a bold frozen header row. Enough for Excel, Numbers
+// and LibreOffice; no shared strings, formulas or date cells.
+import { zipEnd, zipFile, zipStart } from "./zip";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// style 1 = bold, for the header row
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+/** Text safe for XML: escaped, without the control characters XML 1.0 forbids */
+function xmlText(s: string) {
+  return s
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** 0 -> A, 25 -> Z, 26 -> AA */
+function columnName(i: number) {
+  let s = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+/** Sheet names: at most 31 characters, none of : \ / ? * [ ] */
+function sheetName(name: string) {
+  return name.replace(/[:\\/?*[\]]+/g, " ").trim().slice(0, 31) || "Sheet1";
+}
+
+function cell(ref: string, v: unknown, style = 0) {
+  const s = style ? ` s="${style}"` : "";
+  if (typeof v === "number") {
+    return Number.isFinite(v) ? `<c r="${ref}"${s} t="n"><v>${v}</v></c>` : "";
+  }
+  const text = v === null || v === undefined ? "" : Array.isArray(v) ? v.join("; ") : String(v);
+  if (!text) return "";
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlText(text)}</t></is></c>`;
+}
+
+function sheetXml(header: string[], rows: unknown[][]) {
+  const lines = [header, ...rows].map((r, i) => {
+    const cells = r.map((v, j) => cell(`${columnName(j)}${i + 1}`, v, i === 0 ? 1 : 0)).join("");
+    return `<row r="${i + 1}">${cells}</row>`;
+  });
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+    `<sheetData>${lines.join("")}</sheetData>` +
+    `</worksheet>`
+  );
+}
+
+/** Same shape as toCsv: a header row, then rows of values; numbers stay numbers */
+export function toXlsx(header: string[], rows: unknown[][], sheet = "Sheet1"): Buffer {
+  const workbook =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+    `<sheets><sheet name="${xmlText(sheetName(sheet))}" sheetId="1" r:id="rId1"/></sheets>` +
+    `</workbook>`;
+
+  const zip = zipStart();
+  const parts = [
+    zipFile(zip, "[Content_Types].xml", Buffer.from(CONTENT_TYPES, "utf8")),
+    zipFile(zip, "_rels/.rels", Buffer.from(ROOT_RELS, "utf8")),
+    zipFile(zip, "xl/workbook.xml", Buffer.from(workbook, "utf8")),
+    zipFile(zip, "xl/_rels/workbook.xml.rels", Buffer.from(WORKBOOK_RELS, "utf8")),
+    zipFile(zip, "xl/styles.xml", Buffer.from(STYLES, "utf8")),
+    zipFile(zip, "xl/worksheets/sheet1.xml", Buffer.from(sheetXml(header, rows), "utf8")),
+  ];
+  parts.push(zipEnd(zip));
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,106 @@
+// lib/zip.ts
+// Minimal streaming ZIP writer: each file is emitted (deflated) as soon as it
+// is added, and the central directory goes out at the end. No ZIP64, so an
+// archive stays under 4 GB / 65535 entries.
+import { deflateRawSync } from "zlib";
+
+export type ZipState = {
+  offset: number;
+  entries: { name: Buffer; crc: number; method: number; size: number; compressed: number; offset: number; time: number; date: number }[];
+};
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Uint8Array) {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time / date fields */
+function dosTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: (Math.max(0, d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+// general purpose flag bit 11: file names are UTF-8
+const UTF8 = 0x0800;
+
+export function zipStart(): ZipState {
+  return { offset: 0, entries: [] };
+}
+
+/** Local header + data for one file; already-compressed formats are stored as-is */
+export function zipFile(state: ZipState, name: string, data: Uint8Array, modified = new Date()): Buffer {
+  const nameBuf = Buffer.from(name, "utf8");
+  const store = /\.(zip|gz|jpe?g|png|gif|pdf|xlsx|docx)$/i.test(name) || data.length < 64;
+  const body = store ? Buffer.from(data) : deflateRawSync(data);
+  const { time, date } = dosTime(modified);
+  const entry = {
+    name: nameBuf,
+    crc: crc32(data),
+    method: store ? 0 : 8,
+    size: data.length,
+    compressed: body.length,
+    offset: state.offset,
+    time,
+    date,
+  };
+
+  const h = Buffer.alloc(30);
+  h.writeUInt32LE(0x04034b50, 0);
+  h.writeUInt16LE(20, 4); // version needed
+  h.writeUInt16LE(UTF8, 6);
+  h.writeUInt16LE(entry.method, 8);
+  h.writeUInt16LE(time, 10);
+  h.writeUInt16LE(date, 12);
+  h.writeUInt32LE(entry.crc, 14);
+  h.writeUInt32LE(entry.compressed, 18);
+  h.writeUInt32LE(entry.size, 22);
+  h.writeUInt16LE(nameBuf.length, 26);
+  h.writeUInt16LE(0, 28);
+
+  state.entries.push(entry);
+  const out = Buffer.concat([h, nameBuf, body]);
+  state.offset += out.length;
+  return out;
+}
+
+/** Central directory + end record */
+export function zipEnd(state: ZipState): Buffer {
+  const parts: Buffer[] = [];
+  for (const e of state.entries) {
+    const c = Buffer.alloc(46);
+    c.writeUInt32LE(0x02014b50, 0);
+    c.writeUInt16LE(20, 4); // version made by
+    c.writeUInt16LE(20, 6); // version needed
+    c.writeUInt16LE(UTF8, 8);
+    c.writeUInt16LE(e.method, 10);
+    c.writeUInt16LE(e.time, 12);
+    c.writeUInt16LE(e.date, 14);
+    c.writeUInt32LE(e.crc, 16);
+    c.writeUInt32LE(e.compressed, 20);
+    c.writeUInt32LE(e.size, 24);
+    c.writeUInt16LE(e.name.length, 28);
+    c.writeUInt32LE(e.offset, 42);
+    parts.push(c, e.name);
+  }
+  const dir = Buffer.concat(parts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(state.entries.length, 8);
+  end.writeUInt16LE(state.entries.length, 10);
+  end.writeUInt32LE(dir.length, 12);
+  end.writeUInt32LE(state.offset, 16);
+  return Buffer.concat([dir, end]);
+}
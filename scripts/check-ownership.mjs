@@ -0,0 +1,105 @@
+// scripts/check-ownership.mjs
+// Feeds the Form 4 fixtures in scripts/fixtures/ownership through
+// parseOwnershipXml / applyAmendments and fails on any mismatch.
+//
+//   npm run check:ownership
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import ts from "typescript";
+
+const root = new URL("../", import.meta.url);
+const fixture = (name) => readFileSync(new URL(`scripts/fixtures/ownership/${name}`, root), "utf8");
+
+// lib/ownership.ts has no imports, so a plain transpile is enough to load it
+const source = readFileSync(new URL("lib/ownership.ts", root), "utf8");
+const { outputText } = ts.transpileModule(source, {
+  compilerOptions: { module: ts.ModuleKind.ES2020, target: ts.ScriptTarget.ES2020 },
+});
+const { parseOwnershipXml, applyAmendments } = await import(
+  `data:text/javascript;base64,${Buffer.from(outputText).toString("base64")}`
+);
+
+// ---------- open-market sale with an indirect holding ----------
+const sale = parseOwnershipXml(fixture("form4-sale.xml"), { accessionNumber: "0000320193-24-000061", filedAt: "2024-05-03" });
+assert.equal(sale.formType, "4");
+assert.equal(sale.periodOfReport, "2024-05-01");
+assert.deepEqual(sale.issuer, { cik: "0000320193", name: "Apple Inc.", symbol: "AAPL" });
+assert.equal(sale.owners.length, 1);
+assert.equal(sale.owners[0].name, "O'BRIEN DEIRDRE");
+assert.equal(sale.owners[0].officerTitle, "SVP, Retail + People");
+assert.equal(sale.rows.length, 2);
+
+const [sold, held] = sale.rows;
+assert.equal(sold.insider, "O'BRIEN DEIRDRE");
+assert.equal(sold.insiderTitle, "SVP, Retail + People");
+assert.equal(sold.transactionCode, "S");
+assert.equal(sold.txnType, "D");
+assert.equal(sold.table, "I");
+assert.equal(sold.shares, 5000);
+assert.equal(sold.price, 169.2564);
+assert.equal(sold.ownedAfter, 136440);
+assert.equal(sold.ownership, "D");
+assert.equal(sold.footnotes.length, 2);
+assert.match(sold.footnotes[0], /^The sale reported on this Form 4 was effected pursuant to a Rule 10b5-1/);
+assert.match(sold.footnotes[1], /weighted average sale price/);
+
+assert.equal(held.transactionText, "Holding");
+assert.equal(held.transactionCode, undefined);
+assert.equal(held.ownership, "I");
+assert.equal(held.ownershipNature, "By Spouse's Trust"); // &#x27;
+assert.equal(held.ownedAfter, 1200);
+assert.equal(
+  held.footnotes[0],
+  "Shares held by a trust for the benefit of the reporting person’s spouse & children; the reporting person disclaims beneficial ownership <except to the extent of any pecuniary interest>."
+);
+
+// ---------- 4/A restating the sale ----------
+const amended = parseOwnershipXml(fixture("form4a-sale.xml"), { accessionNumber: "0000320193-24-000066", filedAt: "2024-05-08" });
+assert.equal(amended.formType, "4/A");
+assert.equal(amended.dateOfOriginalSubmission, "2024-05-03");
+assert.equal(amended.rows[0].shares, 4000);
+
+const kept = applyAmendments([
+  { ...sale, filedAt: "2024-05-03" },
+  { ...amended, filedAt: "2024-05-08" },
+]);
+assert.equal(kept.length, 1);
+assert.equal(kept[0].formType, "4/A");
+
+// ---------- option / stock award exercise (Table II) ----------
+const exercise = parseOwnershipXml(fixture("form4-option-exercise.xml"));
+assert.equal(exercise.issuer.symbol, "MSFT");
+assert.equal(exercise.rows.length, 4);
+
+const [acquired, withheld, award, option] = exercise.rows;
+assert.equal(acquired.transactionCode, "M");
+assert.equal(acquired.txnType, "A");
+assert.equal(acquired.price, 0);
+assert.equal(acquired.value, undefined);
+assert.equal(acquired.ownedAfter, 480123.5);
+assert.equal(withheld.transactionCode, "F");
+assert.equal(withheld.txnType, "D");
+assert.equal(withheld.value, 3960 * 406.56);
+
+assert.equal(award.table, "II");
+assert.equal(award.security, "Stock Awards");
+assert.equal(award.transactionCode, "M");
+assert.equal(award.txnType, "D");
+assert.equal(award.exercisePrice, undefined); // footnote only
+assert.equal(award.expirationDate, "2027-08-31");
+assert.equal(award.underlyingSecurity, "Common Stock");
+assert.equal(award.underlyingShares, 10000);
+assert.equal(award.ownedAfter, 30000);
+assert.deepEqual(award.footnotes, [
+  "Each stock award represents the right to receive one share of Microsoft common stock upon vesting.",
+  "The stock awards vest in four equal annual installments beginning August 31, 2024.",
+]);
+
+assert.equal(option.table, "II");
+assert.equal(option.transactionText, "Holding");
+assert.equal(option.security, "Employee Stock Option (Right to Buy)");
+assert.equal(option.exercisePrice, 28.53);
+assert.equal(option.expirationDate, "2025-08-31");
+assert.equal(option.underlyingShares, 12500);
+
+console.log("ownership fixtures: ok");